@@ -1,4 +1,5 @@
 const express = require('express');
+const crypto = require('crypto');
 const cors = require('cors');
 const fetch = require('node-fetch');
 const { Client, Environment } = require('square/legacy');
@@ -6,6 +7,102 @@ const helmet = require('helmet');
 require('dotenv').config();
 const { body, validationResult } = require('express-validator');
 const { createRateLimiter, helmetConfig, getCorsConfig, sanitizeInput } = require('./config/security');
+const { verifySquareSignature, captureRawBody } = require('./services/webhooks');
+const { hasProcessedEvent, recordEvent } = require('./services/eventLog');
+const {
+  CartPricingError,
+  resolveCartItem,
+  buildCatalogIndex,
+  priceCartItems,
+  findPriceMismatches,
+  validateTipCents,
+  getTipBaseCents,
+  collectCatalogObjectIds
+} = require('./services/pricing');
+const {
+  loadDiscountRules,
+  findDiscountRule,
+  evaluateDiscountRule,
+  toClientDiscount,
+  buildOrderDiscount,
+  toDiscountCandidate,
+  applyLineItemDiscounts,
+  findRedeemedRuleIds
+} = require('./services/discounts');
+const { getDiscountUsage, recordPaymentRedemptions, removeRedemptions } = require('./services/discountUsage');
+const {
+  FulfillmentError,
+  buildCurbsidePickupDetails,
+  toScheduledTimestamp,
+  buildOrderFulfillment,
+  buildArrivalUpdate
+} = require('./services/fulfillment');
+const { getDeliverySettings, validateDeliveryOrder } = require('./services/delivery');
+const { loadLeadTimes, toClientLeadTimes, getCartLeadTime, assertLeadTime } = require('./services/leadTimes');
+const { loadCateringSettings, validateHeadCount, calculateDepositCents } = require('./services/catering');
+const {
+  getSlotAvailability,
+  reserveSlot,
+  attachSlotOrder,
+  releaseSlot,
+  confirmSlotBooking,
+  releaseSlotForOrder
+} = require('./services/slotCapacity');
+const { getSpecialHours, assertOpenForFulfillment } = require('./services/specialHours');
+const { STORE_TIMEZONE, getZonedDateParts } = require('./services/time');
+const {
+  loadAsapSettings,
+  buildQueueSearch,
+  countQueuedOrders,
+  getCartPrepTime,
+  getCartSignature,
+  createAsapQuote,
+  getAsapQuote,
+  toClientQuote
+} = require('./services/asap');
+const { resolveDiscountStack } = require('./services/discountEngine');
+const {
+  AccountError,
+  issueSignInCode,
+  verifySignInCode,
+  createSession,
+  getSessionAccount,
+  endSession,
+  linkSquareCustomer,
+  getAccountFavorites,
+  setAccountFavorites
+} = require('./services/accounts');
+const { normalizeFavorites } = require('./services/favorites');
+const { isMailConfigured, sendMail } = require('./services/mailer');
+const { buildHistorySearch, isPlacedOrder, normalizePhone, matchesContact } = require('./services/orderHistory');
+const { toTrackedOrder } = require('./services/orderTracking');
+const {
+  LoyaltyError,
+  toLoyaltyPhone,
+  toClientProgram,
+  toClientAccount,
+  getRewardDiscountCents,
+  buildRewardOrderDiscount,
+  createLoyaltyClient
+} = require('./services/loyalty');
+const {
+  GiftCardError,
+  toClientGiftCard,
+  splitTender,
+  validateGiftCardPurchase,
+  buildGiftCardEmail,
+  createGiftCardClient
+} = require('./services/giftCards');
+const { IdempotencyError, validateIdempotencyKey, deriveSquareKey, findResult, forgetResult, runOnce } = require('./services/idempotency');
+const {
+  CancellationError,
+  getOrderPaymentIds,
+  getCustomerCancellation,
+  isOrderCustomer,
+  getLineItemRefundCents,
+  allocateRefund,
+  createCancellationClient
+} = require('./services/cancellations');
 require('dotenv').config({ path: './.env' });
 
 const app = express();
@@ -57,8 +154,8 @@ app.use((req, res, next) => {
 // Input sanitization
 app.use(sanitizeInput);
 
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Body parsing middleware (raw body kept for webhook signature verification)
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging middleware
@@ -95,8 +192,24 @@ function createCacheKey(endpoint, body = null) {
   return `${endpoint}_${body ? JSON.stringify(body) : 'no_body'}`;
 }
 
+// Drop cached catalog responses (items, categories, modifiers, discounts)
+// so catalog edits show up without waiting for CACHE_TTL to expire
+function invalidateCatalogCache() {
+  let invalidated = 0;
+  for (const key of apiCache.keys()) {
+    if (key.startsWith('/catalog')) {
+      apiCache.delete(key);
+      invalidated++;
+    }
+  }
+  return invalidated;
+}
+
 // Helper function to make Square API requests with caching
-async function makeSquareRequest(endpoint, options = {}) {
+// Pass skipCache: true for live data (orders, payments) that must never be served stale
+async function makeSquareRequest(endpoint, requestOptions = {}) {
+  const { skipCache, ...options } = requestOptions;
+
   // Determine cache type based on endpoint
   let cacheType = 'default';
   if (endpoint.includes('/locations')) cacheType = 'locations';
@@ -111,7 +224,7 @@ async function makeSquareRequest(endpoint, options = {}) {
   const ttl = CACHE_TTL[cacheType] || 5 * 60 * 1000; // 5 minutes default
 
   // Check cache first
-  const cached = apiCache.get(cacheKey);
+  const cached = skipCache ? null : apiCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < ttl) {
 
     return cached.data;
@@ -138,17 +251,514 @@ async function makeSquareRequest(endpoint, options = {}) {
   const data = await response.json();
   
   // Cache the response
-  apiCache.set(cacheKey, {
-    data,
-    timestamp: Date.now()
-  });
+  if (!skipCache) {
+    apiCache.set(cacheKey, {
+      data,
+      timestamp: Date.now()
+    });
+  }
 
 
   return data;
 }
 
+// Price a client cart against the Square catalog (cached, invalidated by catalog webhooks)
+async function priceCartFromCatalog(items) {
+  const resolvedItems = items.map(resolveCartItem);
+  const catalogData = await makeSquareRequest('/catalog/batch-retrieve', {
+    method: 'POST',
+    body: JSON.stringify({
+      object_ids: collectCatalogObjectIds(resolvedItems),
+      include_related_objects: true
+    })
+  });
+
+  return priceCartItems(resolvedItems, buildCatalogIndex(catalogData));
+}
+
+// Evaluate one discount rule against an already-priced cart, pulling its Square catalog discount if linked
+// customer ({ email, phone }) is optional; per-customer limits are only checked when it is known. Day and time
+// restrictions are read on the clock of the location's timeZone.
+async function evaluateRuleForCart(rule, pricedItems, { customer, timeZone } = {}) {
+  let squareDiscount = null;
+  if (rule.squareDiscountId) {
+    try {
+      const data = await makeSquareRequest(`/catalog/object/${rule.squareDiscountId}`);
+      squareDiscount = data.object?.type === 'DISCOUNT' ? data.object : null;
+    } catch (error) {
+      console.error(`Error fetching Square discount ${rule.squareDiscountId}:`, error);
+    }
+
+    // A rule pointing at a missing catalog discount cannot be attached to an order
+    if (!squareDiscount) {
+      return { isValid: false, error: 'Invalid discount code', rule };
+    }
+  }
+
+  const usage = getDiscountUsage(rule.id, customer);
+  const evaluation = evaluateDiscountRule(rule, { pricedItems, squareDiscount, usage, timeZone });
+  return { ...evaluation, rule, squareDiscount, usage };
+}
+
+// Validate a discount code (or automatic discount ID) against an already-priced cart
+async function validateDiscountForCart(codeOrId, pricedItems, context) {
+  const rule = findDiscountRule(loadDiscountRules(), codeOrId);
+  if (!rule) {
+    return { isValid: false, error: 'Invalid discount code' };
+  }
+
+  return evaluateRuleForCart(rule, pricedItems, context);
+}
+
+// Re-evaluate the codes a client says are applied; automatic discounts are always recomputed
+// Returns the first invalid code when strict, otherwise drops it
+async function evaluateAppliedCodes(appliedDiscounts, pricedItems, { strict = false, customer, timeZone } = {}) {
+  const rules = loadDiscountRules();
+  const results = [];
+
+  for (const discount of appliedDiscounts || []) {
+    // Loyalty rewards are checked against the customer's points at checkout, not as codes
+    if (discount.type === 'loyalty_points') continue;
+
+    const codeOrId = discount.code || discount.discountId;
+    if (findDiscountRule(rules, codeOrId)?.automatic) continue;
+
+    const result = await validateDiscountForCart(codeOrId, pricedItems, { customer, timeZone });
+    if (!result.isValid) {
+      if (strict) {
+        return { invalid: { discount, error: result.error } };
+      }
+      continue;
+    }
+    results.push(result);
+  }
+
+  return { results };
+}
+
+// Final discount set for a cart: entered codes first, then the best automatic discounts that stack with them
+async function resolveCartDiscounts(codeResults, pricedItems, context) {
+  const rules = loadDiscountRules().filter(rule => rule.automatic);
+  const automaticResults = await Promise.all(rules.map(rule => evaluateRuleForCart(rule, pricedItems, context)));
+  const subtotalCents = pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+
+  return resolveDiscountStack(
+    codeResults.map(toDiscountCandidate),
+    automaticResults.filter(result => result.isValid).map(toDiscountCandidate),
+    subtotalCents
+  );
+}
+
+// Client-facing shape of a validated discount
+function toDiscountResponse(result) {
+  // Reward discounts report the lines they used; everything else the lines it qualified
+  const lines = result.claims.length > 0 ? result.claims.map(claim => claim.priced) : result.eligibleItems;
+
+  return {
+    discount: toClientDiscount(result.rule, result.squareDiscount, result.usage),
+    appliedAmount: result.appliedAmountCents / 100,
+    itemIds: lines.map(priced => priced.clientItemId)
+  };
+}
+
+// IANA time zone of a Square location, for turning its wall-clock pickup times into timestamps
+async function getLocationTimezone(locationId) {
+  try {
+    const { location } = await makeSquareRequest(`/locations/${locationId}`);
+    return location?.timezone || STORE_TIMEZONE;
+  } catch (error) {
+    console.error('Error fetching location time zone:', error);
+    return STORE_TIMEZONE;
+  }
+}
+
+// Time zone for a cart's discount day and time restrictions: its store's, or STORE_TIMEZONE before one is chosen
+async function getDiscountTimezone(locationId) {
+  if (!locationId || !/^[A-Za-z0-9_-]+$/.test(locationId)) {
+    return STORE_TIMEZONE;
+  }
+  return getLocationTimezone(locationId);
+}
+
+// Session token from an "Authorization: Bearer <token>" header
+function getBearerToken(req) {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer ([A-Za-z0-9]+)$/);
+  return match ? match[1] : null;
+}
+
+// Signed-in account for a request, or null for guest checkouts
+function getRequestAccount(req) {
+  return getSessionAccount(getBearerToken(req));
+}
+
+// Square customer behind an account - reuses a profile with the same email (e.g. from the
+// dashboard or an earlier order) before creating one, and links it on first use
+async function getAccountCustomer(account) {
+  if (account.squareCustomerId) {
+    try {
+      const { customer } = await makeSquareRequest(`/customers/${account.squareCustomerId}`, {
+        method: 'GET',
+        skipCache: true
+      });
+      if (customer) return customer;
+    } catch (error) {
+      // Deleted in the dashboard - fall through and relink
+      console.error('Error fetching linked Square customer:', error);
+    }
+  }
+
+  const { customers = [] } = await makeSquareRequest('/customers/search', {
+    method: 'POST',
+    skipCache: true,
+    body: JSON.stringify({
+      query: { filter: { email_address: { exact: account.email } } },
+      limit: 1
+    })
+  });
+
+  let customer = customers[0];
+  if (!customer) {
+    ({ customer } = await makeSquareRequest('/customers', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: `account-${account.id}`,
+        email_address: account.email,
+        reference_id: account.id
+      })
+    }));
+  }
+
+  linkSquareCustomer(account.id, customer.id);
+  return customer;
+}
+
+// Placed orders for Square customers across all locations, newest first
+async function searchCustomerOrders(customerIds) {
+  const { locations = [] } = await makeSquareRequest('/locations');
+  const locationIds = locations.map(location => location.id);
+  if (customerIds.length === 0 || locationIds.length === 0) return [];
+
+  // Order history changes with every purchase, so always go to Square
+  const { orders = [] } = await makeSquareRequest('/orders/search', {
+    method: 'POST',
+    skipCache: true,
+    body: JSON.stringify(buildHistorySearch(locationIds, customerIds))
+  });
+
+  return orders.filter(isPlacedOrder);
+}
+
+// Profile fields the storefront shows and prefills at checkout
+function toClientProfile(account, customer) {
+  return {
+    email: account.email,
+    firstName: customer?.given_name || '',
+    lastName: customer?.family_name || '',
+    phone: customer?.phone_number || ''
+  };
+}
+
+const loyaltyClient = createLoyaltyClient(makeSquareRequest);
+
+// Price the loyalty reward a customer picked in the cart against what is left to pay
+// Spending points needs a signed-in account whose Square profile has the loyalty phone number.
+async function resolveLoyaltyReward(loyalty, account, remainingCents) {
+  if (!loyalty?.rewardTierId) return null;
+  if (!account) {
+    throw new LoyaltyError('Please sign in to redeem loyalty rewards');
+  }
+
+  const program = await loyaltyClient.getProgram();
+  const tier = program && toClientProgram(program).rewardTiers.find(candidate => candidate.id === loyalty.rewardTierId);
+  if (!tier) {
+    throw new LoyaltyError('That reward is no longer available');
+  }
+
+  const customer = await getAccountCustomer(account);
+  if (!customer.phone_number || normalizePhone(customer.phone_number) !== normalizePhone(loyalty.phone)) {
+    throw new LoyaltyError('Add this phone number to your account to redeem its rewards');
+  }
+
+  const loyaltyAccount = await loyaltyClient.findAccountByPhone(loyalty.phone);
+  if (!loyaltyAccount || (loyaltyAccount.balance || 0) < tier.points) {
+    throw new LoyaltyError(`${tier.name} needs ${tier.points} points`, { pointsNeeded: tier.points });
+  }
+
+  const amountCents = getRewardDiscountCents(tier, remainingCents);
+  if (amountCents === 0) {
+    throw new LoyaltyError(`${tier.name} can't be used on this order`);
+  }
+
+  return { tier, amountCents, orderDiscount: buildRewardOrderDiscount(tier, amountCents) };
+}
+
+const giftCardClient = createGiftCardClient(makeSquareRequest);
+
+// Split tender: the gift card pays what it can and a card pays the rest, then both payments go on the order
+// together. If anything fails after the redemption, the payments are cancelled and the gift card refunded.
+// The order is the open, server-built one the payment route has already checked against the customer's total.
+async function payWithGiftCard({ gan, token, order, tipCents, attemptKey }) {
+  const orderId = order.id;
+  const giftCard = await giftCardClient.getByGan(gan);
+  const balanceCents = giftCard.balance_money?.amount || 0;
+  if (giftCard.state !== 'ACTIVE' || balanceCents === 0) {
+    throw new GiftCardError('This gift card has no balance left');
+  }
+
+  const amountCents = order.net_amount_due_money?.amount ?? order.total_money?.amount ?? 0;
+  const split = splitTender(amountCents, tipCents, balanceCents);
+  if (split.card.amountCents > 0 && !token) {
+    throw new GiftCardError(
+      `Your gift card covers $${(balanceCents / 100).toFixed(2)}. Please add a card for the rest.`,
+      { cardRequired: true }
+    );
+  }
+
+  const locationId = order.location_id;
+  const giftTotalCents = split.giftCard.amountCents + split.giftCard.tipCents;
+  const redemption = await giftCardClient.redeem({ gan: giftCard.gan, amountCents: giftTotalCents, locationId, attemptKey });
+
+  const payments = [];
+  const createPayment = async (paymentData) => {
+    const { payment } = await makeSquareRequest('/payments', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({ ...paymentData, order_id: orderId, autocomplete: false })
+    });
+    payments.push(payment);
+  };
+  const toMoney = (amount) => ({ amount, currency: 'USD' });
+
+  try {
+    await createPayment({
+      idempotency_key: deriveSquareKey('gift-card-payment', attemptKey),
+      source_id: 'EXTERNAL',
+      external_details: {
+        type: 'STORED_BALANCE',
+        source: `Gift card ending ${giftCard.gan.slice(-4)}`,
+        source_id: giftCard.id
+      },
+      amount_money: toMoney(split.giftCard.amountCents),
+      ...(split.giftCard.tipCents > 0 && { tip_money: toMoney(split.giftCard.tipCents) })
+    });
+
+    if (split.card.amountCents > 0) {
+      await createPayment({
+        idempotency_key: deriveSquareKey('card-payment', attemptKey),
+        source_id: token,
+        amount_money: toMoney(split.card.amountCents),
+        ...(split.card.tipCents > 0 && { tip_money: toMoney(split.card.tipCents) })
+      });
+    }
+
+    await makeSquareRequest(`/orders/${orderId}/pay`, {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: deriveSquareKey('pay-order', attemptKey),
+        payment_ids: payments.map(payment => payment.id)
+      })
+    });
+  } catch (error) {
+    await Promise.allSettled(payments.map(payment =>
+      makeSquareRequest(`/payments/${payment.id}/cancel`, { method: 'POST', skipCache: true })
+    ));
+    await giftCardClient.refundRedemption({
+      gan: giftCard.gan,
+      redeemActivityId: redemption.id,
+      amountCents: giftTotalCents,
+      locationId,
+      attemptKey
+    }).catch(refundError => {
+      console.error(`Error refunding gift card redemption ${redemption.id}:`, refundError);
+    });
+    throw error;
+  }
+
+  return {
+    // The card payment when there is one, matching the single-payment response
+    payment: payments[payments.length - 1],
+    payments,
+    giftCard: toClientGiftCard({ ...giftCard, balance_money: toMoney(balanceCents - giftTotalCents) }),
+    giftCardAmount: giftTotalCents / 100
+  };
+}
+
+// Paid gift card purchase: issue a card for each gift card line, load it from the order and email it
+// A card that is already active was issued by an earlier delivery of the same payment, so it isn't sent twice.
+async function fulfillGiftCardOrder(order) {
+  const metadata = order.metadata;
+  const issued = [];
+
+  for (const line of (order.line_items || []).filter(item => item.item_type === 'GIFT_CARD')) {
+    const giftCard = await giftCardClient.createDigitalGiftCard({
+      locationId: order.location_id,
+      orderId: order.id,
+      lineItemUid: line.uid
+    });
+
+    if (giftCard.state !== 'ACTIVE') {
+      await giftCardClient.activateForOrderLine({
+        giftCardId: giftCard.id,
+        locationId: order.location_id,
+        orderId: order.id,
+        lineItemUid: line.uid
+      });
+      // The card is issued either way; a failed email is logged for the store to resend from the dashboard
+      sendMail({
+        to: metadata.gift_card_recipient_email,
+        ...buildGiftCardEmail({
+          gan: giftCard.gan,
+          amountCents: line.base_price_money?.amount || 0,
+          recipientName: metadata.gift_card_recipient_name,
+          senderName: metadata.gift_card_sender_name,
+          message: metadata.gift_card_message
+        })
+      }).catch(error => console.error(`Error emailing gift card ${giftCard.id}:`, error));
+    }
+    issued.push(giftCard.id);
+  }
+
+  return issued;
+}
+
+const cancellationClient = createCancellationClient(makeSquareRequest);
+
+// Staff-only routes (refunds, cancellations) send the STAFF_API_KEY in an X-Staff-Key header
+function requireStaff(req, res, next) {
+  const staffKey = process.env.STAFF_API_KEY;
+  if (!staffKey) {
+    return res.status(503).json({ error: 'Staff actions are not set up on this server' });
+  }
+
+  // Compare fixed-length digests so the check takes the same time whatever was sent
+  const digest = (value) => crypto.createHash('sha256').update(String(value || '')).digest();
+  if (!crypto.timingSafeEqual(digest(req.headers['x-staff-key']), digest(staffKey))) {
+    return res.status(401).json({ error: 'A valid staff key is required' });
+  }
+  next();
+}
+
+// A cancelled order gives back its pickup slot and no longer counts toward its discounts' limits
+function releaseOrderHolds(orderId) {
+  releaseSlotForOrder(orderId);
+  removeRedemptions(orderId);
+}
+
+// Refunds the order's payments through Square, all that's left or amountCents. Gift card payments are
+// recorded as external payments, so their refunds also put the amount back on the gift card.
+async function refundOrder(order, amountCents, reason) {
+  const payments = await cancellationClient.getPayments(order);
+  const allocations = allocateRefund(payments, amountCents);
+  const refunds = await cancellationClient.refundPayments(order, allocations, reason);
+
+  await Promise.all(allocations.map(({ payment, amountCents: refundedCents }, index) => {
+    if (payment.source_type !== 'EXTERNAL' || payment.external_details?.type !== 'STORED_BALANCE') {
+      return null;
+    }
+    return giftCardClient.restoreBalance({
+      giftCardId: payment.external_details.source_id,
+      amountCents: refundedCents,
+      locationId: order.location_id,
+      refundId: refunds[index].id
+    });
+  }));
+
+  return refunds;
+}
+
+// Cancels an order, refunding whatever was paid for it
+async function cancelOrder(order, reason) {
+  let refunds = [];
+  let cancelled;
+
+  if (getOrderPaymentIds(order).length > 0) {
+    refunds = await refundOrder(order, undefined, reason);
+    // Refunds bump the order version, so the cancellation goes against a fresh copy
+    const { order: refundedOrder } = await makeSquareRequest(`/orders/${order.id}`, { method: 'GET', skipCache: true });
+    cancelled = await cancellationClient.cancelFulfillments(refundedOrder);
+  } else {
+    cancelled = await cancellationClient.cancelUnpaidOrder(order);
+  }
+
+  releaseOrderHolds(order.id);
+  return { order: cancelled, refunds };
+}
+
+// Paid order: take the points for any reward it used, then award points for what was spent
+async function settleOrderLoyalty(order) {
+  const program = await loyaltyClient.getProgram();
+  if (!program) {
+    return { skipped: 'No active loyalty program' };
+  }
+
+  const account = await loyaltyClient.findOrCreateAccount(program.id, order.metadata.loyalty_phone);
+  const rewardTierId = order.metadata.loyalty_reward_tier_id;
+  if (rewardTierId) {
+    await loyaltyClient.redeemReward({
+      accountId: account.id,
+      rewardTierId,
+      orderId: order.id,
+      locationId: order.location_id
+    });
+  }
+
+  const pointsEarned = await loyaltyClient.accumulateForOrder(account.id, order.id, order.location_id);
+  return { accountId: account.id, rewardTierId, pointsEarned };
+}
+
+// Delivery fee service charge for an order, after checking the address and minimum against the location's settings
+// subtotalCents is the order after discounts; returns null when the location charges no fee
+async function buildDeliveryServiceCharge(locationId, deliveryAddress, subtotalCents) {
+  const deliverySettings = getDeliverySettings(locationId);
+  let storeCoordinates = null;
+  if (deliverySettings.radiusMiles > 0) {
+    const { location } = await makeSquareRequest(`/locations/${locationId}`);
+    storeCoordinates = location?.coordinates && {
+      lat: location.coordinates.latitude,
+      lng: location.coordinates.longitude
+    };
+  }
+
+  const deliveryFeeCents = validateDeliveryOrder({
+    settings: deliverySettings,
+    address: deliveryAddress,
+    subtotalCents,
+    storeCoordinates
+  });
+  if (deliveryFeeCents === 0) {
+    return null;
+  }
+
+  return {
+    name: 'Delivery fee',
+    amount_money: {
+      amount: deliveryFeeCents,
+      currency: 'USD'
+    },
+    calculation_phase: 'SUBTOTAL_PHASE',
+    taxable: false
+  };
+}
+
 // Routes
 
+// Middleware to check if online store is enabled
+const checkStoreOnline = (req, res, next) => {
+  const storeOnline = process.env.STORE_ONLINE === 'true';
+  
+  if (!storeOnline) {
+    return res.status(503).json({ 
+      error: 'Online ordering is currently unavailable. Please try again later or contact us directly.',
+      storeOffline: true
+    });
+  }
+  
+  next();
+};
+
 // Store status endpoint
 app.get('/api/store-status', (req, res) => {
   const storeOnline = process.env.STORE_ONLINE === 'true';
@@ -259,13 +869,109 @@ app.get('/api/health/config', (req, res) => {
 app.get('/api/square/locations', async (req, res) => {
   try {
     const data = await makeSquareRequest('/locations');
-    res.json(data);
+    // Holiday closures and special hours ride along with each location's weekly business hours
+    res.json({
+      ...data,
+      locations: (data.locations || []).map(location => ({
+        ...location,
+        // "Upcoming" starts from today where the location is, not where the server is
+        special_hours: getSpecialHours(
+          location.id,
+          getZonedDateParts(new Date(), location.timezone || STORE_TIMEZONE).date
+        )
+      }))
+    });
   } catch (error) {
     console.error('Error fetching locations:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Delivery settings for a location (fee and minimum in cents)
+app.get('/api/square/locations/:locationId/delivery', (req, res) => {
+  const { locationId } = req.params;
+
+  if (!/^[A-Za-z0-9_-]+$/.test(locationId)) {
+    return res.status(400).json({ error: 'Invalid location ID' });
+  }
+
+  res.json(getDeliverySettings(locationId));
+});
+
+// Remaining pickup capacity per slot for one day (?date=YYYY-MM-DD)
+app.get('/api/square/locations/:locationId/slots', (req, res) => {
+  const { locationId } = req.params;
+  const { date } = req.query;
+
+  if (!/^[A-Za-z0-9_-]+$/.test(locationId)) {
+    return res.status(400).json({ error: 'Invalid location ID' });
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(date))) {
+    return res.status(400).json({ error: 'A date (YYYY-MM-DD) is required' });
+  }
+
+  res.json(getSlotAvailability(locationId, date));
+});
+
+// ASAP pickup quote: the cart's longest prep time plus the location's current queue of open orders
+// The returned quoteId locks the ready time in for create-checkout until the quote expires.
+app.post('/api/square/locations/:locationId/asap-quote', checkStoreOnline, async (req, res) => {
+  try {
+    const { locationId } = req.params;
+    const { items } = req.body;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(locationId)) {
+      return res.status(400).json({ error: 'Invalid location ID' });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'Items are required for an ASAP estimate' });
+    }
+
+    const settings = loadAsapSettings();
+    const pricedItems = await priceCartFromCatalog(items);
+    const { location } = await makeSquareRequest(`/locations/${locationId}`);
+    const timeZone = location?.timezone || STORE_TIMEZONE;
+    const today = getZonedDateParts(new Date(), timeZone).date;
+
+    // The queue changes with every order, so always go to Square
+    const { orders } = await makeSquareRequest('/orders/search', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify(buildQueueSearch(locationId))
+    });
+
+    const quote = createAsapQuote({
+      locationId,
+      timeZone,
+      settings,
+      cartSignature: getCartSignature(pricedItems),
+      cartLeadTime: getCartLeadTime(pricedItems),
+      prepTime: getCartPrepTime(pricedItems, settings),
+      queueDepth: countQueuedOrders(orders, settings),
+      businessHours: location?.business_hours,
+      special: getSpecialHours(locationId, today).find(entry => entry.date === today)
+    });
+
+    res.json(toClientQuote(quote));
+  } catch (error) {
+    if (error instanceof CartPricingError || error instanceof FulfillmentError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error quoting ASAP pickup:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Preparation lead times in minutes, by catalog category and item ID
+app.get('/api/square/lead-times', (req, res) => {
+  res.json(toClientLeadTimes(loadLeadTimes()));
+});
+
+// Catering settings - head count range, lead time and deposit
+app.get('/api/square/catering/settings', (req, res) => {
+  res.json(loadCateringSettings());
+});
+
 // Get Square products
 app.post('/api/square/products', async (req, res) => {
   try {
@@ -636,6 +1342,79 @@ app.post('/api/square/discounts', async (req, res) => {
   }
 });
 
+// Validate a discount code against the current cart
+app.post('/api/square/discounts/validate', async (req, res) => {
+  try {
+    const { code, items, appliedDiscounts, customer, locationId } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ isValid: false, error: 'Discount code is required' });
+    }
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ isValid: false, error: 'Add items to your cart before applying a discount' });
+    }
+
+    const pricedItems = await priceCartFromCatalog(items);
+    const timeZone = await getDiscountTimezone(locationId);
+    const result = await validateDiscountForCart(code.trim(), pricedItems, { customer, timeZone });
+    if (!result.isValid) {
+      return res.json({ isValid: false, error: result.error });
+    }
+
+    // The new code goes last so codes already applied win priority ties
+    const { results: existingResults } = await evaluateAppliedCodes(
+      (appliedDiscounts || []).filter(discount => discount.discountId !== result.rule.id),
+      pricedItems,
+      { customer, timeZone }
+    );
+    const { rejected } = await resolveCartDiscounts([...existingResults, result], pricedItems, { customer, timeZone });
+
+    const newCodeConflict = rejected.find(({ candidate }) => candidate.rule.id === result.rule.id);
+    if (newCodeConflict) {
+      return res.json({ isValid: false, error: newCodeConflict.reason });
+    }
+
+    res.json({
+      isValid: true,
+      ...toDiscountResponse(result),
+      // Lower-priority codes the new one pushed out
+      replacedDiscountIds: rejected.map(({ candidate }) => candidate.rule.id),
+      replacedReason: rejected[0]?.reason
+    });
+  } catch (error) {
+    if (error instanceof CartPricingError) {
+      return res.status(400).json({ isValid: false, error: error.message, ...error.details });
+    }
+    console.error('Error validating discount:', error);
+    res.status(500).json({ isValid: false, error: 'Unable to validate discount code' });
+  }
+});
+
+// Automatic discounts that apply to the current cart alongside the entered codes
+app.post('/api/square/discounts/automatic', async (req, res) => {
+  try {
+    const { items, appliedDiscounts, locationId } = req.body;
+
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      return res.json({ discounts: [] });
+    }
+
+    const pricedItems = await priceCartFromCatalog(items);
+    const timeZone = await getDiscountTimezone(locationId);
+    const { results: codeResults } = await evaluateAppliedCodes(appliedDiscounts, pricedItems, { timeZone });
+    const { applied } = await resolveCartDiscounts(codeResults, pricedItems, { timeZone });
+    res.json({
+      discounts: applied.filter(candidate => candidate.automatic).map(toDiscountResponse)
+    });
+  } catch (error) {
+    if (error instanceof CartPricingError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error finding automatic discounts:', error);
+    res.status(500).json({ error: 'Unable to check automatic discounts' });
+  }
+});
+
 // Get Square measurement units
 app.post('/api/square/measurement-units', async (req, res) => {
   try {
@@ -665,42 +1444,587 @@ app.post('/api/square/measurement-units', async (req, res) => {
   }
 });
 
+// Sign-in step 1: email a one-time code
+app.post('/api/square/account/request-code', async (req, res) => {
+  try {
+    const { email, code, expiresInMinutes } = issueSignInCode(req.body?.email);
 
-// Middleware to check if online store is enabled
-const checkStoreOnline = (req, res, next) => {
-  const storeOnline = process.env.STORE_ONLINE === 'true';
-  
-  if (!storeOnline) {
-    return res.status(503).json({ 
-      error: 'Online ordering is currently unavailable. Please try again later or contact us directly.',
-      storeOffline: true
+    await sendMail({
+      to: email,
+      subject: "Your Fetterman's sign-in code",
+      text: `Your sign-in code is ${code}. It expires in ${expiresInMinutes} minutes.\n\nIf you didn't ask to sign in, you can ignore this email.`
     });
+
+    res.json({ sent: true, email });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error sending sign-in code:', error);
+    res.status(500).json({ error: error.message });
   }
-  
-  next();
-};
+});
 
-// Create Square order
-app.post('/api/square/orders', checkStoreOnline, async (req, res) => {
+// Sign-in step 2: check the code, link the account to its Square customer and start a session
+app.post('/api/square/account/verify-code', async (req, res) => {
   try {
-    const orderData = req.body;
-    
-    const data = await makeSquareRequest('/orders', {
+    const account = verifySignInCode(req.body?.email, req.body?.code);
+    const customer = await getAccountCustomer(account);
+    const token = createSession(account.id);
+
+    res.json({ token, profile: toClientProfile(account, customer) });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error verifying sign-in code:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Saved profile for the signed-in customer
+app.get('/api/square/account', async (req, res) => {
+  try {
+    const account = getRequestAccount(req);
+    if (!account) {
+      return res.status(401).json({ error: 'Please sign in again', signedOut: true });
+    }
+
+    const customer = await getAccountCustomer(account);
+    res.json({ profile: toClientProfile(account, customer) });
+  } catch (error) {
+    console.error('Error fetching account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update the saved name and phone; the email is the sign-in and stays fixed
+app.put('/api/square/account', async (req, res) => {
+  try {
+    const account = getRequestAccount(req);
+    if (!account) {
+      return res.status(401).json({ error: 'Please sign in again', signedOut: true });
+    }
+
+    const { firstName, lastName, phone } = req.body || {};
+    const customer = await getAccountCustomer(account);
+
+    // Square treats an empty string as "clear this field"
+    const { customer: updated } = await makeSquareRequest(`/customers/${customer.id}`, {
+      method: 'PUT',
+      skipCache: true,
+      body: JSON.stringify({
+        ...(firstName !== undefined && { given_name: String(firstName).trim().slice(0, 100) }),
+        ...(lastName !== undefined && { family_name: String(lastName).trim().slice(0, 100) }),
+        ...(phone !== undefined && { phone_number: String(phone).trim().slice(0, 30) }),
+        version: customer.version
+      })
+    });
+
+    res.json({ profile: toClientProfile(account, updated) });
+  } catch (error) {
+    console.error('Error updating account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Order history for the signed-in customer
+app.get('/api/square/account/orders', async (req, res) => {
+  try {
+    const account = getRequestAccount(req);
+    if (!account) {
+      return res.status(401).json({ error: 'Please sign in again', signedOut: true });
+    }
+
+    const customer = await getAccountCustomer(account);
+    const orders = await searchCustomerOrders([customer.id]);
+    res.json({ orders });
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Saved favorites for the signed-in customer
+app.get('/api/square/account/favorites', (req, res) => {
+  const account = getRequestAccount(req);
+  if (!account) {
+    return res.status(401).json({ error: 'Please sign in again', signedOut: true });
+  }
+
+  res.json({ favorites: getAccountFavorites(account.id) });
+});
+
+// Replace the saved favorites with the storefront's merged list
+app.put('/api/square/account/favorites', (req, res) => {
+  try {
+    const account = getRequestAccount(req);
+    if (!account) {
+      return res.status(401).json({ error: 'Please sign in again', signedOut: true });
+    }
+
+    const favorites = normalizeFavorites(req.body?.favorites);
+    res.json({ favorites: setAccountFavorites(account.id, favorites) });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error saving favorites:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Order history without an account: the phone number and email the orders were placed with
+app.post('/api/square/orders/lookup', async (req, res) => {
+  try {
+    const { phone, email } = req.body || {};
+    const digits = normalizePhone(phone);
+
+    if (digits.length < 10 || !email) {
+      return res.status(400).json({ error: 'Enter the phone number and email used for your orders' });
+    }
+
+    const { customers = [] } = await makeSquareRequest('/customers/search', {
       method: 'POST',
-      body: JSON.stringify(orderData)
+      skipCache: true,
+      body: JSON.stringify({
+        query: { filter: { phone_number: { fuzzy: digits } } },
+        limit: 20
+      })
+    });
+
+    const customerIds = customers
+      .filter(customer => matchesContact(customer, phone, email))
+      .map(customer => customer.id);
+
+    const orders = await searchCustomerOrders(customerIds);
+    res.json({ orders });
+  } catch (error) {
+    console.error('Error looking up orders:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/square/account/sign-out', (req, res) => {
+  endSession(getBearerToken(req));
+  res.json({ signedOut: true });
+});
+
+// Loyalty program and its online rewards; program is null when the seller hasn't set one up
+app.get('/api/square/loyalty/program', async (req, res) => {
+  try {
+    const program = await loyaltyClient.getProgram();
+    res.json({ program: program ? toClientProgram(program) : null });
+  } catch (error) {
+    console.error('Error fetching loyalty program:', error);
+    res.status(500).json({ error: 'Unable to load the loyalty program' });
+  }
+});
+
+// Points balance for the signed-in customer's own phone number; account is null until a first order earns points
+// Anyone can earn points by phone number at checkout, but a number alone doesn't show its balance
+app.post('/api/square/loyalty/account', async (req, res) => {
+  try {
+    const signedIn = getRequestAccount(req);
+    if (!signedIn) {
+      return res.status(401).json({ error: 'Sign in to see your points' });
+    }
+
+    const customer = await getAccountCustomer(signedIn);
+    if (!customer.phone_number || normalizePhone(customer.phone_number) !== normalizePhone(req.body?.phone)) {
+      return res.status(403).json({ error: 'Add this phone number to your account to see its points' });
+    }
+
+    const account = await loyaltyClient.findAccountByPhone(req.body?.phone);
+    res.json({ account: account ? toClientAccount(account) : null });
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error fetching loyalty account:', error);
+    res.status(500).json({ error: 'Unable to look up loyalty points' });
+  }
+});
+
+// Points the cart would earn once paid, after its discounts
+app.post('/api/square/loyalty/estimate', async (req, res) => {
+  try {
+    const { items, discountAmount } = req.body;
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      return res.json({ points: 0 });
+    }
+
+    const program = await loyaltyClient.getProgram();
+    if (!program) {
+      return res.json({ points: 0 });
+    }
+
+    const pricedItems = await priceCartFromCatalog(items);
+    const subtotalCents = pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+    const discountCents = Math.round(Math.max(0, Number(discountAmount) || 0) * 100);
+    const points = await loyaltyClient.calculatePoints(program.id, Math.max(0, subtotalCents - discountCents));
+    res.json({ points });
+  } catch (error) {
+    if (error instanceof CartPricingError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error estimating loyalty points:', error);
+    res.status(500).json({ error: 'Unable to estimate loyalty points' });
+  }
+});
+
+// Gift card balance by card number
+app.post('/api/square/gift-cards/balance', async (req, res) => {
+  try {
+    const giftCard = await giftCardClient.getByGan(req.body?.gan);
+    res.json({ giftCard: toClientGiftCard(giftCard) });
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error checking gift card balance:', error);
+    res.status(500).json({ error: 'Unable to check the gift card balance' });
+  }
+});
+
+// Digital gift card purchase: a payment link for a gift card line; the payment webhook issues and emails the card
+app.post('/api/square/gift-cards/checkout', async (req, res) => {
+  try {
+    const purchase = validateGiftCardPurchase(req.body || {});
+
+    let locationId = req.body.locationId;
+    if (!locationId || !/^[A-Za-z0-9_-]+$/.test(locationId)) {
+      const { locations = [] } = await makeSquareRequest('/locations');
+      locationId = locations[0]?.id;
+    }
+    if (!locationId) {
+      return res.status(400).json({ error: 'Unable to determine store location' });
+    }
+
+    const data = await makeSquareRequest('/online-checkout/payment-links', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: `gift-card-purchase-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        order: {
+          location_id: locationId,
+          line_items: [{
+            name: 'Digital gift card',
+            quantity: '1',
+            item_type: 'GIFT_CARD',
+            base_price_money: {
+              amount: purchase.amountCents,
+              currency: 'USD'
+            }
+          }],
+          metadata: {
+            gift_card_recipient_email: purchase.recipientEmail,
+            ...(purchase.recipientName && { gift_card_recipient_name: purchase.recipientName }),
+            ...(purchase.senderName && { gift_card_sender_name: purchase.senderName }),
+            ...(purchase.message && { gift_card_message: purchase.message })
+          }
+        },
+        checkout_options: {
+          ask_for_shipping_address: false,
+          merchant_support_email: 'support@fettermans.com',
+          redirect_url: `${req.headers.origin || 'http://localhost:3000'}/gift-cards?purchased=true`
+        }
+      })
+    });
+
+    res.json({
+      checkoutUrl: data.payment_link?.url,
+      orderId: data.payment_link?.order_id
+    });
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error creating gift card checkout:', error);
+    res.status(500).json({ error: 'Unable to start the gift card purchase' });
+  }
+});
+
+// Create the Square order for an in-page payment, built from catalog IDs like a Square Checkout order
+app.post('/api/square/orders', checkStoreOnline, async (req, res) => {
+  try {
+    const { idempotencyKey } = req.body;
+    const account = getRequestAccount(req);
+
+    // A repeat of the same checkout attempt gets the order it already created, without holding another slot
+    const data = await runOnce('order', idempotencyKey, async () => {
+      const { order, slot } = await buildCartOrder(req.body, account);
+
+      // Held until the payment webhook confirms it
+      const slotBookingId = reserveSlot(slot);
+      let created;
+      try {
+        created = await makeSquareRequest('/orders', {
+          method: 'POST',
+          skipCache: true,
+          body: JSON.stringify({
+            order,
+            ...(idempotencyKey && { idempotency_key: deriveSquareKey('order', idempotencyKey) })
+          })
+        });
+      } catch (orderError) {
+        releaseSlot(slotBookingId);
+        throw orderError;
+      }
+      attachSlotOrder(slotBookingId, created.order?.id);
+      return created;
     });
     res.json(data);
   } catch (error) {
+    if (error instanceof CartPricingError || error instanceof FulfillmentError || error instanceof LoyaltyError || error instanceof IdempotencyError) {
+      // A stale cart gets its changed prices back to review
+      return res.status(error.details.priceMismatches ? 409 : 400).json({ error: error.message, ...error.details });
+    }
     console.error('Error creating order:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Prices the cart the way POST /api/square/orders would build it, without creating the order or holding a slot.
+// Apple Pay and Google Pay show this total in their payment sheet, and the payment is refused if the order
+// created afterwards comes to anything else.
+app.post('/api/square/orders/calculate', checkStoreOnline, async (req, res) => {
+  try {
+    const { order, tipCents } = await buildCartOrder(req.body, getRequestAccount(req));
+    const data = await makeSquareRequest('/orders/calculate', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({ order })
+    });
+
+    res.json({
+      totalCents: data.order?.total_money?.amount || 0,
+      tipCents
+    });
+  } catch (error) {
+    if (error instanceof CartPricingError || error instanceof FulfillmentError || error instanceof LoyaltyError) {
+      return res.status(error.details.priceMismatches ? 409 : 400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error calculating order:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get a single Square order for order tracking
+app.get('/api/square/orders/:orderId', async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    // Order status changes constantly, so always go to Square
+    const data = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'GET',
+      skipCache: true
+    });
+
+    if (!data.order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    // The order link is all it takes to get here, so only what the tracking page shows goes back. The
+    // cancellation deadline lets it offer a cancel button while that's allowed.
+    res.json({ order: toTrackedOrder(data.order, getCustomerCancellation(data.order)) });
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// Curbside check-in - customer taps "I've arrived" on the tracking page
+app.post('/api/square/orders/:orderId/arrived', async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const { order } = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'GET',
+      skipCache: true
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    // Same check as cancelling: the order link alone doesn't let someone call the store out to the curb
+    const { phone, email } = req.body || {};
+    const account = getRequestAccount(req);
+    if (!isOrderCustomer(order, { customerId: account?.squareCustomerId, phone, email })) {
+      return res.status(403).json({ error: 'Sign in or enter the phone number and email used for this order to check in' });
+    }
+
+    // Square rejects the update if the order changed since we read it (version check)
+    const data = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'PUT',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: `arrived-${orderId}-${order.version}`,
+        order: {
+          location_id: order.location_id,
+          version: order.version,
+          fulfillments: [buildArrivalUpdate(order)]
+        }
+      })
+    });
+
+    res.json({ order: toTrackedOrder(data.order, getCustomerCancellation(data.order)) });
+  } catch (error) {
+    if (error instanceof FulfillmentError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error recording curbside arrival:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// Customer cancellation from the tracking page, allowed until the cutoff before pickup (config/cancellation.json)
+app.post('/api/square/orders/:orderId/cancel', async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const { order } = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'GET',
+      skipCache: true
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    // An order link alone isn't enough to cancel someone's order
+    const { phone, email } = req.body || {};
+    const account = getRequestAccount(req);
+    if (!isOrderCustomer(order, { customerId: account?.squareCustomerId, phone, email })) {
+      return res.status(403).json({ error: 'Sign in or enter the phone number and email used for this order to cancel it' });
+    }
+
+    const cancellation = getCustomerCancellation(order);
+    if (!cancellation.allowed) {
+      throw new CancellationError(cancellation.reason);
+    }
+
+    const { order: cancelled } = await cancelOrder(order, 'Cancelled by customer');
+    res.json({ order: toTrackedOrder(cancelled) });
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error cancelling order:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// Staff cancellation - any open order, with a full refund of what was paid
+app.post('/api/square/staff/orders/:orderId/cancel', requireStaff, [
+  body('reason').optional().isString().isLength({ max: 192 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { orderId } = req.params;
+    if (!/^[A-Za-z0-9_-]+$/.test(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const { order } = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'GET',
+      skipCache: true
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    if (order.state !== 'OPEN') {
+      throw new CancellationError('Only open orders can be cancelled');
+    }
+
+    res.json(await cancelOrder(order, req.body.reason || 'Cancelled by the store'));
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error cancelling order:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// Staff refund without cancelling - the whole order, or lineItems: [{ uid, quantity? }]
+app.post('/api/square/staff/orders/:orderId/refund', requireStaff, [
+  body('lineItems').optional().isArray({ min: 1 }),
+  body('lineItems.*.uid').optional().isString(),
+  body('lineItems.*.quantity').optional().isFloat({ gt: 0 }),
+  body('reason').optional().isString().isLength({ max: 192 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { orderId } = req.params;
+    if (!/^[A-Za-z0-9_-]+$/.test(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const { order } = await makeSquareRequest(`/orders/${orderId}`, {
+      method: 'GET',
+      skipCache: true
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const { lineItems, reason } = req.body;
+    const amountCents = lineItems ? getLineItemRefundCents(order, lineItems) : undefined;
+    const refunds = await refundOrder(order, amountCents, reason || 'Refund from the store');
+    if (refunds.length === 0) {
+      throw new CancellationError('There is nothing left to refund on this order');
+    }
+
+    res.json({
+      refunds,
+      amount: refunds.reduce((sum, refund) => sum + (refund.amount_money?.amount || 0), 0) / 100
+    });
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error refunding order:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
 // Process payment
 app.post('/api/square/payment', checkStoreOnline, [
-  body('token').notEmpty().withMessage('Payment token is required'),
-  body('amount').isNumeric().withMessage('Amount must be a number'),
-  body('orderId').optional().isString()
+  body('token').if(body('giftCardGan').not().exists()).notEmpty().withMessage('Payment token is required'),
+  body('amount').isInt({ min: 0 }).withMessage('Amount must be a whole number of cents'),
+  body('tipAmount').optional().isInt({ min: 0 }).withMessage('Tip must be a whole number of cents'),
+  body('orderId').notEmpty().withMessage('Payments need an order'),
+  body('giftCardGan').optional().isString(),
+  body('idempotencyKey').optional().custom(validateIdempotencyKey)
 ], async (req, res) => {
   try {
     // Check for validation errors
@@ -709,246 +2033,401 @@ app.post('/api/square/payment', checkStoreOnline, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { token, amount, orderId } = req.body;
-    
-    // Create payment request
-    const paymentData = {
-      source_id: token,
-      amount_money: {
-        amount: amount, // Amount in cents
-        currency: 'USD'
-      },
-      idempotency_key: `${orderId || 'payment'}-${Date.now()}`,
-      order_id: orderId
-    };
+    const { token, amount, orderId, giftCardGan, idempotencyKey } = req.body;
+    const attemptKey = idempotencyKey || `${orderId}-${Date.now()}`;
 
-    const data = await makeSquareRequest('/payments', {
-      method: 'POST',
-      body: JSON.stringify(paymentData)
+    // A repeat of the same checkout attempt gets the original payment back instead of charging again
+    const data = await runOnce('payment', idempotencyKey, async () => {
+      // The amount charged is the server-built order's; the client's amount is only the total the customer
+      // was shown, and a payment for a different total is refused rather than charged
+      const { order } = await makeSquareRequest(`/orders/${encodeURIComponent(orderId)}`, { method: 'GET', skipCache: true });
+      if (!order || order.state !== 'OPEN') {
+        throw new CartPricingError('This order can no longer be paid');
+      }
+      const amountCents = order.net_amount_due_money?.amount ?? order.total_money?.amount ?? 0;
+      if (Number(amount) !== amountCents) {
+        throw new CartPricingError(
+          `Your order total is now $${(amountCents / 100).toFixed(2)}. Please review your order and try again.`,
+          { orderTotal: amountCents / 100 }
+        );
+      }
+      const tipCents = validateTipCents(req.body.tipAmount, getTipBaseCents(order));
+
+      // A gift card pays first; the card token, if any, covers what the gift card doesn't
+      if (giftCardGan) {
+        return payWithGiftCard({ gan: giftCardGan, token, order, tipCents, attemptKey });
+      }
+
+      const paymentData = {
+        source_id: token,
+        amount_money: {
+          amount: amountCents,
+          currency: 'USD'
+        },
+        // Tip is on top of the order total, so Square records it against the payment
+        ...(tipCents > 0 && {
+          tip_money: {
+            amount: tipCents,
+            currency: 'USD'
+          }
+        }),
+        idempotency_key: deriveSquareKey('payment', attemptKey),
+        order_id: orderId
+      };
+
+      return makeSquareRequest('/payments', {
+        method: 'POST',
+        skipCache: true,
+        body: JSON.stringify(paymentData)
+      });
     });
     res.json(data);
   } catch (error) {
+    if (error instanceof CartPricingError || error instanceof GiftCardError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
     console.error('Error processing payment:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Create Square Checkout (redirect to Square hosted page)
-app.post('/api/square/create-checkout', checkStoreOnline, async (req, res) => {
-  try {
-    const { items, customerInfo, pickupLocation, appliedDiscounts, pickupDate, pickupTime } = req.body;
-    // Handle both customer and customerInfo for backward compatibility
-    const customer = customerInfo || req.body.customer;
-    
-    // Validate required pickup date and time
-    if (!pickupDate || !pickupTime) {
-      return res.status(400).json({ 
-        error: 'Pickup date and time are required. Please select a pickup time before proceeding.' 
-      });
-    }
-    
-    // Generate unique idempotency key
-    const idempotencyKey = `checkout-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Validate required fields
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ error: 'Items are required for checkout' });
+// Square webhook event handlers - each returns a summary that goes to the event log
+const webhookHandlers = {
+  'order.updated': async (event) => {
+    const orderUpdated = event.data?.object?.order_updated || {};
+
+    // A cancelled order (here or in the Square dashboard) frees its pickup slot and discount uses
+    if (orderUpdated.state === 'CANCELED' && orderUpdated.order_id) {
+      releaseOrderHolds(orderUpdated.order_id);
     }
 
-    // Build line items for the order
-    const lineItems = items.map((item, index) => {
-      // Handle CartItem structure: item has product object and total price
-      const itemName = item.product?.name || item.name || `Item ${index + 1}`;
-      const basePrice = item.product?.price || 0;
-      const quantity = item.quantity || 1;
-      
-      // Calculate modifiers/add-ons separately
-      const modifiers = [];
-      let addOnTotal = 0;
-      
-      if (item.selectedVariants && item.product?.variants) {
-        Object.entries(item.selectedVariants).forEach(([variantId, selectedValue]) => {
-          const variant = item.product.variants?.find(v => v.id === variantId);
-          if (variant) {
-            if (Array.isArray(selectedValue)) {
-              selectedValue.forEach(value => {
-                const option = variant.options.find(opt => opt.name === value);
-                if (option && option.price !== undefined && option.price > 0) {
-                  addOnTotal += option.price;
-                  modifiers.push({
-                    name: option.name,
-                    base_price_money: {
-                      amount: Math.round(option.price * 100),
-                      currency: 'USD'
-                    }
-                  });
-                }
-              });
-            } else {
-              const option = variant.options.find(opt => opt.name === selectedValue);
-              if (option && option.price !== undefined && option.price > 0) {
-                addOnTotal += option.price;
-                modifiers.push({
-                  name: option.name,
-                  base_price_money: {
-                    amount: Math.round(option.price * 100),
-                    currency: 'USD'
-                  }
-                });
-              }
-            }
-          }
-        });
+    return {
+      orderId: orderUpdated.order_id,
+      state: orderUpdated.state,
+      version: orderUpdated.version
+    };
+  },
+  'payment.updated': async (event) => {
+    const payment = event.data?.object?.payment || {};
+    const summary = {
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      status: payment.status,
+      amount: payment.amount_money?.amount
+    };
+
+    // A completed payment is what counts as a discount redemption and confirms the pickup slot
+    if (payment.status === 'COMPLETED' && payment.order_id) {
+      const data = await makeSquareRequest(`/orders/${payment.order_id}`, { skipCache: true });
+      const order = data.order || {};
+      // Catering deposits are paid on their own order; the slot belongs to the catering order
+      confirmSlotBooking(order.metadata?.catering_order_id || payment.order_id);
+      const discountIds = findRedeemedRuleIds(loadDiscountRules(), order.discounts);
+
+      if (discountIds.length > 0) {
+        const recorded = recordPaymentRedemptions({ order, payment, discountIds });
+        summary.redeemedDiscounts = recorded.map(redemption => redemption.discountId);
       }
-      
-      // Validate item data
-      if (basePrice <= 0) {
-        throw new Error(`Invalid base price for item: ${itemName}`);
+
+      // Digital gift cards bought online are issued once paid
+      if (order.metadata?.gift_card_recipient_email) {
+        summary.giftCardsIssued = await fulfillGiftCardOrder(order);
       }
-      
-      const lineItem = {
-        name: itemName,
-        quantity: quantity.toString(),
-        base_price_money: {
-          amount: Math.round(basePrice * 100), // Base price only
-          currency: 'USD'
+
+      if (order.metadata?.loyalty_phone) {
+        try {
+          summary.loyalty = await settleOrderLoyalty(order);
+        } catch (error) {
+          // Points can be adjusted in the Square Dashboard; a retry would re-record the redemptions above
+          console.error(`Error updating loyalty points for order ${payment.order_id}:`, error);
+          summary.loyaltyError = error.message;
         }
-      };
-      
-      // Add modifiers if any
-      if (modifiers.length > 0) {
-        lineItem.modifiers = modifiers;
-      }
-      
-      // Add special instructions as note (keeping only essential information)
-      if (item.specialInstructions) {
-        lineItem.note = item.specialInstructions;
       }
-      
-      // Add variation values only (without questions) for non-pricing options
-      if (item.selectedVariants && item.product?.variants) {
-        const variationValues = [];
-        Object.entries(item.selectedVariants).forEach(([variantId, selectedValue]) => {
-          const variant = item.product.variants?.find(v => v.id === variantId);
-          if (variant) {
-            if (Array.isArray(selectedValue)) {
-              selectedValue.forEach(value => {
-                const option = variant.options.find(opt => opt.name === value);
-                if (option && (option.price === undefined || option.price === 0)) {
-                  variationValues.push(option.name); // Only the answer, not the question
-                }
-              });
-            } else {
-              const option = variant.options.find(opt => opt.name === selectedValue);
-              if (option && (option.price === undefined || option.price === 0)) {
-                variationValues.push(option.name); // Only the answer, not the question
-              }
-            }
-          }
-        });
-        
-        if (variationValues.length > 0) {
-          const existingNote = lineItem.note || '';
-          lineItem.note = existingNote ? `${existingNote} | ${variationValues.join(', ')}` : variationValues.join(', ');
-        }
+    }
+
+    return summary;
+  },
+  'catalog.version.updated': async (event) => {
+    const invalidatedCacheEntries = invalidateCatalogCache();
+    return {
+      catalogUpdatedAt: event.data?.object?.catalog_version?.updated_at,
+      invalidatedCacheEntries
+    };
+  }
+};
+
+// Square webhook receiver
+app.post('/api/square/webhooks', async (req, res) => {
+  const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+  if (!signatureKey) {
+    console.error('Webhook received but SQUARE_WEBHOOK_SIGNATURE_KEY is not configured');
+    return res.status(503).json({ error: 'Webhooks are not configured' });
+  }
+
+  // Must match the notification URL registered in the Square Developer Dashboard exactly
+  const notificationUrl = process.env.SQUARE_WEBHOOK_URL || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+  const isValidSignature = verifySquareSignature({
+    rawBody: req.rawBody,
+    signature: req.get('x-square-hmacsha256-signature'),
+    notificationUrl,
+    signatureKey
+  });
+
+  if (!isValidSignature) {
+    return res.status(403).json({ error: 'Invalid webhook signature' });
+  }
+
+  const event = req.body;
+  if (!event || !event.event_id || !event.type) {
+    return res.status(400).json({ error: 'Malformed webhook event' });
+  }
+
+  // Square retries deliveries until it gets a 2xx, so acknowledge duplicates without reprocessing
+  if (hasProcessedEvent(event.event_id)) {
+    return res.json({ received: true, duplicate: true });
+  }
+
+  const handler = webhookHandlers[event.type];
+  if (!handler) {
+    recordEvent(event, { ignored: true });
+    return res.json({ received: true, ignored: true });
+  }
+
+  try {
+    const result = await handler(event);
+    recordEvent(event, result);
+    res.json({ received: true });
+  } catch (error) {
+    // Non-2xx tells Square to retry the delivery later
+    console.error(`Error handling webhook ${event.type}:`, error);
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+/**
+ * Builds the Square order for a storefront cart from catalog IDs, shared by Square Checkout and in-page payments
+ * Prices, discounts, loyalty rewards and delivery fees all come from the server; the client's prices are only used
+ * to detect a stale cart. Closures, lead times and ASAP quotes are enforced here too. The tip (in cents) is
+ * checked and returned for the caller to add - a service charge for Square Checkout, tip money on
+ * in-page payments.
+ */
+async function buildCartOrder(checkout, account) {
+  const {
+    items,
+    customerInfo,
+    pickupLocation,
+    appliedDiscounts,
+    pickupDate,
+    pickupTime,
+    tipAmount,
+    curbsideDetails,
+    orderType,
+    deliveryAddress,
+    asapQuoteId,
+    loyalty
+  } = checkout;
+  // Handle both customer and customerInfo for backward compatibility
+  const customer = customerInfo || checkout.customer;
+  const isDelivery = orderType === 'delivery';
+
+  if (asapQuoteId && isDelivery) {
+    throw new FulfillmentError('ASAP is only available for pickup orders');
+  }
+
+  // Validate required pickup (or delivery) date and time; ASAP orders carry a quote instead
+  if (!asapQuoteId && (!pickupDate || !pickupTime)) {
+    const label = isDelivery ? 'Delivery' : 'Pickup';
+    throw new FulfillmentError(
+      `${label} date and time are required. Please select a ${label.toLowerCase()} time before proceeding.`
+    );
+  }
+
+  // Validate required fields
+  if (!items || !Array.isArray(items) || items.length === 0) {
+    throw new CartPricingError('Items are required for checkout');
+  }
+
+  const curbsidePickupDetails = curbsideDetails && !isDelivery ? buildCurbsidePickupDetails(curbsideDetails) : null;
+
+  // Rebuild line items from the Square catalog - client prices are only used to detect stale carts
+  const pricedItems = await priceCartFromCatalog(items);
+  const priceMismatches = findPriceMismatches(pricedItems);
+  if (priceMismatches.length > 0) {
+    throw new CartPricingError(
+      'Some prices in your cart have changed. Please review your cart and try again.',
+      { priceMismatches }
+    );
+  }
+
+  // Ensure we have a valid location ID
+  let locationId = pickupLocation?.id;
+  if (!locationId) {
+    // Fetch the main location from Square API instead of using hardcoded value
+    try {
+      const locationsResponse = await makeSquareRequest('/locations');
+      if (locationsResponse.locations && locationsResponse.locations.length > 0) {
+        locationId = locationsResponse.locations[0].id;
+      } else {
+        throw new Error('No locations found in Square account');
       }
-      
-      return lineItem;
-    });
+    } catch (locationError) {
+      console.error('Failed to fetch location from Square API:', locationError);
+      throw new FulfillmentError('Unable to determine store location. Please select a pickup location.');
+    }
+  }
 
-    console.log('Creating checkout with line items:', JSON.stringify(lineItems, null, 2));
-    
-    // Add discounts to the order if present
-    const orderDiscounts = [];
-    if (appliedDiscounts && appliedDiscounts.length > 0) {
-      appliedDiscounts.forEach(discount => {
-        orderDiscounts.push({
-          name: discount.name,
-          percentage: discount.type === 'percentage' ? discount.value.toString() : undefined,
-          amount_money: discount.type === 'fixed_amount' ? {
-            amount: Math.round(discount.appliedAmount * 100), // Convert to cents
-            currency: 'USD'
-          } : undefined,
-          scope: 'ORDER'
-        });
-      });
+  // Discount day and time restrictions, like pickup times, are on the store's clock
+  const timeZone = await getLocationTimezone(locationId);
+
+  // Re-validate every discount server-side and attach it by catalog reference where possible
+  // Entered codes are re-validated, automatic discounts recomputed, and stacking rules decide the final set
+  const { results: codeResults, invalid } = await evaluateAppliedCodes(appliedDiscounts, pricedItems, {
+    strict: true,
+    customer,
+    timeZone
+  });
+  if (invalid) {
+    throw new CartPricingError(
+      `Discount "${invalid.discount.name || invalid.discount.code}" can no longer be applied: ${invalid.error}`
+    );
+  }
+
+  const { applied: discountResults, rejected } = await resolveCartDiscounts(codeResults, pricedItems, { customer, timeZone });
+  if (rejected.length > 0) {
+    throw new CartPricingError(rejected[0].reason);
+  }
+
+  const validatedDiscounts = discountResults.map(result => ({
+    orderDiscount: buildOrderDiscount(result.rule, result.squareDiscount, result.appliedAmountCents),
+    eligibleItems: result.eligibleItems
+  }));
+
+  const orderDiscounts = validatedDiscounts.map(({ orderDiscount }) => orderDiscount);
+
+  // A loyalty reward comes off whatever the other discounts leave
+  const subtotalCents = pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+  const codeDiscountCents = discountResults.reduce((sum, result) => sum + result.appliedAmountCents, 0);
+  const loyaltyPhone = loyalty?.phone ? toLoyaltyPhone(loyalty.phone) : null;
+  const loyaltyReward = await resolveLoyaltyReward(loyalty, account, subtotalCents - codeDiscountCents);
+  if (loyaltyReward) {
+    orderDiscounts.push(loyaltyReward.orderDiscount);
+  }
+  const discountCents = codeDiscountCents + (loyaltyReward?.amountCents || 0);
+
+  // Tip (sent in cents) is checked against the discounted subtotal, the same base getTipBaseCents gives /payment
+  const tipCents = validateTipCents(tipAmount, subtotalCents - discountCents);
+  const serviceCharges = [];
+  const lineItems = applyLineItemDiscounts(
+    pricedItems.map(priced => ({ ...priced.lineItem })),
+    pricedItems,
+    validatedDiscounts
+  );
+
+  let scheduledAt;
+  let slotDate = pickupDate;
+  let slotTime = pickupTime;
+  if (asapQuoteId) {
+    // ASAP: the ready time the customer was quoted is locked in, even if the queue has grown since
+    const quote = getAsapQuote(asapQuoteId, locationId, getCartSignature(pricedItems));
+    const cartLeadTime = getCartLeadTime(pricedItems);
+    if (cartLeadTime.itemName) {
+      throw new FulfillmentError(`${cartLeadTime.itemName} needs advance notice, so this order can't be made ASAP. Please choose a pickup time.`);
     }
-    
-    // Ensure we have a valid location ID
-    let locationId = pickupLocation?.id;
-    if (!locationId) {
-      // Fetch the main location from Square API instead of using hardcoded value
-      try {
-        const locationsResponse = await makeSquareRequest('/locations');
-        if (locationsResponse.locations && locationsResponse.locations.length > 0) {
-          locationId = locationsResponse.locations[0].id;
-          // Using main location ID from Square API
-        } else {
-          throw new Error('No locations found in Square account');
-        }
-      } catch (locationError) {
-        console.error('Failed to fetch location from Square API:', locationError);
-        return res.status(400).json({ 
-          error: 'Unable to determine store location. Please select a pickup location.' 
-        });
+    scheduledAt = quote.readyAt;
+    slotDate = quote.date;
+    slotTime = quote.time;
+  } else {
+    // Timestamp for the fulfillment in the location's time zone, far enough out for everything in the cart
+    scheduledAt = toScheduledTimestamp(pickupDate, pickupTime, timeZone);
+    assertLeadTime(scheduledAt, getCartLeadTime(pricedItems));
+  }
+
+  // Holiday closures and special hours override the weekly schedule
+  assertOpenForFulfillment({ locationId, date: slotDate, time: slotTime });
+
+  // Delivery: check the address and minimum, then charge the location's delivery fee
+  if (isDelivery) {
+    const deliveryCharge = await buildDeliveryServiceCharge(locationId, deliveryAddress, subtotalCents - discountCents);
+    if (deliveryCharge) {
+      serviceCharges.push(deliveryCharge);
+    }
+  }
+
+  const fulfillment = buildOrderFulfillment({
+    isDelivery,
+    customer,
+    scheduledAt,
+    deliveryAddress,
+    curbsidePickupDetails,
+    note: asapQuoteId ? 'ASAP order placed via online checkout' : 'Order placed via online checkout'
+  });
+
+  // Lets the payment webhook attribute discount redemptions and loyalty points to this customer
+  const orderMetadata = {
+    ...(customer?.email && { customer_email: String(customer.email).slice(0, 255) }),
+    ...(customer?.phone && { customer_phone: String(customer.phone).slice(0, 255) }),
+    ...(loyaltyPhone && { loyalty_phone: loyaltyPhone }),
+    ...(loyaltyReward && { loyalty_reward_tier_id: loyaltyReward.tier.id })
+  };
+
+  return {
+    order: {
+      location_id: locationId,
+      ...(account?.squareCustomerId && { customer_id: account.squareCustomerId }),
+      line_items: lineItems,
+      ...(orderDiscounts.length > 0 && { discounts: orderDiscounts }),
+      ...(serviceCharges.length > 0 && { service_charges: serviceCharges }),
+      ...(Object.keys(orderMetadata).length > 0 && { metadata: orderMetadata }),
+      fulfillments: [fulfillment],
+      pricing_options: {
+        auto_apply_taxes: true
+      }
+    },
+    slot: { locationId, date: slotDate, time: slotTime },
+    tipCents,
+    customer
+  };
+}
+
+// Create Square Checkout (redirect to Square hosted page)
+app.post('/api/square/create-checkout', checkStoreOnline, async (req, res) => {
+  try {
+    const { idempotencyKey: attemptKey } = req.body;
+    const account = getRequestAccount(req);
+
+    // A repeat of a checkout attempt that already has its link gets the same link, without holding another slot
+    if (attemptKey) {
+      const existing = findResult('checkout', attemptKey);
+      if (existing) {
+        return res.json(existing);
       }
     }
 
+    // Keyed to the storefront's checkout attempt when it sends one
+    const idempotencyKey = attemptKey
+      ? deriveSquareKey('checkout', attemptKey)
+      : `checkout-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const { order, slot, tipCents, customer } = await buildCartOrder(req.body, account);
+
+    // Square Checkout has no tip of its own, so the tip goes on the order as a service charge
+    if (tipCents > 0) {
+      order.service_charges = [...(order.service_charges || []), {
+        name: 'Tip',
+        amount_money: {
+          amount: tipCents,
+          currency: 'USD'
+        },
+        calculation_phase: 'TOTAL_PHASE',
+        taxable: false
+      }];
+    }
+
     // Create checkout with order data directly (order-based checkout)
     const checkoutData = {
       idempotency_key: idempotencyKey,
-      order: {
-        location_id: locationId,
-        line_items: lineItems,
-        ...(orderDiscounts.length > 0 && { discounts: orderDiscounts }),
-        fulfillments: [{
-          type: 'PICKUP',
-          state: 'PROPOSED',
-          pickup_details: {
-            recipient: {
-              display_name: customer?.name || 'Customer'
-            },
-            pickup_at: (() => {
-              // Frontend sends date as YYYY-MM-DD and time as HH:MM
-              // We treat this as Central Time since that's where the store is located
-              
-              try {
-                // Create a date object for the specific pickup date to determine timezone offset
-                // Use noon on the pickup date to avoid any edge cases with time
-                const testDate = new Date(`${pickupDate}T12:00:00`);
-                
-                // Use Intl.DateTimeFormat to get the timezone offset for Central Time on this specific date
-                const formatter = new Intl.DateTimeFormat('en', {
-                  timeZone: 'America/Chicago',
-                  timeZoneName: 'longOffset'
-                });
-                
-                const parts = formatter.formatToParts(testDate);
-                const timeZonePart = parts.find(part => part.type === 'timeZoneName');
-                let timezoneOffset = '-06:00'; // Default to CST
-                
-                if (timeZonePart && timeZonePart.value) {
-                  // Parse the offset (e.g., "GMT-6" or "GMT-5")
-                  const offsetMatch = timeZonePart.value.match(/GMT([+-]\d+)/);
-                  if (offsetMatch) {
-                    const offset = parseInt(offsetMatch[1]);
-                    timezoneOffset = offset === -5 ? '-05:00' : '-06:00';
-                  }
-                }
-                
-                // Pickup time calculated with timezone offset
-                return `${pickupDate}T${pickupTime}:00${timezoneOffset}`;
-                
-              } catch (error) {
-                console.error('Error determining timezone:', error);
-                // Fallback to CST
-                return `${pickupDate}T${pickupTime}:00-06:00`;
-              }
-            })(),
-            note: 'Order placed via online checkout'
-          }
-        }]
-      },
+      order,
       checkout_options: {
         ask_for_shipping_address: false,
         merchant_support_email: customer?.email || 'support@fettermans.com',
@@ -958,32 +2437,293 @@ app.post('/api/square/create-checkout', checkStoreOnline, async (req, res) => {
         ...(customer?.email && { buyer_email: customer.email })
       }
     };
-    
 
-    
-    const data = await makeSquareRequest('/online-checkout/payment-links', {
-      method: 'POST',
-      body: JSON.stringify(checkoutData)
+    // Hold the slot before creating the link; it is confirmed when the payment webhook arrives
+    // A double-click waits for the first request's link rather than holding a second slot
+    const checkout = await runOnce('checkout', attemptKey, async () => {
+      const slotBookingId = reserveSlot(slot);
+      let data;
+      try {
+        data = await makeSquareRequest('/online-checkout/payment-links', {
+          method: 'POST',
+          skipCache: true,
+          body: JSON.stringify(checkoutData)
+        });
+      } catch (linkError) {
+        releaseSlot(slotBookingId);
+        throw linkError;
+      }
+      attachSlotOrder(slotBookingId, data.payment_link?.order_id);
+
+      return {
+        checkoutUrl: data.payment_link?.url,
+        orderId: data.payment_link?.order_id,
+        paymentLinkId: data.payment_link?.id
+      };
     });
-    
 
-    
     // Return the checkout URL
-    res.json({
-      checkoutUrl: data.payment_link?.url,
-      orderId: data.payment_link?.order_id
-    });
+    res.json(checkout);
   } catch (error) {
+    if (error instanceof CartPricingError || error instanceof FulfillmentError || error instanceof LoyaltyError || error instanceof IdempotencyError) {
+      // A stale cart gets its changed prices back to review
+      return res.status(error.details.priceMismatches ? 409 : 400).json({ error: error.message, ...error.details });
+    }
     console.error('Error creating checkout:', error);
     console.error('Error details:', error.response?.data || error.message);
     res.status(500).json({ error: error.message });
   }
 });
 
+// A hosted checkout's order waits for payment until it is paid or cancelled
+function getHostedCheckoutStatus(order) {
+  if (order.state === 'CANCELED') return 'cancelled';
+  if (order.state === 'COMPLETED' || getOrderPaymentIds(order).length > 0) return 'paid';
+  return 'pending';
+}
+
+// The hosted checkout started by a checkout attempt, and its order's payment status
+// Lets a customer who backed out of Square's checkout page resume payment with the same link.
+async function findHostedCheckout(attemptKey) {
+  const checkout = findResult('checkout', attemptKey);
+  if (!checkout?.orderId) {
+    return null;
+  }
+
+  const { order } = await makeSquareRequest(`/orders/${checkout.orderId}`, {
+    method: 'GET',
+    skipCache: true
+  });
+  return order ? { checkout, order, status: getHostedCheckoutStatus(order) } : null;
+}
+
+app.get('/api/square/checkout/:attemptKey', async (req, res) => {
+  try {
+    const hosted = await findHostedCheckout(req.params.attemptKey);
+    if (!hosted) {
+      return res.status(404).json({ error: 'Checkout not found' });
+    }
+
+    res.json({
+      checkoutUrl: hosted.checkout.checkoutUrl,
+      orderId: hosted.checkout.orderId,
+      status: hosted.status
+    });
+  } catch (error) {
+    if (error instanceof IdempotencyError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error looking up checkout:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// Voids an abandoned hosted checkout once the customer changes their order instead of paying. Deleting the
+// payment link cancels its order, so the stale link can't be paid and its pickup slot is freed.
+app.post('/api/square/checkout/:attemptKey/void', async (req, res) => {
+  try {
+    const { attemptKey } = req.params;
+    const hosted = await findHostedCheckout(attemptKey);
+    if (!hosted) {
+      return res.status(404).json({ error: 'Checkout not found' });
+    }
+    if (hosted.status === 'paid') {
+      return res.status(409).json({ error: 'This checkout has already been paid' });
+    }
+
+    if (hosted.status === 'pending') {
+      if (hosted.checkout.paymentLinkId) {
+        await makeSquareRequest(`/online-checkout/payment-links/${hosted.checkout.paymentLinkId}`, {
+          method: 'DELETE',
+          skipCache: true
+        });
+      } else {
+        await cancellationClient.cancelUnpaidOrder(hosted.order);
+      }
+      releaseOrderHolds(hosted.order.id);
+    }
+
+    // A resubmit of the same attempt gets a new link rather than the voided one
+    forgetResult('checkout', attemptKey);
+    res.json({ voided: true });
+  } catch (error) {
+    if (error instanceof IdempotencyError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error voiding checkout:', error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
 
 
 
 
+
+// Catering pre-order: creates the full order in Square, then a payment link for the deposit
+// The balance is collected at pickup or delivery against the catering order.
+app.post('/api/square/catering/checkout', checkStoreOnline, async (req, res) => {
+  try {
+    const {
+      items,
+      customerInfo,
+      pickupLocation,
+      pickupDate,
+      pickupTime,
+      headCount,
+      orderType,
+      deliveryAddress,
+      notes
+    } = req.body;
+    const settings = loadCateringSettings();
+    const account = getRequestAccount(req);
+
+    if (!settings.enabled) {
+      return res.status(400).json({ error: 'Catering orders are not available right now' });
+    }
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'Items are required for checkout' });
+    }
+    if (!customerInfo?.name || !(customerInfo.email || customerInfo.phone)) {
+      return res.status(400).json({ error: 'Name and an email or phone number are required for catering orders' });
+    }
+    if (!pickupLocation?.id) {
+      return res.status(400).json({ error: 'Please select a store location' });
+    }
+
+    const locationId = pickupLocation.id;
+    const isDelivery = orderType === 'delivery';
+    const guests = validateHeadCount(headCount, settings);
+
+    const pricedItems = await priceCartFromCatalog(items);
+    const priceMismatches = findPriceMismatches(pricedItems);
+    if (priceMismatches.length > 0) {
+      return res.status(409).json({
+        error: 'Some prices in your cart have changed. Please review your cart and try again.',
+        priceMismatches
+      });
+    }
+
+    // Catering has its own minimum notice on top of any item lead times
+    const scheduledAt = toScheduledTimestamp(pickupDate, pickupTime, await getLocationTimezone(locationId));
+    const cartLeadTime = getCartLeadTime(pricedItems);
+    assertLeadTime(
+      scheduledAt,
+      cartLeadTime.minutes >= settings.leadTimeMinutes
+        ? cartLeadTime
+        : { minutes: settings.leadTimeMinutes, itemName: 'Catering' }
+    );
+    assertOpenForFulfillment({ locationId, date: pickupDate, time: pickupTime });
+
+    const subtotalCents = pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+    const serviceCharges = [];
+    if (isDelivery) {
+      const deliveryCharge = await buildDeliveryServiceCharge(locationId, deliveryAddress, subtotalCents);
+      if (deliveryCharge) {
+        serviceCharges.push(deliveryCharge);
+      }
+    }
+
+    const cateringNote = [
+      `Catering for ${guests} guests`,
+      notes && String(notes).trim().slice(0, 400)
+    ].filter(Boolean).join(' - ');
+
+    const slotBookingId = reserveSlot({ locationId, date: pickupDate, time: pickupTime });
+    let order;
+    try {
+      ({ order } = await makeSquareRequest('/orders', {
+        method: 'POST',
+        skipCache: true,
+        body: JSON.stringify({
+          idempotency_key: `catering-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          order: {
+            location_id: locationId,
+            ...(account?.squareCustomerId && { customer_id: account.squareCustomerId }),
+            line_items: pricedItems.map(priced => ({ ...priced.lineItem })),
+            ...(serviceCharges.length > 0 && { service_charges: serviceCharges }),
+            pricing_options: {
+              auto_apply_taxes: true
+            },
+            metadata: {
+              catering: 'true',
+              head_count: String(guests),
+              deposit_percent: String(settings.depositPercent),
+              ...(customerInfo.email && { customer_email: String(customerInfo.email).slice(0, 255) }),
+              ...(customerInfo.phone && { customer_phone: String(customerInfo.phone).slice(0, 255) })
+            },
+            fulfillments: [buildOrderFulfillment({
+              isDelivery,
+              customer: customerInfo,
+              scheduledAt,
+              deliveryAddress,
+              note: cateringNote
+            })]
+          }
+        })
+      }));
+    } catch (orderError) {
+      releaseSlot(slotBookingId);
+      throw orderError;
+    }
+    attachSlotOrder(slotBookingId, order.id);
+
+    const orderTotalCents = order.total_money?.amount || 0;
+    const depositCents = calculateDepositCents(orderTotalCents, settings);
+    if (depositCents === 0) {
+      // Nothing to pay up front, so the order keeps its slot now
+      confirmSlotBooking(order.id);
+      return res.json({ orderId: order.id, depositAmount: 0, orderTotal: orderTotalCents / 100 });
+    }
+
+    const data = await makeSquareRequest('/online-checkout/payment-links', {
+      method: 'POST',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: `catering-deposit-${order.id}`,
+        order: {
+          location_id: locationId,
+          line_items: [{
+            name: `Catering deposit (${settings.depositPercent}%)`,
+            quantity: '1',
+            base_price_money: {
+              amount: depositCents,
+              currency: 'USD'
+            },
+            note: `Order ${order.id} - ${cateringNote}`.slice(0, 500)
+          }],
+          metadata: {
+            catering_order_id: order.id
+          }
+        },
+        checkout_options: {
+          ask_for_shipping_address: false,
+          merchant_support_email: customerInfo.email || 'support@fettermans.com',
+          // Square appends its own orderId (the deposit's), so the catering order travels separately
+          redirect_url: `${req.headers.origin || 'http://localhost:3000'}/checkout/success?cateringOrderId=${order.id}`
+        },
+        pre_populated_data: {
+          ...(customerInfo.email && { buyer_email: customerInfo.email })
+        }
+      })
+    });
+
+    res.json({
+      checkoutUrl: data.payment_link?.url,
+      orderId: order.id,
+      depositAmount: depositCents / 100,
+      orderTotal: orderTotalCents / 100
+    });
+  } catch (error) {
+    if (error instanceof CartPricingError || error instanceof FulfillmentError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error('Error creating catering checkout:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
@@ -1008,5 +2748,8 @@ app.use((error, req, res, next) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT} in ${NODE_ENV} mode`);
+  if (NODE_ENV === 'production' && !isMailConfigured()) {
+    console.error('Email is not set up (MAIL_API_KEY, MAIL_FROM): sign-in codes and gift cards cannot be sent');
+  }
 
 });
\ No newline at end of file
@@ -0,0 +1,178 @@
+// Customer accounts - passwordless sign-in with a one-time code sent by email
+// Codes are held in memory for CODE_TTL_MINUTES and allow MAX_CODE_ATTEMPTS guesses. Accounts (email plus
+// the linked Square customer and saved favorites) and sign-in sessions are kept in a JSON file; codes and session tokens are
+// stored only as SHA-256 hashes, so the file can't be used to sign in.
+const crypto = require('crypto');
+const { ServiceError, createJsonStore } = require('./common');
+
+const store = createJsonStore('accounts.json', 'accounts');
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_RESEND_SECONDS = 30;
+const SESSION_TTL_DAYS = 30;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class AccountError extends ServiceError {}
+
+let accounts = [];
+let sessions = [];
+
+// Pending sign-in codes keyed by email
+const pendingCodes = new Map();
+
+const hash = (value) => crypto.createHash('sha256').update(String(value)).digest('hex');
+
+const loadAccounts = () => {
+  const data = store.load();
+  accounts = Array.isArray(data.accounts) ? data.accounts : [];
+  sessions = Array.isArray(data.sessions) ? data.sessions : [];
+};
+
+// Expired sessions are dropped whenever the file is written
+const saveAccounts = () => {
+  const now = Date.now();
+  sessions = sessions.filter(session => Date.parse(session.expiresAt) > now);
+  store.save({ accounts, sessions });
+};
+
+const normalizeEmail = (email) => {
+  const normalized = String(email || '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalized) || normalized.length > 255) {
+    throw new AccountError('Please enter a valid email address');
+  }
+  return normalized;
+};
+
+/**
+ * Start a sign-in: create a 6-digit code for the email, replacing any earlier one
+ * @returns {{ email: string, code: string, expiresInMinutes: number }} the code is for the mailer only
+ */
+const issueSignInCode = (email, now = Date.now()) => {
+  const normalized = normalizeEmail(email);
+
+  const existing = pendingCodes.get(normalized);
+  if (existing && now - existing.issuedAt < CODE_RESEND_SECONDS * 1000) {
+    throw new AccountError('A code was just sent. Please wait a moment before requesting another.', { retryAfterSeconds: CODE_RESEND_SECONDS });
+  }
+
+  const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+  pendingCodes.set(normalized, {
+    codeHash: hash(code),
+    issuedAt: now,
+    expiresAt: now + CODE_TTL_MINUTES * 60 * 1000,
+    attempts: 0
+  });
+
+  return { email: normalized, code, expiresInMinutes: CODE_TTL_MINUTES };
+};
+
+/**
+ * Finish a sign-in: check the code and return the email's account, creating it on first sign-in
+ * Codes are single use; too many wrong guesses discard the code.
+ */
+const verifySignInCode = (email, code, now = Date.now()) => {
+  const normalized = normalizeEmail(email);
+  const pending = pendingCodes.get(normalized);
+
+  if (!pending || pending.expiresAt <= now) {
+    pendingCodes.delete(normalized);
+    throw new AccountError('That code has expired. Please request a new one.', { codeExpired: true });
+  }
+
+  const expected = Buffer.from(pending.codeHash, 'hex');
+  const received = Buffer.from(hash(String(code || '').trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, received)) {
+    pending.attempts += 1;
+    if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+      pendingCodes.delete(normalized);
+      throw new AccountError('Too many incorrect codes. Please request a new one.', { codeExpired: true });
+    }
+    throw new AccountError('That code is incorrect');
+  }
+
+  pendingCodes.delete(normalized);
+
+  let account = accounts.find(entry => entry.email === normalized);
+  if (!account) {
+    account = {
+      id: `acct-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      email: normalized,
+      squareCustomerId: null,
+      createdAt: new Date(now).toISOString()
+    };
+    accounts.push(account);
+    saveAccounts();
+  }
+
+  return account;
+};
+
+// New session for an account; only the token's hash is stored
+const createSession = (accountId, now = Date.now()) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  sessions.push({
+    tokenHash: hash(token),
+    accountId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  });
+  saveAccounts();
+  return token;
+};
+
+// Account for a session token, or null if the token is unknown or expired
+const getSessionAccount = (token, now = Date.now()) => {
+  if (!token) return null;
+  const tokenHash = hash(token);
+  const session = sessions.find(entry => entry.tokenHash === tokenHash);
+  if (!session || Date.parse(session.expiresAt) <= now) return null;
+  return accounts.find(account => account.id === session.accountId) || null;
+};
+
+const endSession = (token) => {
+  if (!token) return;
+  const tokenHash = hash(token);
+  const remaining = sessions.filter(session => session.tokenHash !== tokenHash);
+  if (remaining.length !== sessions.length) {
+    sessions = remaining;
+    saveAccounts();
+  }
+};
+
+// Remember which Square customer holds the account's profile and purchase history
+const linkSquareCustomer = (accountId, squareCustomerId) => {
+  const account = accounts.find(entry => entry.id === accountId);
+  if (!account) return null;
+  account.squareCustomerId = squareCustomerId;
+  saveAccounts();
+  return account;
+};
+
+// Saved favorites (already validated by services/favorites.js) replace the account's list
+const getAccountFavorites = (accountId) =>
+  accounts.find(entry => entry.id === accountId)?.favorites || [];
+
+const setAccountFavorites = (accountId, favorites) => {
+  const account = accounts.find(entry => entry.id === accountId);
+  if (!account) return [];
+  account.favorites = favorites;
+  saveAccounts();
+  return account.favorites;
+};
+
+loadAccounts();
+
+module.exports = {
+  AccountError,
+  normalizeEmail,
+  issueSignInCode,
+  verifySignInCode,
+  createSession,
+  getSessionAccount,
+  endSession,
+  linkSquareCustomer,
+  getAccountFavorites,
+  setAccountFavorites
+};
@@ -0,0 +1,231 @@
+// ASAP pickup - ready-time quotes from prep time plus the kitchen's current queue
+// Settings live in config/asap.json: default prep minutes plus per-category/item prep times (same
+// shape as lead-times.json), a processing buffer and minutes added per queued order. A quote is
+// held in memory for quoteValidMinutes, and checkout uses its ready time as-is, so the promise the
+// customer saw is the one sent to the kitchen even if the queue grows in the meantime. The quote is tied to
+// the cart it was made for, so a bigger order can't check out on a smaller one's ready time.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+const { getZonedDateParts, timeToMinutes } = require('./time');
+
+const ASAP_SETTINGS_PATH = process.env.ASAP_SETTINGS_PATH || path.join(__dirname, '..', 'config', 'asap.json');
+
+const SQUARE_WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Ready times are quoted in 5-minute steps; slots are 15 minutes like the time picker
+const READY_TIME_STEP_MINUTES = 5;
+const SLOT_MINUTES = 15;
+
+const quotes = new Map();
+
+const loadAsapSettings = () => {
+  const data = readConfigFile(ASAP_SETTINGS_PATH, 'ASAP settings');
+  const minutes = (value, fallback) => Math.max(0, Number(value ?? fallback) || 0);
+  return {
+    enabled: Boolean(data.enabled),
+    defaultPrepMinutes: minutes(data.defaultPrepMinutes, 5),
+    processingBufferMinutes: minutes(data.processingBufferMinutes, 12),
+    minutesPerQueuedOrder: minutes(data.minutesPerQueuedOrder, 3),
+    queueWindowMinutes: minutes(data.queueWindowMinutes, 60),
+    maxReadyMinutes: minutes(data.maxReadyMinutes, 90),
+    quoteValidMinutes: Math.max(1, minutes(data.quoteValidMinutes, 10)),
+    categories: data.categories || {},
+    products: data.products || {}
+  };
+};
+
+// Square orders search for open pickup orders the kitchen hasn't finished
+const buildQueueSearch = (locationId) => ({
+  location_ids: [locationId],
+  limit: 100,
+  query: {
+    filter: {
+      state_filter: { states: ['OPEN'] },
+      fulfillment_filter: {
+        fulfillment_types: ['PICKUP', 'DELIVERY'],
+        fulfillment_states: ['PROPOSED', 'RESERVED']
+      }
+    }
+  }
+});
+
+// Queue depth: open orders due within the queue window (later pre-orders aren't being made yet)
+const countQueuedOrders = (orders, settings, now = new Date()) => {
+  const windowEnd = now.getTime() + settings.queueWindowMinutes * 60000;
+  return (orders || []).filter(order => {
+    const fulfillment = order.fulfillments?.[0];
+    const dueAt = Date.parse(fulfillment?.pickup_details?.pickup_at || fulfillment?.delivery_details?.deliver_at || '');
+    return Number.isNaN(dueAt) || dueAt <= windowEnd;
+  }).length;
+};
+
+/**
+ * Longest prep time among catalog-priced cart lines
+ * @returns {{ minutes: number, itemName?: string }}
+ */
+const getCartPrepTime = (pricedItems, settings) => {
+  let longest = { minutes: settings.defaultPrepMinutes };
+
+  pricedItems.forEach(priced => {
+    const minutes = Math.max(
+      ...[
+        settings.products[priced.squareItemId],
+        ...priced.categoryIds.map(categoryId => settings.categories[categoryId])
+      ].map(entry => Number(entry?.minutes) || 0)
+    );
+    if (minutes > longest.minutes) {
+      longest = { minutes, itemName: priced.itemName };
+    }
+  });
+
+  return longest;
+};
+
+/**
+ * Closing time (minutes since midnight) of the opening the store is in right now, or null if closed
+ * Special hours for today win over Square's weekly business hours; no hours at all means no limit.
+ */
+const getClosingMinutes = ({ businessHours, special, dayOfWeek, minutes }) => {
+  if (special) {
+    if (special.closed) return null;
+    const open = timeToMinutes(special.open);
+    const close = timeToMinutes(special.close);
+    return minutes >= open && minutes < close ? close : null;
+  }
+
+  const periods = businessHours?.periods;
+  if (!periods || periods.length === 0) return 24 * 60;
+
+  const period = periods.find(candidate =>
+    candidate.day_of_week === SQUARE_WEEKDAYS[dayOfWeek] &&
+    minutes >= timeToMinutes(candidate.start_local_time) &&
+    minutes < timeToMinutes(candidate.end_local_time)
+  );
+  return period ? timeToMinutes(period.end_local_time) : null;
+};
+
+// What was ordered, independent of line order: variation, modifiers and quantity of each catalog-priced line
+const getCartSignature = (pricedItems) => pricedItems
+  .map(({ lineItem }) => [
+    lineItem.catalog_object_id,
+    (lineItem.modifiers || []).map(modifier => modifier.catalog_object_id).sort().join('+'),
+    lineItem.quantity
+  ].join(':'))
+  .sort()
+  .join(',');
+
+const pad = (value) => String(value).padStart(2, '0');
+const minutesToTime = (minutes) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const removeExpiredQuotes = (now) => {
+  quotes.forEach((quote, quoteId) => {
+    if (Date.parse(quote.expiresAt) <= now.getTime()) {
+      quotes.delete(quoteId);
+    }
+  });
+};
+
+/**
+ * Quote a ready time for an ASAP pickup and hold it for checkout
+ * Throws FulfillmentError (asapUnavailable) when ASAP is off, the cart needs advance notice,
+ * the store is closed, the kitchen is too busy, or the order wouldn't be ready before closing.
+ * @param {{ locationId: string, timeZone: string, settings: object, cartSignature: string,
+ *   cartLeadTime: { minutes: number, itemName?: string }, prepTime: { minutes: number }, queueDepth: number,
+ *   businessHours?: object, special?: object }} options - cartSignature from getCartSignature
+ */
+const createAsapQuote = ({
+  locationId,
+  timeZone,
+  settings,
+  cartSignature,
+  cartLeadTime,
+  prepTime,
+  queueDepth,
+  businessHours,
+  special,
+  now = new Date()
+}) => {
+  const unavailable = (message) => new FulfillmentError(message, { asapUnavailable: true });
+
+  if (!settings.enabled) {
+    throw unavailable('ASAP pickup is not available right now. Please choose a pickup time.');
+  }
+  // Items with a lead time beyond the default (party trays, pre-orders) can't be rushed
+  if (cartLeadTime.itemName) {
+    throw unavailable(`${cartLeadTime.itemName} needs advance notice, so this order can't be made ASAP. Please choose a pickup time.`);
+  }
+
+  const today = getZonedDateParts(now, timeZone);
+  const closingMinutes = getClosingMinutes({ businessHours, special, dayOfWeek: today.dayOfWeek, minutes: today.minutes });
+  if (closingMinutes === null) {
+    throw unavailable('We\'re closed right now. Please schedule your pickup for when we\'re open.');
+  }
+
+  const minutes = prepTime.minutes + settings.processingBufferMinutes + queueDepth * settings.minutesPerQueuedOrder;
+  if (minutes > settings.maxReadyMinutes) {
+    throw unavailable('The kitchen is very busy right now. Please choose a pickup time instead.');
+  }
+
+  const step = READY_TIME_STEP_MINUTES * 60000;
+  const readyAt = new Date(Math.ceil((now.getTime() + minutes * 60000) / step) * step);
+  const ready = getZonedDateParts(readyAt, timeZone);
+  if (ready.date !== today.date || ready.minutes > closingMinutes) {
+    throw unavailable('Your order wouldn\'t be ready before we close. Please schedule it for another time.');
+  }
+
+  removeExpiredQuotes(now);
+  const quote = {
+    quoteId: `asap-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    locationId,
+    cartSignature,
+    readyAt: readyAt.toISOString(),
+    minutes: Math.round((readyAt.getTime() - now.getTime()) / 60000),
+    queueDepth,
+    // Store-local date and 15-minute slot the ready time falls in, for capacity and special hours
+    date: ready.date,
+    time: minutesToTime(ready.minutes - (ready.minutes % SLOT_MINUTES)),
+    expiresAt: new Date(now.getTime() + settings.quoteValidMinutes * 60000).toISOString()
+  };
+  quotes.set(quote.quoteId, quote);
+  return quote;
+};
+
+// A held quote for checkout; expired or unknown quotes (e.g. after a restart), and quotes made for a
+// different cart, have to be refreshed
+const getAsapQuote = (quoteId, locationId, cartSignature, now = new Date()) => {
+  const quote = quotes.get(String(quoteId));
+  if (!quote || quote.locationId !== locationId || Date.parse(quote.expiresAt) <= now.getTime()) {
+    throw new FulfillmentError(
+      'Your ASAP pickup estimate has expired. Please refresh it and try again.',
+      { asapQuoteExpired: true }
+    );
+  }
+  if (quote.cartSignature !== cartSignature) {
+    throw new FulfillmentError(
+      'Your cart has changed since your ASAP pickup estimate. Please refresh it and try again.',
+      { asapQuoteExpired: true }
+    );
+  }
+  return quote;
+};
+
+// What the storefront needs to show a quote
+const toClientQuote = (quote) => ({
+  quoteId: quote.quoteId,
+  readyAt: quote.readyAt,
+  minutes: quote.minutes,
+  queueDepth: quote.queueDepth,
+  expiresAt: quote.expiresAt
+});
+
+module.exports = {
+  loadAsapSettings,
+  buildQueueSearch,
+  countQueuedOrders,
+  getCartPrepTime,
+  getCartSignature,
+  createAsapQuote,
+  getAsapQuote,
+  toClientQuote
+};
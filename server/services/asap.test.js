@@ -0,0 +1,72 @@
+const { getCartSignature, createAsapQuote, getAsapQuote } = require('./asap');
+const { FulfillmentError } = require('./fulfillment');
+
+const priced = (variationId, quantity, modifierIds = []) => ({
+  lineItem: {
+    catalog_object_id: variationId,
+    quantity: String(quantity),
+    ...(modifierIds.length > 0 && { modifiers: modifierIds.map(id => ({ catalog_object_id: id, quantity: '1' })) })
+  }
+});
+
+const settings = {
+  enabled: true,
+  processingBufferMinutes: 10,
+  minutesPerQueuedOrder: 3,
+  maxReadyMinutes: 90,
+  quoteValidMinutes: 10
+};
+
+// Noon on a Tuesday in Chicago, with no business hours limiting the day
+const now = new Date('2026-10-20T17:00:00Z');
+
+const quoteFor = (pricedItems) => createAsapQuote({
+  locationId: 'LOCATION_1',
+  timeZone: 'America/Chicago',
+  settings,
+  cartSignature: getCartSignature(pricedItems),
+  cartLeadTime: { minutes: 0 },
+  prepTime: { minutes: 5 },
+  queueDepth: 0,
+  now
+});
+
+describe('getCartSignature', () => {
+  it("doesn't depend on line or modifier order", () => {
+    expect(getCartSignature([priced('SANDWICH', 1, ['CHEESE', 'BACON']), priced('SOUP', 2)]))
+      .toBe(getCartSignature([priced('SOUP', 2), priced('SANDWICH', 1, ['BACON', 'CHEESE'])]));
+  });
+
+  it('changes with quantities, items and modifiers', () => {
+    const signature = getCartSignature([priced('SANDWICH', 1)]);
+
+    expect(getCartSignature([priced('SANDWICH', 2)])).not.toBe(signature);
+    expect(getCartSignature([priced('SANDWICH', 1), priced('SOUP', 1)])).not.toBe(signature);
+    expect(getCartSignature([priced('SANDWICH', 1, ['BACON'])])).not.toBe(signature);
+  });
+});
+
+describe('getAsapQuote', () => {
+  it('returns the quote for the cart it was made for', () => {
+    const cart = [priced('SANDWICH', 1)];
+    const quote = quoteFor(cart);
+
+    expect(getAsapQuote(quote.quoteId, 'LOCATION_1', getCartSignature(cart), now)).toBe(quote);
+  });
+
+  it('turns away a quote made for a different cart', () => {
+    const quote = quoteFor([priced('SANDWICH', 1)]);
+    const biggerCart = getCartSignature([priced('SANDWICH', 12)]);
+
+    expect(() => getAsapQuote(quote.quoteId, 'LOCATION_1', biggerCart, now)).toThrow(FulfillmentError);
+    expect(() => getAsapQuote(quote.quoteId, 'LOCATION_1', biggerCart, now)).toThrow('Your cart has changed');
+  });
+
+  it('turns away an expired quote', () => {
+    const cart = [priced('SANDWICH', 1)];
+    const quote = quoteFor(cart);
+    const later = new Date(now.getTime() + 11 * 60000);
+
+    expect(() => getAsapQuote(quote.quoteId, 'LOCATION_1', getCartSignature(cart), later)).toThrow('has expired');
+  });
+});
@@ -0,0 +1,214 @@
+// Order cancellations and refunds through the Square Orders and Refunds APIs
+// Staff can cancel or refund (in full or by line item) any order. Customers can cancel their own order from the
+// tracking page until config/cancellation.json's cutoff before pickup, as long as the kitchen hasn't started it.
+// createCancellationClient wraps the Square calls around a request function (makeSquareRequest in the server),
+// so tests can hand it a stub instead of calling Square.
+const path = require('path');
+const { ServiceError, readConfigFile } = require('./common');
+const { deriveSquareKey } = require('./idempotency');
+const { normalizePhone, matchesContact } = require('./orderHistory');
+
+const SETTINGS_PATH = process.env.CANCELLATION_SETTINGS_PATH || path.join(__dirname, '..', 'config', 'cancellation.json');
+
+const DEFAULT_MINUTES_BEFORE_PICKUP = 60;
+
+class CancellationError extends ServiceError {}
+
+// Without a readable settings file customers can't cancel online
+const loadCancellationSettings = () => {
+  const data = readConfigFile(SETTINGS_PATH, 'cancellation settings', { customerCancelEnabled: false });
+  const minutes = Number(data.minutesBeforePickup);
+  return {
+    customerCancelEnabled: data.customerCancelEnabled !== false,
+    minutesBeforePickup: Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_MINUTES_BEFORE_PICKUP
+  };
+};
+
+const getFulfillmentTime = (order) => {
+  const fulfillment = order.fulfillments?.[0];
+  return fulfillment?.pickup_details?.pickup_at || fulfillment?.delivery_details?.deliver_at || null;
+};
+
+// Payments are linked to the order through its tenders
+const getOrderPaymentIds = (order) =>
+  (order.tenders || []).map(tender => tender.payment_id || tender.id).filter(Boolean);
+
+/**
+ * Whether a customer can still cancel this order themselves
+ * @returns {{ allowed: boolean, deadline?: string, reason?: string }} deadline is when self-service cancelling ends
+ */
+const getCustomerCancellation = (order, settings = loadCancellationSettings(), now = new Date()) => {
+  const callStore = 'Please call the store to cancel.';
+
+  if (!settings.customerCancelEnabled) {
+    return { allowed: false, reason: `Orders can't be cancelled online. ${callStore}` };
+  }
+  if (order.state !== 'OPEN') {
+    return { allowed: false, reason: 'This order can no longer be cancelled' };
+  }
+  // Catering deposits follow the store's own policy
+  if (order.metadata?.catering === 'true') {
+    return { allowed: false, reason: `Catering orders can't be cancelled online. ${callStore}` };
+  }
+
+  const fulfillment = order.fulfillments?.[0];
+  if (fulfillment && fulfillment.state !== 'PROPOSED') {
+    return { allowed: false, reason: `We've already started on this order. ${callStore}` };
+  }
+
+  const fulfillmentAt = Date.parse(getFulfillmentTime(order));
+  if (Number.isNaN(fulfillmentAt)) {
+    return { allowed: false, reason: callStore };
+  }
+
+  const deadline = new Date(fulfillmentAt - settings.minutesBeforePickup * 60 * 1000);
+  if (now >= deadline) {
+    return {
+      allowed: false,
+      deadline: deadline.toISOString(),
+      reason: `Orders can be cancelled online up to ${settings.minutesBeforePickup} minutes before pickup. ${callStore}`
+    };
+  }
+
+  return { allowed: true, deadline: deadline.toISOString() };
+};
+
+/**
+ * Whether the person asking to cancel placed this order: the signed-in account's Square customer, or the phone
+ * number and email it was ordered with, the same pair the guest order lookup asks for
+ * @param {{ customerId?: string, phone?: string, email?: string }} requester
+ */
+const isOrderCustomer = (order, { customerId, phone, email } = {}) => {
+  if (customerId && order.customer_id === customerId) {
+    return true;
+  }
+  if (normalizePhone(phone).length < 10 || !email) {
+    return false;
+  }
+
+  const fulfillment = order.fulfillments?.[0];
+  const recipient = fulfillment?.pickup_details?.recipient || fulfillment?.delivery_details?.recipient || {};
+  return matchesContact({
+    phone_number: order.metadata?.customer_phone || recipient.phone_number,
+    email_address: order.metadata?.customer_email || recipient.email_address
+  }, phone, email);
+};
+
+/**
+ * Refund for part of an order, from line items and quantities
+ * Each line refunds its share of the line total, so its discounts and tax come off with it.
+ * @param {Array<{ uid: string, quantity?: number }>} lineItems - quantity defaults to the whole line
+ * @returns {number} cents
+ */
+const getLineItemRefundCents = (order, lineItems) => {
+  if (!Array.isArray(lineItems) || lineItems.length === 0) {
+    throw new CancellationError('Choose at least one item to refund');
+  }
+
+  return lineItems.reduce((sum, { uid, quantity }) => {
+    const line = (order.line_items || []).find(item => item.uid === uid);
+    if (!line) {
+      throw new CancellationError('That item is not on this order', { uid });
+    }
+
+    const lineQuantity = parseFloat(line.quantity) || 1;
+    const refundQuantity = quantity === undefined ? lineQuantity : Number(quantity);
+    if (!(refundQuantity > 0) || refundQuantity > lineQuantity) {
+      throw new CancellationError(`You can refund up to ${lineQuantity} of ${line.name || 'this item'}`, { uid });
+    }
+
+    return sum + Math.round((line.total_money?.amount || 0) * refundQuantity / lineQuantity);
+  }, 0);
+};
+
+const getRefundableCents = (payment) =>
+  Math.max(0, (payment.total_money?.amount || 0) - (payment.refunded_money?.amount || 0));
+
+/**
+ * Spread a refund across the order's completed payments, in order
+ * Without an amount everything left on each payment is refunded, which is nothing for an order refunded already.
+ * @returns {Array<{ payment: object, amountCents: number }>}
+ */
+const allocateRefund = (payments, amountCents) => {
+  const refundable = payments.filter(payment => payment.status === 'COMPLETED' && getRefundableCents(payment) > 0);
+  const available = refundable.reduce((sum, payment) => sum + getRefundableCents(payment), 0);
+  let remaining = amountCents === undefined ? available : amountCents;
+
+  if (amountCents !== undefined && amountCents <= 0) {
+    throw new CancellationError('The refund amount must be more than $0.00');
+  }
+  if (remaining > available) {
+    throw new CancellationError(`Only $${(available / 100).toFixed(2)} is left to refund on this order`);
+  }
+
+  return refundable.reduce((allocations, payment) => {
+    const amount = Math.min(remaining, getRefundableCents(payment));
+    remaining -= amount;
+    return amount > 0 ? [...allocations, { payment, amountCents: amount }] : allocations;
+  }, []);
+};
+
+/**
+ * Orders and Refunds API calls, made through `squareRequest(endpoint, { method, body, skipCache })`
+ */
+const createCancellationClient = (squareRequest) => {
+  const getPayments = (order) => Promise.all(getOrderPaymentIds(order).map(async (paymentId) => {
+    const { payment } = await squareRequest(`/payments/${paymentId}`, { method: 'GET', skipCache: true });
+    return payment;
+  }));
+
+  // Keyed to the order version and amount, so a repeated click doesn't refund twice
+  const refundPayments = async (order, allocations, reason) => Promise.all(
+    allocations.map(async ({ payment, amountCents }) => {
+      const { refund } = await squareRequest('/refunds', {
+        method: 'POST',
+        skipCache: true,
+        body: JSON.stringify({
+          idempotency_key: deriveSquareKey('refund', `${order.id}-${order.version}-${payment.id}-${amountCents}`),
+          payment_id: payment.id,
+          amount_money: { amount: amountCents, currency: 'USD' },
+          reason: String(reason || 'Refund').slice(0, 192)
+        })
+      });
+      return refund;
+    })
+  );
+
+  const updateOrder = async (order, changes) => {
+    const { order: updated } = await squareRequest(`/orders/${order.id}`, {
+      method: 'PUT',
+      skipCache: true,
+      body: JSON.stringify({
+        idempotency_key: `cancel-${order.id}-${order.version}`,
+        order: { location_id: order.location_id, version: order.version, ...changes }
+      })
+    });
+    return updated;
+  };
+
+  // Unpaid orders are cancelled outright
+  const cancelUnpaidOrder = (order) => updateOrder(order, { state: 'CANCELED' });
+
+  // A paid order keeps its refunded payments, so its fulfillments are cancelled instead
+  const cancelFulfillments = (order) => updateOrder(order, {
+    fulfillments: (order.fulfillments || []).map(fulfillment => ({ uid: fulfillment.uid, state: 'CANCELED' }))
+  });
+
+  return {
+    getPayments,
+    refundPayments,
+    cancelUnpaidOrder,
+    cancelFulfillments
+  };
+};
+
+module.exports = {
+  CancellationError,
+  loadCancellationSettings,
+  getOrderPaymentIds,
+  getCustomerCancellation,
+  isOrderCustomer,
+  getLineItemRefundCents,
+  allocateRefund,
+  createCancellationClient
+};
@@ -0,0 +1,90 @@
+const { isOrderCustomer, createCancellationClient } = require('./cancellations');
+const { deriveSquareKey } = require('./idempotency');
+const { stubSquare } = require('../test/squareStub');
+
+describe('isOrderCustomer', () => {
+  const order = {
+    customer_id: 'CUSTOMER_1',
+    metadata: { customer_email: 'Pat@Example.com', customer_phone: '(816) 555-0100' },
+    fulfillments: [{ pickup_details: { recipient: { phone_number: '816-555-0199', email_address: 'other@example.com' } } }]
+  };
+
+  it("accepts the signed-in account's Square customer", () => {
+    expect(isOrderCustomer(order, { customerId: 'CUSTOMER_1' })).toBe(true);
+    expect(isOrderCustomer(order, { customerId: 'CUSTOMER_2' })).toBe(false);
+  });
+
+  it('accepts the phone number and email the order was placed with', () => {
+    expect(isOrderCustomer(order, { phone: '+1 816 555 0100', email: ' pat@example.com ' })).toBe(true);
+  });
+
+  it('needs both the phone number and the email', () => {
+    expect(isOrderCustomer(order, { phone: '816-555-0100' })).toBe(false);
+    expect(isOrderCustomer(order, { email: 'pat@example.com' })).toBe(false);
+    expect(isOrderCustomer(order, { phone: '816-555-0100', email: 'someone@example.com' })).toBe(false);
+  });
+
+  it('falls back to the fulfillment recipient for orders without contact metadata', () => {
+    const dashboardOrder = { ...order, metadata: undefined };
+
+    expect(isOrderCustomer(dashboardOrder, { phone: '8165550199', email: 'other@example.com' })).toBe(true);
+  });
+
+  it('turns away a request with nothing to check', () => {
+    expect(isOrderCustomer({ fulfillments: [] })).toBe(false);
+  });
+});
+
+describe('createCancellationClient', () => {
+  const order = {
+    id: 'ORDER_1',
+    version: 3,
+    location_id: 'LOCATION_1',
+    tenders: [{ id: 'TENDER_1', payment_id: 'PAYMENT_1' }, { id: 'PAYMENT_2' }],
+    fulfillments: [{ uid: 'FULFILLMENT_1', state: 'PROPOSED' }]
+  };
+
+  it("fetches each of the order's payments", async () => {
+    const squareRequest = stubSquare({
+      '/payments/PAYMENT_1': { payment: { id: 'PAYMENT_1' } },
+      '/payments/PAYMENT_2': { payment: { id: 'PAYMENT_2' } }
+    });
+
+    await expect(createCancellationClient(squareRequest).getPayments(order)).resolves.toEqual([{ id: 'PAYMENT_1' }, { id: 'PAYMENT_2' }]);
+  });
+
+  it('refunds each allocation once, keyed to the order version and amount', async () => {
+    const squareRequest = stubSquare({ '/refunds': { refund: { id: 'REFUND_1' } } });
+
+    const refunds = await createCancellationClient(squareRequest).refundPayments(
+      order,
+      [{ payment: { id: 'PAYMENT_1' }, amountCents: 1200 }],
+      'Cancelled by customer'
+    );
+
+    expect(refunds).toEqual([{ id: 'REFUND_1' }]);
+    expect(JSON.parse(squareRequest.mock.calls[0][1].body)).toEqual({
+      idempotency_key: deriveSquareKey('refund', 'ORDER_1-3-PAYMENT_1-1200'),
+      payment_id: 'PAYMENT_1',
+      amount_money: { amount: 1200, currency: 'USD' },
+      reason: 'Cancelled by customer'
+    });
+  });
+
+  it('cancels an unpaid order outright and a paid one by its fulfillments', async () => {
+    const squareRequest = stubSquare({ '/orders/ORDER_1': { order: { id: 'ORDER_1' } } });
+    const client = createCancellationClient(squareRequest);
+
+    await client.cancelUnpaidOrder(order);
+    await client.cancelFulfillments(order);
+
+    const [unpaid, paid] = squareRequest.mock.calls.map(([, options]) => JSON.parse(options.body));
+    expect(squareRequest.mock.calls[0][1].method).toBe('PUT');
+    expect(unpaid.order).toEqual({ location_id: 'LOCATION_1', version: 3, state: 'CANCELED' });
+    expect(paid.order).toEqual({
+      location_id: 'LOCATION_1',
+      version: 3,
+      fulfillments: [{ uid: 'FULFILLMENT_1', state: 'CANCELED' }]
+    });
+  });
+});
@@ -0,0 +1,43 @@
+// Catering pre-orders: head count, longer lead time and a deposit up front
+// Settings live in config/catering.json. The full order is created in Square unpaid and
+// the deposit is taken through a separate payment link; the balance is collected at pickup or delivery.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+
+const CATERING_SETTINGS_PATH = process.env.CATERING_SETTINGS_PATH || path.join(__dirname, '..', 'config', 'catering.json');
+
+const loadCateringSettings = () => {
+  const data = readConfigFile(CATERING_SETTINGS_PATH, 'catering settings');
+  return {
+    enabled: Boolean(data.enabled),
+    minHeadCount: Number(data.minHeadCount) || 1,
+    maxHeadCount: Number(data.maxHeadCount) || 500,
+    leadTimeMinutes: Number(data.leadTimeMinutes) || 0,
+    depositPercent: Math.min(100, Math.max(0, Number(data.depositPercent) || 0))
+  };
+};
+
+// Head count as a whole number within the configured range
+const validateHeadCount = (headCount, settings) => {
+  const count = Number(headCount);
+  if (!Number.isInteger(count) || count < settings.minHeadCount || count > settings.maxHeadCount) {
+    throw new FulfillmentError(
+      `Catering orders are for ${settings.minHeadCount} to ${settings.maxHeadCount} guests`,
+      { minHeadCount: settings.minHeadCount, maxHeadCount: settings.maxHeadCount }
+    );
+  }
+  return count;
+};
+
+// Deposit on the order total (after tax) in cents; at least one cent when a deposit is required
+const calculateDepositCents = (orderTotalCents, settings) => {
+  if (settings.depositPercent === 0) return 0;
+  return Math.max(1, Math.round(orderTotalCents * (settings.depositPercent / 100)));
+};
+
+module.exports = {
+  loadCateringSettings,
+  validateHeadCount,
+  calculateDepositCents
+};
@@ -0,0 +1,73 @@
+// Pieces the services share: the error base class the routes turn into 400s, settings files under config/
+// and the small JSON stores kept in DATA_DIR
+const fs = require('fs');
+const path = require('path');
+const { DATA_DIR } = require('./eventLog');
+
+/**
+ * A problem with the request that the customer can fix. Routes answer these with a 400 carrying the message
+ * and details; anything else is logged and answered with a 500.
+ */
+class ServiceError extends Error {
+  constructor(message, details = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.details = details;
+  }
+}
+
+/**
+ * Read a settings file on every call, so edits apply without a restart
+ * @param {string} description - Names the file in the error log, e.g. 'delivery settings'
+ * @param {*} fallback - Used when the file is missing or isn't valid JSON
+ */
+const readConfigFile = (filePath, description, fallback = {}) => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) ?? fallback;
+  } catch (error) {
+    console.error(`Error loading ${description}:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * A single JSON file in DATA_DIR, read once at startup and rewritten whole on every change. Volumes are small
+ * and it needs no extra dependency.
+ * @param {string} description - Names the store in the error log, e.g. 'slot bookings'
+ * @returns {{ load: () => object, save: (data: object) => void }} load gives {} for a missing or unreadable file
+ */
+const createJsonStore = (fileName, description) => {
+  const storePath = path.join(DATA_DIR, fileName);
+
+  const load = () => {
+    try {
+      if (!fs.existsSync(storePath)) return {};
+      return JSON.parse(fs.readFileSync(storePath, 'utf8')) || {};
+    } catch (error) {
+      console.error(`Error reading ${description}:`, error);
+      return {};
+    }
+  };
+
+  // Write to a temp file first so a crash mid-write can't truncate the store
+  const save = (data) => {
+    try {
+      if (!fs.existsSync(DATA_DIR)) {
+        fs.mkdirSync(DATA_DIR, { recursive: true });
+      }
+      const tempPath = `${storePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, storePath);
+    } catch (error) {
+      console.error(`Error writing ${description}:`, error);
+    }
+  };
+
+  return { load, save };
+};
+
+module.exports = {
+  ServiceError,
+  readConfigFile,
+  createJsonStore
+};
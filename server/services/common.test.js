@@ -0,0 +1,64 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'common-test-'));
+process.env.DATA_DIR = dataDir;
+
+const { ServiceError, readConfigFile, createJsonStore } = require('./common');
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('ServiceError', () => {
+  it('carries its subclass name and details', () => {
+    class ExampleError extends ServiceError {}
+    const error = new ExampleError('Something to fix', { field: 'phone' });
+
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error.name).toBe('ExampleError');
+    expect(error.message).toBe('Something to fix');
+    expect(error.details).toEqual({ field: 'phone' });
+    expect(new ExampleError('No details').details).toEqual({});
+  });
+});
+
+describe('readConfigFile', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    console.error.mockRestore();
+  });
+
+  it('reads the file again on every call', () => {
+    const filePath = path.join(dataDir, 'settings.json');
+    fs.writeFileSync(filePath, JSON.stringify({ enabled: true }));
+    expect(readConfigFile(filePath, 'test settings')).toEqual({ enabled: true });
+
+    fs.writeFileSync(filePath, JSON.stringify({ enabled: false }));
+    expect(readConfigFile(filePath, 'test settings')).toEqual({ enabled: false });
+  });
+
+  it('falls back when the file is missing or invalid', () => {
+    const invalidPath = path.join(dataDir, 'invalid.json');
+    fs.writeFileSync(invalidPath, '{ not json');
+
+    expect(readConfigFile(path.join(dataDir, 'missing.json'), 'test settings')).toEqual({});
+    expect(readConfigFile(invalidPath, 'test settings', { enabled: false })).toEqual({ enabled: false });
+  });
+});
+
+describe('createJsonStore', () => {
+  it('loads what it saved, without leaving the temp file behind', () => {
+    const store = createJsonStore('store.json', 'test records');
+
+    expect(store.load()).toEqual({});
+    store.save({ records: [{ id: 1 }] });
+
+    expect(createJsonStore('store.json', 'test records').load()).toEqual({ records: [{ id: 1 }] });
+    expect(fs.readdirSync(dataDir)).not.toContain('store.json.tmp');
+  });
+});
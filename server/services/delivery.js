@@ -0,0 +1,99 @@
+// Local delivery settings per store location
+// Settings live in config/delivery-settings.json: a default block plus overrides keyed by
+// Square location ID. Fees and minimums are in cents, like the discount rules.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+
+const SETTINGS_PATH = process.env.DELIVERY_SETTINGS_PATH || path.join(__dirname, '..', 'config', 'delivery-settings.json');
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Delivery settings for one location, defaults merged with its overrides
+ * @returns {{ enabled: boolean, zipCodes: string[], radiusMiles: number, deliveryFee: number, minimumOrder: number }}
+ */
+const getDeliverySettings = (locationId) => {
+  const config = readConfigFile(SETTINGS_PATH, 'delivery settings');
+  const settings = {
+    ...config.default,
+    ...(locationId && config.locations?.[locationId])
+  };
+
+  return {
+    enabled: Boolean(settings.enabled),
+    zipCodes: Array.isArray(settings.zipCodes) ? settings.zipCodes.map(String) : [],
+    radiusMiles: Number(settings.radiusMiles) || 0,
+    deliveryFee: Math.max(0, Math.round(Number(settings.deliveryFee) || 0)),
+    minimumOrder: Math.max(0, Math.round(Number(settings.minimumOrder) || 0))
+  };
+};
+
+// Great-circle distance between two { lat, lng } points
+const distanceMiles = (from, to) => {
+  const toRadians = (degrees) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+const hasCoordinates = (point) =>
+  point && Number.isFinite(Number(point.lat)) && Number.isFinite(Number(point.lng));
+
+const normalizeZip = (zipCode) => String(zipCode || '').trim().slice(0, 5);
+
+// An address is in the area when its ZIP is whitelisted or it lies within the radius
+const isInDeliveryArea = (settings, address, storeCoordinates) => {
+  if (settings.zipCodes.includes(normalizeZip(address.zipCode))) {
+    return true;
+  }
+
+  if (settings.radiusMiles > 0 && hasCoordinates(address.coordinates) && hasCoordinates(storeCoordinates)) {
+    const miles = distanceMiles(
+      { lat: Number(storeCoordinates.lat), lng: Number(storeCoordinates.lng) },
+      { lat: Number(address.coordinates.lat), lng: Number(address.coordinates.lng) }
+    );
+    return miles <= settings.radiusMiles;
+  }
+
+  return false;
+};
+
+/**
+ * Check a delivery order against the location's settings
+ * Throws FulfillmentError when delivery is unavailable, the address is outside the area,
+ * or the discounted subtotal is under the minimum.
+ * @returns {number} delivery fee in cents
+ */
+const validateDeliveryOrder = ({ settings, address, subtotalCents, storeCoordinates }) => {
+  if (!settings.enabled) {
+    throw new FulfillmentError('Delivery is not available from this location');
+  }
+
+  const street = String(address?.street || '').trim();
+  const city = String(address?.city || '').trim();
+  const zipCode = normalizeZip(address?.zipCode);
+  if (!street || !city || !/^\d{5}$/.test(zipCode)) {
+    throw new FulfillmentError('A street address, city and 5-digit ZIP code are required for delivery');
+  }
+
+  if (!isInDeliveryArea(settings, address, storeCoordinates)) {
+    throw new FulfillmentError('This address is outside our delivery area', { outsideDeliveryArea: true });
+  }
+
+  if (subtotalCents < settings.minimumOrder) {
+    throw new FulfillmentError(
+      `Delivery orders must be at least $${(settings.minimumOrder / 100).toFixed(2)}`,
+      { minimumOrder: settings.minimumOrder }
+    );
+  }
+
+  return settings.deliveryFee;
+};
+
+module.exports = {
+  getDeliverySettings,
+  validateDeliveryOrder
+};
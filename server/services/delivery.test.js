@@ -0,0 +1,84 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-test-'));
+process.env.DELIVERY_SETTINGS_PATH = path.join(configDir, 'delivery-settings.json');
+fs.writeFileSync(process.env.DELIVERY_SETTINGS_PATH, JSON.stringify({
+  default: { enabled: false, zipCodes: [], radiusMiles: 0, deliveryFee: 499, minimumOrder: 2500 },
+  locations: {
+    DOWNTOWN: { enabled: true, zipCodes: ['62701', 62702], radiusMiles: 5, minimumOrder: 2000 }
+  }
+}));
+
+const { getDeliverySettings, validateDeliveryOrder } = require('./delivery');
+const { FulfillmentError } = require('./fulfillment');
+
+afterAll(() => {
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+describe('getDeliverySettings', () => {
+  it("merges a location's overrides over the defaults", () => {
+    expect(getDeliverySettings('DOWNTOWN')).toEqual({
+      enabled: true,
+      zipCodes: ['62701', '62702'],
+      radiusMiles: 5,
+      deliveryFee: 499,
+      minimumOrder: 2000
+    });
+  });
+
+  it('uses the defaults for a location without overrides', () => {
+    expect(getDeliverySettings('AIRPORT').enabled).toBe(false);
+  });
+});
+
+describe('validateDeliveryOrder', () => {
+  const settings = getDeliverySettings('DOWNTOWN');
+  // Springfield, IL
+  const storeCoordinates = { lat: 39.7817, lng: -89.6501 };
+  const address = { street: '100 Main St', city: 'Springfield', zipCode: '62701-1234' };
+
+  it('charges the fee for an address in a listed ZIP code', () => {
+    expect(validateDeliveryOrder({ settings, address, subtotalCents: 2000, storeCoordinates })).toBe(499);
+  });
+
+  it('accepts an address outside the listed ZIP codes within the radius', () => {
+    // About 3 miles north
+    const nearby = { ...address, zipCode: '62707', coordinates: { lat: 39.8252, lng: -89.6501 } };
+
+    expect(validateDeliveryOrder({ settings, address: nearby, subtotalCents: 2000, storeCoordinates })).toBe(499);
+  });
+
+  it('turns away an address beyond the radius, or one it cannot place', () => {
+    // About 7 miles north
+    const farAway = { ...address, zipCode: '62707', coordinates: { lat: 39.8830, lng: -89.6501 } };
+    const unplaced = { ...address, zipCode: '62707' };
+
+    [farAway, unplaced].forEach(outside => {
+      expect(() => validateDeliveryOrder({ settings, address: outside, subtotalCents: 2000, storeCoordinates }))
+        .toThrow('This address is outside our delivery area');
+    });
+  });
+
+  it('holds orders under the minimum to it', () => {
+    let error;
+    try {
+      validateDeliveryOrder({ settings, address, subtotalCents: 1999, storeCoordinates });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(FulfillmentError);
+    expect(error.message).toBe('Delivery orders must be at least $20.00');
+    expect(error.details).toEqual({ minimumOrder: 2000 });
+  });
+
+  it('needs delivery switched on and a full address', () => {
+    expect(() => validateDeliveryOrder({ settings: getDeliverySettings('AIRPORT'), address, subtotalCents: 5000 }))
+      .toThrow('Delivery is not available from this location');
+    expect(() => validateDeliveryOrder({ settings, address: { ...address, street: ' ' }, subtotalCents: 5000 }))
+      .toThrow('A street address, city and 5-digit ZIP code are required for delivery');
+  });
+});
@@ -0,0 +1,254 @@
+// Discount engine - pure calculations over catalog-priced cart lines
+// No I/O here: discounts.js decides whether a rule applies, this module works out
+// how much it is worth and which discounts can be combined.
+
+// Reward discounts are worked out here rather than by a Square catalog discount
+const REWARD_TYPES = ['buy_x_get_y', 'tiered'];
+
+// Upper bound on candidates for the exhaustive search; beyond this a greedy pick is used
+const MAX_EXHAUSTIVE_CANDIDATES = 12;
+
+const sumCents = (pricedItems) => pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+
+// Every unit in the cart as its own entry, most expensive first
+const expandUnits = (pricedItems) => {
+  return pricedItems
+    .flatMap(priced => Array.from({ length: priced.quantity }, () => ({ priced, priceCents: priced.unitPriceCents })))
+    .sort((a, b) => b.priceCents - a.priceCents);
+};
+
+// Collapse claimed units back into per-line quantities
+const toClaims = (units) => {
+  const claims = new Map();
+  units.forEach(unit => claims.set(unit.priced, (claims.get(unit.priced) || 0) + 1));
+  return Array.from(claims, ([priced, quantity]) => ({ priced, quantity }));
+};
+
+/**
+ * Buy X get Y: units are grouped most-expensive first and the cheapest `getQuantity`
+ * units of each full group are discounted, so a free item never costs more than what was bought.
+ * "Buy 3 sandwiches get one free" is { buyQuantity: 3, getQuantity: 1 } with a category restriction.
+ */
+const calculateBuyXGetY = (reward, eligibleItems) => {
+  const buyQuantity = reward.buyQuantity || 1;
+  const getQuantity = reward.getQuantity || 1;
+  const discountPercent = reward.discountPercent ?? 100;
+  const groupSize = buyQuantity + getQuantity;
+
+  const units = expandUnits(eligibleItems);
+  let applications = Math.floor(units.length / groupSize);
+  if (reward.maxApplications) {
+    applications = Math.min(applications, reward.maxApplications);
+  }
+
+  let amountCents = 0;
+  const claimedUnits = [];
+  for (let group = 0; group < applications; group++) {
+    const groupUnits = units.slice(group * groupSize, (group + 1) * groupSize);
+    groupUnits.slice(buyQuantity).forEach(unit => {
+      amountCents += unit.priceCents * (discountPercent / 100);
+    });
+    claimedUnits.push(...groupUnits);
+  }
+
+  return {
+    amountCents: Math.round(amountCents),
+    orderLevel: false,
+    claims: toClaims(claimedUnits)
+  };
+};
+
+// Spend thresholds: the highest tier the eligible subtotal reaches wins
+const calculateTiered = (reward, eligibleItems) => {
+  const baseCents = sumCents(eligibleItems);
+  const tier = [...(reward.tiers || [])]
+    .sort((a, b) => b.minSubtotal - a.minSubtotal)
+    .find(candidate => baseCents >= candidate.minSubtotal);
+
+  if (!tier) {
+    return { amountCents: 0, orderLevel: true, claims: [] };
+  }
+
+  const amountCents = tier.type === 'percentage'
+    ? Math.round(baseCents * (tier.value / 100))
+    : Math.min(tier.value, baseCents);
+
+  return { amountCents, orderLevel: true, claims: [], tier };
+};
+
+/**
+ * Value of a discount against the lines it is eligible for
+ * @param {{ type: string, value: number, scope: string, maxDiscountAmount?: number, reward?: object }} definition
+ * @param {{ eligibleItems: object[], subtotalCents: number }} cart
+ * @returns {{ amountCents: number, orderLevel: boolean, claims: { priced: object, quantity: number }[], tier?: object }}
+ */
+const calculateDiscountAmount = (definition, { eligibleItems, subtotalCents }) => {
+  const { type, value, scope, maxDiscountAmount, reward = {} } = definition;
+
+  if (type === 'buy_x_get_y') {
+    return calculateBuyXGetY(reward, eligibleItems);
+  }
+
+  if (type === 'tiered') {
+    return calculateTiered(reward, eligibleItems);
+  }
+
+  // Line-item discounts only reduce (and claim) the qualifying lines
+  const isLineItemScope = scope === 'LINE_ITEM';
+  const claims = isLineItemScope
+    ? eligibleItems.map(priced => ({ priced, quantity: priced.quantity }))
+    : [];
+
+  let amountCents = 0;
+  if (type === 'percentage') {
+    const baseCents = isLineItemScope ? sumCents(eligibleItems) : subtotalCents;
+    amountCents = Math.round(baseCents * (value / 100));
+    if (maxDiscountAmount && amountCents > maxDiscountAmount) {
+      amountCents = maxDiscountAmount;
+    }
+  } else if (type === 'fixed_amount') {
+    // Square takes a line-item fixed amount off each line it is applied to
+    amountCents = isLineItemScope
+      ? eligibleItems.reduce((sum, priced) => sum + Math.min(value, priced.totalCents), 0)
+      : Math.min(value, subtotalCents);
+  }
+
+  return { amountCents, orderLevel: !isLineItemScope, claims };
+};
+
+const totalSavings = (combination) => combination.reduce((sum, candidate) => sum + candidate.amountCents, 0);
+
+// Why two discounts can't be applied together, or null when they can
+// Stacking metadata comes from the rule: { exclusive, group, priority }
+const getStackingConflict = (a, b) => {
+  if (a.stacking?.exclusive) {
+    return `${a.name} can't be combined with other discounts`;
+  }
+  if (b.stacking?.exclusive) {
+    return `${b.name} can't be combined with other discounts`;
+  }
+  if (a.stacking?.group && a.stacking.group === b.stacking?.group) {
+    return `${a.name} and ${b.name} can't be used together`;
+  }
+  // Automatic spend rewards never stack with each other
+  if (a.automatic && b.automatic && a.orderLevel && b.orderLevel) {
+    return `${a.name} and ${b.name} can't be used together`;
+  }
+  return null;
+};
+
+/**
+ * Reason a discount can't join an already-chosen set, or null when it can
+ * Covers stacking rules, units already used by another reward and the order subtotal.
+ */
+const findConflict = (candidate, chosen, subtotalCents) => {
+  for (const other of chosen) {
+    const stackingConflict = getStackingConflict(other, candidate);
+    if (stackingConflict) {
+      return stackingConflict;
+    }
+  }
+
+  for (const { priced, quantity } of candidate.claims) {
+    const claimed = chosen.reduce((sum, other) => {
+      const claim = other.claims.find(otherClaim => otherClaim.priced === priced);
+      return sum + (claim ? claim.quantity : 0);
+    }, 0);
+    if (claimed + quantity > priced.quantity) {
+      return `${candidate.name} needs items that are already used by another discount`;
+    }
+  }
+
+  if (totalSavings(chosen) + candidate.amountCents > subtotalCents) {
+    return `${candidate.name} would discount more than the order total`;
+  }
+
+  return null;
+};
+
+const isCompatible = (combination, subtotalCents, fixed = []) => {
+  const chosen = [...fixed];
+  for (const candidate of combination) {
+    if (findConflict(candidate, chosen, subtotalCents)) {
+      return false;
+    }
+    chosen.push(candidate);
+  }
+  return true;
+};
+
+/**
+ * Pick the non-conflicting set of discounts with the largest total saving
+ * Ties go to the set with fewer discounts.
+ * @param {object[]} candidates - results of calculateDiscountAmount plus name, stacking and automatic
+ * @param {number} subtotalCents
+ * @param {object[]} fixed - discounts already chosen that the set has to combine with
+ * @returns {object[]} chosen candidates, largest saving first
+ */
+const selectBestDiscounts = (candidates, subtotalCents, fixed = []) => {
+  const usable = candidates
+    .filter(candidate => candidate.amountCents > 0)
+    .sort((a, b) => b.amountCents - a.amountCents);
+
+  let best = [];
+
+  if (usable.length > MAX_EXHAUSTIVE_CANDIDATES) {
+    usable.forEach(candidate => {
+      if (isCompatible([...best, candidate], subtotalCents, fixed)) {
+        best.push(candidate);
+      }
+    });
+    return best;
+  }
+
+  for (let mask = 1; mask < (1 << usable.length); mask++) {
+    const combination = usable.filter((_, index) => mask & (1 << index));
+    if (!isCompatible(combination, subtotalCents, fixed)) continue;
+
+    const savings = totalSavings(combination);
+    const bestSavings = totalSavings(best);
+    if (savings > bestSavings || (savings === bestSavings && combination.length < best.length)) {
+      best = combination;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Decide the final set of discounts for a cart
+ * Codes the customer entered are resolved first, highest priority first (earlier codes win ties),
+ * then the best automatic discounts that combine with them are added.
+ * @returns {{ applied: object[], rejected: { candidate: object, reason: string }[] }}
+ */
+const resolveDiscountStack = (manual, automatic, subtotalCents) => {
+  const byPriority = manual
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => ((b.candidate.stacking?.priority || 0) - (a.candidate.stacking?.priority || 0)) || a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+  const kept = [];
+  const rejected = [];
+  byPriority.forEach(candidate => {
+    const reason = findConflict(candidate, kept, subtotalCents);
+    if (reason) {
+      rejected.push({ candidate, reason });
+    } else {
+      kept.push(candidate);
+    }
+  });
+
+  return {
+    applied: [...kept, ...selectBestDiscounts(automatic, subtotalCents, kept)],
+    rejected
+  };
+};
+
+module.exports = {
+  REWARD_TYPES,
+  calculateBuyXGetY,
+  calculateTiered,
+  calculateDiscountAmount,
+  selectBestDiscounts,
+  resolveDiscountStack
+};
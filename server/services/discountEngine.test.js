@@ -0,0 +1,176 @@
+const {
+  calculateBuyXGetY,
+  calculateTiered,
+  selectBestDiscounts,
+  resolveDiscountStack
+} = require('./discountEngine');
+
+const line = (unitPriceCents, quantity = 1) => ({ unitPriceCents, quantity, totalCents: unitPriceCents * quantity });
+
+// A discount already valued by calculateDiscountAmount, ready to be stacked
+const candidate = (name, amountCents, extra = {}) => ({ name, amountCents, orderLevel: true, claims: [], ...extra });
+
+describe('calculateBuyXGetY', () => {
+  it('discounts the cheapest unit of each full group', () => {
+    const sandwich = line(900, 2);
+    const soup = line(500, 2);
+
+    const result = calculateBuyXGetY({ buyQuantity: 3, getQuantity: 1 }, [sandwich, soup]);
+
+    expect(result.amountCents).toBe(500);
+    expect(result.orderLevel).toBe(false);
+    expect(result.claims).toEqual([
+      { priced: sandwich, quantity: 2 },
+      { priced: soup, quantity: 2 }
+    ]);
+  });
+
+  it('needs a full group before anything is free', () => {
+    expect(calculateBuyXGetY({ buyQuantity: 3, getQuantity: 1 }, [line(900, 3)])).toEqual({
+      amountCents: 0,
+      orderLevel: false,
+      claims: []
+    });
+  });
+
+  it('groups units most expensive first so a free item never costs more than what was bought', () => {
+    const result = calculateBuyXGetY({ buyQuantity: 1, getQuantity: 1 }, [line(300), line(1000), line(700), line(200)]);
+
+    // (1000, 700) and (300, 200): the 700 and the 200 are free
+    expect(result.amountCents).toBe(900);
+  });
+
+  it('applies a partial discount and caps the number of applications', () => {
+    const result = calculateBuyXGetY(
+      { buyQuantity: 1, getQuantity: 1, discountPercent: 50, maxApplications: 1 },
+      [line(800, 4)]
+    );
+
+    expect(result.amountCents).toBe(400);
+    expect(result.claims[0].quantity).toBe(2);
+  });
+});
+
+describe('calculateTiered', () => {
+  const reward = {
+    tiers: [
+      { minSubtotal: 2500, type: 'fixed_amount', value: 300 },
+      { minSubtotal: 5000, type: 'percentage', value: 10 }
+    ]
+  };
+
+  it('uses the highest tier the eligible subtotal reaches', () => {
+    const result = calculateTiered(reward, [line(3000, 2)]);
+
+    expect(result.amountCents).toBe(600);
+    expect(result.tier).toEqual({ minSubtotal: 5000, type: 'percentage', value: 10 });
+  });
+
+  it('gives a fixed amount in the lower tier', () => {
+    expect(calculateTiered(reward, [line(2500)]).amountCents).toBe(300);
+  });
+
+  it('gives nothing below the lowest tier', () => {
+    expect(calculateTiered(reward, [line(2499)])).toEqual({ amountCents: 0, orderLevel: true, claims: [] });
+  });
+
+  it('never discounts more than the eligible subtotal', () => {
+    const result = calculateTiered({ tiers: [{ minSubtotal: 0, type: 'fixed_amount', value: 1000 }] }, [line(400)]);
+
+    expect(result.amountCents).toBe(400);
+  });
+});
+
+describe('selectBestDiscounts', () => {
+  it('picks the combination with the largest saving', () => {
+    const big = candidate('Big', 500, { stacking: { group: 'weekly' } });
+    const mediumA = candidate('Medium A', 300, { stacking: { group: 'weekly' } });
+    const mediumB = candidate('Medium B', 300);
+
+    expect(selectBestDiscounts([big, mediumA, mediumB], 10000)).toEqual([big, mediumB]);
+  });
+
+  it('prefers two compatible discounts over a larger exclusive one only when they save more', () => {
+    const exclusive = candidate('Exclusive', 700, { stacking: { exclusive: true } });
+    const first = candidate('First', 400);
+    const second = candidate('Second', 400);
+
+    expect(selectBestDiscounts([exclusive, first, second], 10000)).toEqual([first, second]);
+    expect(selectBestDiscounts([exclusive, first], 10000)).toEqual([exclusive]);
+  });
+
+  it('never stacks two automatic order-level rewards', () => {
+    const spend = candidate('Spend $50', 500, { automatic: true });
+    const spendMore = candidate('Spend $75', 800, { automatic: true });
+
+    expect(selectBestDiscounts([spend, spendMore], 10000)).toEqual([spendMore]);
+  });
+
+  it("won't let two rewards claim the same units", () => {
+    const sandwich = line(900, 2);
+    const bogo = candidate('BOGO', 900, { orderLevel: false, claims: [{ priced: sandwich, quantity: 2 }] });
+    const sandwichDeal = candidate('Sandwich deal', 300, { orderLevel: false, claims: [{ priced: sandwich, quantity: 1 }] });
+
+    expect(selectBestDiscounts([bogo, sandwichDeal], 1800)).toEqual([bogo]);
+  });
+
+  it('keeps the total saving within the subtotal', () => {
+    const first = candidate('First', 600);
+    const second = candidate('Second', 500);
+
+    expect(selectBestDiscounts([first, second], 1000)).toEqual([first]);
+  });
+
+  it('breaks ties with the smaller set', () => {
+    const single = candidate('Single', 600, { stacking: { exclusive: true } });
+    const halfA = candidate('Half A', 300);
+    const halfB = candidate('Half B', 300);
+
+    expect(selectBestDiscounts([single, halfA, halfB], 10000)).toEqual([single]);
+  });
+
+  it('combines with discounts that are already fixed', () => {
+    const entered = candidate('Entered', 200, { stacking: { group: 'codes' } });
+    const sameGroup = candidate('Same group', 900, { stacking: { group: 'codes' } });
+    const other = candidate('Other', 100);
+
+    expect(selectBestDiscounts([sameGroup, other], 10000, [entered])).toEqual([other]);
+  });
+
+  it('skips candidates worth nothing', () => {
+    expect(selectBestDiscounts([candidate('Nothing', 0)], 10000)).toEqual([]);
+  });
+});
+
+describe('resolveDiscountStack', () => {
+  it('keeps entered codes by priority and explains the ones it rejects', () => {
+    const low = candidate('LOW10', 100, { stacking: { group: 'codes', priority: 1 } });
+    const high = candidate('HIGH20', 200, { stacking: { group: 'codes', priority: 5 } });
+
+    const { applied, rejected } = resolveDiscountStack([low, high], [], 10000);
+
+    expect(applied).toEqual([high]);
+    expect(rejected).toEqual([{ candidate: low, reason: "HIGH20 and LOW10 can't be used together" }]);
+  });
+
+  it('lets the earlier code win a priority tie', () => {
+    const first = candidate('FIRST', 100, { stacking: { exclusive: true } });
+    const second = candidate('SECOND', 500);
+
+    const { applied, rejected } = resolveDiscountStack([first, second], [], 10000);
+
+    expect(applied).toEqual([first]);
+    expect(rejected[0].reason).toBe("FIRST can't be combined with other discounts");
+  });
+
+  it('adds the best automatic discounts that combine with the entered codes', () => {
+    const code = candidate('SAVE5', 500);
+    const exclusiveAuto = candidate('Happy hour', 900, { automatic: true, stacking: { exclusive: true } });
+    const spendAuto = candidate('Spend $50', 300, { automatic: true });
+
+    const { applied, rejected } = resolveDiscountStack([code], [exclusiveAuto, spendAuto], 10000);
+
+    expect(applied).toEqual([code, spendAuto]);
+    expect(rejected).toEqual([]);
+  });
+});
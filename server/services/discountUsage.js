@@ -0,0 +1,112 @@
+// Local store of discount redemptions, recorded when Square confirms payment
+// Kept as a single JSON file - volumes are small and it needs no extra dependency.
+const { createJsonStore } = require('./common');
+
+const store = createJsonStore('discount-redemptions.json', 'discount redemptions');
+
+let redemptions = [];
+
+const loadRedemptions = () => {
+  const data = store.load();
+  redemptions = Array.isArray(data.redemptions) ? data.redemptions : [];
+};
+
+const saveRedemptions = () => store.save({ redemptions });
+
+// Customers are matched on email or phone, whichever they gave
+const normalizeCustomer = (customer = {}) => {
+  const email = customer.email ? String(customer.email).trim().toLowerCase() : null;
+  const phoneDigits = customer.phone ? String(customer.phone).replace(/\D/g, '') : '';
+  // Compare the last 10 digits so "+1 (555) 123-4567" and "5551234567" match
+  const phone = phoneDigits.length >= 10 ? phoneDigits.slice(-10) : null;
+  return { email, phone };
+};
+
+const isSameCustomer = (redemption, { email, phone }) =>
+  (email && redemption.email === email) || (phone && redemption.phone === phone);
+
+/**
+ * Redemption counts for a discount, overall and for one customer
+ * @returns {{ total: number, customer: number }}
+ */
+const getDiscountUsage = (discountId, customer) => {
+  const normalized = normalizeCustomer(customer);
+  const forDiscount = redemptions.filter(redemption => redemption.discountId === discountId);
+
+  return {
+    total: forDiscount.length,
+    customer: forDiscount.filter(redemption => isSameCustomer(redemption, normalized)).length
+  };
+};
+
+// Record the discounts on a paid order; safe to call again for the same order
+const recordRedemptions = ({ orderId, paymentId, discountIds, customer }) => {
+  const { email, phone } = normalizeCustomer(customer);
+  const added = [];
+
+  discountIds.forEach(discountId => {
+    const alreadyRecorded = redemptions.some(
+      redemption => redemption.orderId === orderId && redemption.discountId === discountId
+    );
+    if (alreadyRecorded) return;
+
+    const redemption = {
+      discountId,
+      orderId,
+      paymentId,
+      email,
+      phone,
+      redeemedAt: new Date().toISOString()
+    };
+    redemptions.push(redemption);
+    added.push(redemption);
+  });
+
+  if (added.length > 0) {
+    saveRedemptions();
+  }
+
+  return added;
+};
+
+/**
+ * Record the discounts on the order a payment event is for. Square sends payment.updated again after a
+ * cancellation or refund, so those events don't count - the order's uses were already given back.
+ */
+const recordPaymentRedemptions = ({ order, payment, discountIds }) => {
+  if (order.state === 'CANCELED' || payment.refunded_money?.amount > 0) {
+    return [];
+  }
+
+  return recordRedemptions({
+    orderId: payment.order_id,
+    paymentId: payment.id,
+    discountIds,
+    customer: {
+      email: order.metadata?.customer_email || payment.buyer_email_address,
+      phone: order.metadata?.customer_phone
+    }
+  });
+};
+
+// A cancelled or fully refunded order no longer counts against its discounts' limits
+const removeRedemptions = (orderId) => {
+  const remaining = redemptions.filter(redemption => redemption.orderId !== orderId);
+  const removed = redemptions.length - remaining.length;
+
+  if (removed > 0) {
+    redemptions = remaining;
+    saveRedemptions();
+  }
+
+  return removed;
+};
+
+loadRedemptions();
+
+module.exports = {
+  getDiscountUsage,
+  recordRedemptions,
+  recordPaymentRedemptions,
+  removeRedemptions
+};
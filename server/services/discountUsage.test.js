@@ -0,0 +1,78 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discount-usage-test-'));
+process.env.DATA_DIR = dataDir;
+
+const {
+  getDiscountUsage,
+  recordRedemptions,
+  recordPaymentRedemptions,
+  removeRedemptions
+} = require('./discountUsage');
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('discount usage', () => {
+  const customer = { email: 'Pat@Example.com', phone: '(816) 555-0100' };
+
+  afterEach(() => {
+    ['ORDER_1', 'ORDER_2', 'ORDER_3'].forEach(removeRedemptions);
+  });
+
+  it('counts uses overall and for the customer by email or phone', () => {
+    recordRedemptions({ orderId: 'ORDER_1', paymentId: 'PAYMENT_1', discountIds: ['WELCOME'], customer });
+    recordRedemptions({ orderId: 'ORDER_2', paymentId: 'PAYMENT_2', discountIds: ['WELCOME'], customer: { phone: '+1 816 555 0100' } });
+    recordRedemptions({ orderId: 'ORDER_3', paymentId: 'PAYMENT_3', discountIds: ['WELCOME'], customer: { email: 'sam@example.com' } });
+
+    expect(getDiscountUsage('WELCOME', { email: ' pat@example.com ' })).toEqual({ total: 3, customer: 1 });
+    expect(getDiscountUsage('WELCOME', customer)).toEqual({ total: 3, customer: 2 });
+    expect(getDiscountUsage('OTHER', customer)).toEqual({ total: 0, customer: 0 });
+  });
+
+  it('records an order once however many times its payment is reported', () => {
+    const redemption = { orderId: 'ORDER_1', paymentId: 'PAYMENT_1', discountIds: ['WELCOME'], customer };
+
+    expect(recordRedemptions(redemption)).toHaveLength(1);
+    expect(recordRedemptions(redemption)).toEqual([]);
+    expect(getDiscountUsage('WELCOME', customer)).toEqual({ total: 1, customer: 1 });
+  });
+
+  it('persists redemptions to DATA_DIR', () => {
+    recordRedemptions({ orderId: 'ORDER_1', paymentId: 'PAYMENT_1', discountIds: ['WELCOME'], customer });
+
+    const saved = JSON.parse(fs.readFileSync(path.join(dataDir, 'discount-redemptions.json'), 'utf8'));
+    expect(saved.redemptions).toEqual([expect.objectContaining({ discountId: 'WELCOME', orderId: 'ORDER_1', phone: '8165550100' })]);
+  });
+
+  describe('recordPaymentRedemptions', () => {
+    const order = { id: 'ORDER_1', state: 'OPEN', metadata: { customer_email: 'pat@example.com', customer_phone: '8165550100' } };
+    const payment = { id: 'PAYMENT_1', order_id: 'ORDER_1', status: 'COMPLETED' };
+
+    it("takes the customer from the order's contact details", () => {
+      expect(recordPaymentRedemptions({ order, payment, discountIds: ['WELCOME'] })).toHaveLength(1);
+      expect(getDiscountUsage('WELCOME', { phone: '816-555-0100' }).customer).toBe(1);
+    });
+
+    it('gives a cancelled order its use back when the payment event is replayed', () => {
+      recordPaymentRedemptions({ order, payment, discountIds: ['WELCOME'] });
+
+      // Cancelling releases the order's holds, then Square reports the payment again
+      removeRedemptions('ORDER_1');
+      const replayed = recordPaymentRedemptions({ order: { ...order, state: 'CANCELED' }, payment, discountIds: ['WELCOME'] });
+
+      expect(replayed).toEqual([]);
+      expect(getDiscountUsage('WELCOME', order.metadata)).toEqual({ total: 0, customer: 0 });
+    });
+
+    it("doesn't count a refunded payment", () => {
+      const refunded = { ...payment, refunded_money: { amount: 1200, currency: 'USD' } };
+
+      expect(recordPaymentRedemptions({ order, payment: refunded, discountIds: ['WELCOME'] })).toEqual([]);
+      expect(getDiscountUsage('WELCOME', order.metadata).total).toBe(0);
+    });
+  });
+});
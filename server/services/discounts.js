@@ -0,0 +1,310 @@
+// Server-side discount rules
+// Codes and their restrictions live in config/discount-rules.json; the amount itself
+// comes from the linked Square catalog discount when squareDiscountId is set.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { getZonedDateParts, timeToMinutes } = require('./time');
+const { REWARD_TYPES, calculateDiscountAmount } = require('./discountEngine');
+
+const RULES_PATH = process.env.DISCOUNT_RULES_PATH || path.join(__dirname, '..', 'config', 'discount-rules.json');
+
+const loadDiscountRules = () => {
+  const data = readConfigFile(RULES_PATH, 'discount rules');
+  return Array.isArray(data.discounts) ? data.discounts : [];
+};
+
+// Look up by coupon code (case-insensitive) or, for automatic discounts, by rule/Square ID
+const findDiscountRule = (rules, codeOrId) => {
+  if (!codeOrId) return undefined;
+  const lookup = String(codeOrId).toLowerCase();
+
+  return rules.find(rule =>
+    rule.code?.toLowerCase() === lookup ||
+    rule.id?.toLowerCase() === lookup ||
+    (rule.squareDiscountId && rule.squareDiscountId.toLowerCase() === lookup)
+  );
+};
+
+const isRewardRule = (rule) => REWARD_TYPES.includes(rule.type);
+
+// Reward savings are spread over the order, so only plain discounts can be line-item scoped
+const getDiscountScope = (rule) => (rule.scope === 'LINE_ITEM' && !isRewardRule(rule) ? 'LINE_ITEM' : 'ORDER');
+
+// Square catalog discount data wins over the rule file for type and value
+// (reward rules are always computed from the rule file)
+const getDiscountAmountDefinition = (rule, squareDiscount) => {
+  const discountData = isRewardRule(rule) ? null : squareDiscount?.discount_data;
+
+  if (discountData?.percentage) {
+    return { type: 'percentage', value: parseFloat(discountData.percentage) };
+  }
+  if (discountData?.amount_money) {
+    return { type: 'fixed_amount', value: discountData.amount_money.amount };
+  }
+
+  return { type: rule.type, value: rule.value };
+};
+
+const getMaxDiscountAmount = (rule, squareDiscount) => {
+  return squareDiscount?.discount_data?.maximum_amount_money?.amount || rule.maxDiscountAmount;
+};
+
+// Cart lines this discount can apply to (all lines when no product/category restriction)
+const getEligibleItems = (rule, pricedItems) => {
+  const productIds = [
+    ...(rule.applicableProducts || []),
+    ...(rule.conditions?.applicableItemIds || [])
+  ];
+  const categoryIds = [
+    ...(rule.applicableCategories || []),
+    ...(rule.conditions?.applicableCategoryIds || [])
+  ];
+
+  if (productIds.length === 0 && categoryIds.length === 0) {
+    return pricedItems;
+  }
+
+  return pricedItems.filter(priced =>
+    productIds.includes(priced.squareItemId) ||
+    priced.categoryIds.some(categoryId => categoryIds.includes(categoryId))
+  );
+};
+
+const checkTimeRestrictions = (timeRestrictions, now, timeZone) => {
+  const { dayOfWeek, minutes } = getZonedDateParts(now, timeZone);
+
+  if (timeRestrictions.dayOfWeek && !timeRestrictions.dayOfWeek.includes(dayOfWeek)) {
+    return 'Discount not available on this day';
+  }
+
+  if (timeRestrictions.startTime && timeRestrictions.endTime) {
+    const start = timeToMinutes(timeRestrictions.startTime);
+    const end = timeToMinutes(timeRestrictions.endTime);
+    if (minutes < start || minutes > end) {
+      return 'Discount not available at this time';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check a discount rule against a catalog-priced cart
+ * @returns {{ isValid: boolean, error?: string, appliedAmountCents?: number, eligibleItems?: object[], orderLevel?: boolean, claims?: object[] }}
+ */
+const evaluateDiscountRule = (rule, { pricedItems, squareDiscount, usage = { total: 0, customer: 0 }, now = new Date(), timeZone }) => {
+  if (!rule.isActive) {
+    return { isValid: false, error: 'Invalid discount code' };
+  }
+
+  if (squareDiscount && squareDiscount.is_deleted) {
+    return { isValid: false, error: 'Invalid discount code' };
+  }
+
+  if (rule.validFrom && now < new Date(rule.validFrom)) {
+    return { isValid: false, error: 'Discount code is not active yet' };
+  }
+
+  if (rule.validUntil && now > new Date(rule.validUntil)) {
+    return { isValid: false, error: 'Discount code has expired' };
+  }
+
+  // usageCount in the rule file covers redemptions from before usage was tracked
+  if (rule.usageLimit && (rule.usageCount || 0) + usage.total >= rule.usageLimit) {
+    return { isValid: false, error: 'Discount code has reached its usage limit' };
+  }
+
+  if (rule.perCustomerLimit && usage.customer >= rule.perCustomerLimit) {
+    return {
+      isValid: false,
+      error: rule.perCustomerLimit === 1
+        ? 'You have already used this discount code'
+        : `This discount code can only be used ${rule.perCustomerLimit} times per customer`
+    };
+  }
+
+  const subtotalCents = pricedItems.reduce((sum, priced) => sum + priced.totalCents, 0);
+  if (rule.minOrderAmount && subtotalCents < rule.minOrderAmount) {
+    return {
+      isValid: false,
+      error: `Minimum order amount of $${(rule.minOrderAmount / 100).toFixed(2)} required`
+    };
+  }
+
+  const minimumQuantity = rule.conditions?.minimumQuantity;
+  if (minimumQuantity) {
+    const totalQuantity = pricedItems.reduce((sum, priced) => sum + priced.quantity, 0);
+    if (totalQuantity < minimumQuantity) {
+      return { isValid: false, error: `Minimum ${minimumQuantity} items required` };
+    }
+  }
+
+  const eligibleItems = getEligibleItems(rule, pricedItems);
+  if (eligibleItems.length === 0) {
+    return { isValid: false, error: 'No eligible items in cart for this discount' };
+  }
+
+  if (rule.conditions?.timeRestrictions) {
+    const timeError = checkTimeRestrictions(rule.conditions.timeRestrictions, now, timeZone);
+    if (timeError) {
+      return { isValid: false, error: timeError };
+    }
+  }
+
+  const { type, value } = getDiscountAmountDefinition(rule, squareDiscount);
+  const { amountCents: appliedAmountCents, orderLevel, claims } = calculateDiscountAmount(
+    {
+      type,
+      value,
+      scope: getDiscountScope(rule),
+      maxDiscountAmount: getMaxDiscountAmount(rule, squareDiscount),
+      reward: rule.reward
+    },
+    { eligibleItems, subtotalCents }
+  );
+
+  if (appliedAmountCents <= 0) {
+    return { isValid: false, error: 'Discount does not apply to this order' };
+  }
+
+  return { isValid: true, appliedAmountCents, eligibleItems, orderLevel, claims };
+};
+
+// Shape a rule like the client's Discount interface
+const toClientDiscount = (rule, squareDiscount, usage = { total: 0 }) => {
+  const { type, value } = getDiscountAmountDefinition(rule, squareDiscount);
+
+  return {
+    id: rule.id,
+    code: rule.code,
+    name: rule.name || squareDiscount?.discount_data?.name || 'Discount',
+    description: rule.description || '',
+    type,
+    value,
+    minOrderAmount: rule.minOrderAmount,
+    maxDiscountAmount: getMaxDiscountAmount(rule, squareDiscount),
+    validFrom: rule.validFrom,
+    validUntil: rule.validUntil,
+    usageLimit: rule.usageLimit,
+    usageCount: (rule.usageCount || 0) + usage.total,
+    perCustomerLimit: rule.perCustomerLimit,
+    isActive: rule.isActive,
+    applicableCategories: rule.applicableCategories,
+    applicableProducts: rule.applicableProducts,
+    squareDiscountId: rule.squareDiscountId || undefined,
+    squareDiscountType: squareDiscount?.discount_data?.discount_type,
+    scope: getDiscountScope(rule),
+    conditions: rule.conditions,
+    reward: rule.reward,
+    isAutomatic: Boolean(rule.automatic),
+    stacking: rule.stacking,
+    createdAt: squareDiscount?.created_at || rule.validFrom,
+    updatedAt: squareDiscount?.updated_at || rule.validFrom
+  };
+};
+
+// Square order discount for a validated rule - catalog-referenced whenever possible
+// so Square applies, enforces and reports it under the catalog discount.
+// LINE_ITEM discounts only take effect on lines that list them in applied_discounts.
+const buildOrderDiscount = (rule, squareDiscount, appliedAmountCents) => {
+  const uid = `discount-${rule.id}`;
+  const scope = getDiscountScope(rule);
+  const { type, value } = getDiscountAmountDefinition(rule, squareDiscount);
+  // A line-item fixed amount is charged per line, an order one is the total
+  const amountCents = scope === 'LINE_ITEM' ? value : appliedAmountCents;
+  const maxDiscountAmount = getMaxDiscountAmount(rule, squareDiscount);
+  const isCappedPercentage = type === 'percentage' && Boolean(maxDiscountAmount) && appliedAmountCents >= maxDiscountAmount;
+
+  // Reward savings are already worked out per cart, and a capped percentage would lose its cap if sent as a
+  // percentage, so both go in as the order-level amount the server worked out
+  if (isRewardRule(rule) || isCappedPercentage) {
+    return {
+      uid,
+      name: rule.name || squareDiscount?.discount_data?.name,
+      amount_money: { amount: appliedAmountCents, currency: 'USD' },
+      scope: 'ORDER'
+    };
+  }
+
+  if (rule.squareDiscountId && squareDiscount) {
+    const orderDiscount = {
+      uid,
+      catalog_object_id: rule.squareDiscountId,
+      scope
+    };
+
+    // Variable catalog discounts need the amount supplied at order time
+    const discountType = squareDiscount.discount_data?.discount_type;
+    if (discountType === 'VARIABLE_PERCENTAGE') {
+      orderDiscount.percentage = String(rule.value);
+    } else if (discountType === 'VARIABLE_AMOUNT') {
+      orderDiscount.amount_money = { amount: amountCents, currency: 'USD' };
+    }
+
+    return orderDiscount;
+  }
+
+  // Rule-only discounts (no catalog object) use the server-computed values
+  return {
+    uid,
+    name: rule.name,
+    ...(rule.type === 'percentage'
+      ? { percentage: String(rule.value) }
+      : { amount_money: { amount: amountCents, currency: 'USD' } }),
+    scope
+  };
+};
+
+// Rule IDs behind the discounts on a Square order - matched by the uid checkout assigns
+// (discount-<rule id>, or the bare rule id for client-built orders) or the catalog discount
+const findRedeemedRuleIds = (rules, orderDiscounts = []) => {
+  const ruleIds = new Set();
+
+  orderDiscounts.forEach(orderDiscount => {
+    const uidRuleId = orderDiscount.uid?.replace(/^discount-/, '');
+    const rule = rules.find(candidate =>
+      candidate.id === uidRuleId ||
+      (candidate.squareDiscountId && candidate.squareDiscountId === orderDiscount.catalog_object_id)
+    );
+    if (rule) ruleIds.add(rule.id);
+  });
+
+  return [...ruleIds];
+};
+
+// Evaluated rule in the shape the discount engine's stacking resolver works with
+const toDiscountCandidate = (result) => ({
+  ...result,
+  amountCents: result.appliedAmountCents,
+  name: result.rule.name,
+  automatic: Boolean(result.rule.automatic),
+  stacking: result.rule.stacking || {}
+});
+
+// Reference LINE_ITEM discounts from the cart lines they qualified
+const applyLineItemDiscounts = (lineItems, pricedItems, appliedDiscounts) => {
+  appliedDiscounts
+    .filter(({ orderDiscount }) => orderDiscount.scope === 'LINE_ITEM')
+    .forEach(({ orderDiscount, eligibleItems }) => {
+      eligibleItems.forEach(eligible => {
+        const lineItem = lineItems[pricedItems.indexOf(eligible)];
+        lineItem.applied_discounts = [
+          ...(lineItem.applied_discounts || []),
+          { discount_uid: orderDiscount.uid }
+        ];
+      });
+    });
+
+  return lineItems;
+};
+
+module.exports = {
+  loadDiscountRules,
+  findDiscountRule,
+  evaluateDiscountRule,
+  toClientDiscount,
+  buildOrderDiscount,
+  toDiscountCandidate,
+  applyLineItemDiscounts,
+  findRedeemedRuleIds
+};
@@ -0,0 +1,153 @@
+const { evaluateDiscountRule, buildOrderDiscount, applyLineItemDiscounts } = require('./discounts');
+
+const priced = (squareItemId, unitPriceCents, quantity = 1, categoryIds = []) => ({
+  squareItemId,
+  categoryIds,
+  unitPriceCents,
+  quantity,
+  totalCents: unitPriceCents * quantity
+});
+
+const rule = (overrides = {}) => ({ id: 'SAVE20', name: '20% off', type: 'percentage', value: 20, isActive: true, ...overrides });
+
+describe('buildOrderDiscount', () => {
+  it('sends an uncapped percentage as a percentage', () => {
+    expect(buildOrderDiscount(rule({ maxDiscountAmount: 1000 }), undefined, 400)).toEqual({
+      uid: 'discount-SAVE20',
+      name: '20% off',
+      percentage: '20',
+      scope: 'ORDER'
+    });
+  });
+
+  it('sends a percentage held to its cap as the capped amount', () => {
+    const capped = rule({ maxDiscountAmount: 500 });
+    const { appliedAmountCents } = evaluateDiscountRule(capped, { pricedItems: [priced('SANDWICH', 4000)] });
+
+    expect(appliedAmountCents).toBe(500);
+    expect(buildOrderDiscount(capped, undefined, appliedAmountCents)).toEqual({
+      uid: 'discount-SAVE20',
+      name: '20% off',
+      amount_money: { amount: 500, currency: 'USD' },
+      scope: 'ORDER'
+    });
+  });
+
+  it('sends a capped line-item percentage as one order-level amount so it is not taken off every line', () => {
+    const orderDiscount = buildOrderDiscount(rule({ scope: 'LINE_ITEM', maxDiscountAmount: 500 }), undefined, 500);
+
+    expect(orderDiscount.amount_money).toEqual({ amount: 500, currency: 'USD' });
+    expect(orderDiscount.scope).toBe('ORDER');
+  });
+
+  it('caps a variable catalog percentage instead of sending the bare percentage', () => {
+    const squareDiscount = { discount_data: { name: 'Staff', discount_type: 'VARIABLE_PERCENTAGE' } };
+    const catalogRule = rule({ name: undefined, squareDiscountId: 'CATALOG_1', maxDiscountAmount: 500 });
+
+    expect(buildOrderDiscount(catalogRule, squareDiscount, 400)).toEqual({
+      uid: 'discount-SAVE20',
+      catalog_object_id: 'CATALOG_1',
+      scope: 'ORDER',
+      percentage: '20'
+    });
+    expect(buildOrderDiscount(catalogRule, squareDiscount, 500)).toEqual({
+      uid: 'discount-SAVE20',
+      name: 'Staff',
+      amount_money: { amount: 500, currency: 'USD' },
+      scope: 'ORDER'
+    });
+  });
+});
+
+describe('evaluateDiscountRule', () => {
+  describe('usage limits', () => {
+    const pricedItems = [priced('SANDWICH', 1000)];
+
+    it('stops a code once its uses, including ones from before tracking, reach the limit', () => {
+      const limited = rule({ usageLimit: 10, usageCount: 4 });
+
+      expect(evaluateDiscountRule(limited, { pricedItems, usage: { total: 5, customer: 0 } }).isValid).toBe(true);
+      expect(evaluateDiscountRule(limited, { pricedItems, usage: { total: 6, customer: 0 } })).toEqual({
+        isValid: false,
+        error: 'Discount code has reached its usage limit'
+      });
+    });
+
+    it('stops a customer once they have used it as often as allowed', () => {
+      const oncePerCustomer = rule({ perCustomerLimit: 1 });
+      const twicePerCustomer = rule({ perCustomerLimit: 2 });
+
+      expect(evaluateDiscountRule(oncePerCustomer, { pricedItems, usage: { total: 3, customer: 0 } }).isValid).toBe(true);
+      expect(evaluateDiscountRule(oncePerCustomer, { pricedItems, usage: { total: 3, customer: 1 } }).error)
+        .toBe('You have already used this discount code');
+      expect(evaluateDiscountRule(twicePerCustomer, { pricedItems, usage: { total: 3, customer: 2 } }).error)
+        .toBe('This discount code can only be used 2 times per customer');
+    });
+
+    it('treats a rule without limits as unlimited', () => {
+      expect(evaluateDiscountRule(rule(), { pricedItems, usage: { total: 500, customer: 50 } }).isValid).toBe(true);
+    });
+  });
+
+  describe('time restrictions', () => {
+    const lunch = rule({ conditions: { timeRestrictions: { startTime: '11:00', endTime: '14:00' } } });
+    // 12:30 in Kansas City, 10:30 in Los Angeles
+    const now = new Date('2026-10-19T17:30:00Z');
+
+    it("reads the window on the store's clock", () => {
+      const pricedItems = [priced('SANDWICH', 1000)];
+
+      expect(evaluateDiscountRule(lunch, { pricedItems, now, timeZone: 'America/Chicago' }).isValid).toBe(true);
+      expect(evaluateDiscountRule(lunch, { pricedItems, now, timeZone: 'America/Los_Angeles' })).toEqual({
+        isValid: false,
+        error: 'Discount not available at this time'
+      });
+    });
+  });
+});
+
+describe('line-item discounts', () => {
+  const sandwich = priced('REUBEN', 1200, 1, ['SANDWICHES']);
+  const soup = priced('CHILI', 500, 2, ['SOUPS']);
+  const sandwichesOnly = rule({ scope: 'LINE_ITEM', applicableCategories: ['SANDWICHES'] });
+
+  it('takes the percentage off the qualifying lines only', () => {
+    const result = evaluateDiscountRule(sandwichesOnly, { pricedItems: [sandwich, soup] });
+
+    expect(result.appliedAmountCents).toBe(240);
+    expect(result.eligibleItems).toEqual([sandwich]);
+    expect(result.orderLevel).toBe(false);
+  });
+
+  it('takes a fixed amount off each qualifying line, never more than the line', () => {
+    const dollarOff = rule({ type: 'fixed_amount', value: 100, scope: 'LINE_ITEM', applicableProducts: ['CHILI', 'COOKIE'] });
+    const cookie = priced('COOKIE', 50, 1);
+
+    expect(evaluateDiscountRule(dollarOff, { pricedItems: [sandwich, soup, cookie] }).appliedAmountCents).toBe(150);
+    expect(buildOrderDiscount(dollarOff, undefined, 150).amount_money).toEqual({ amount: 100, currency: 'USD' });
+  });
+
+  it('turns away a cart with nothing the discount covers', () => {
+    expect(evaluateDiscountRule(sandwichesOnly, { pricedItems: [soup] })).toEqual({
+      isValid: false,
+      error: 'No eligible items in cart for this discount'
+    });
+  });
+
+  it('lists the discount on the lines it qualified and leaves the rest alone', () => {
+    const pricedItems = [sandwich, soup];
+    const { eligibleItems } = evaluateDiscountRule(sandwichesOnly, { pricedItems });
+    const orderDiscount = buildOrderDiscount(sandwichesOnly, undefined, 240);
+
+    const lineItems = applyLineItemDiscounts(pricedItems.map(() => ({})), pricedItems, [{ orderDiscount, eligibleItems }]);
+
+    expect(orderDiscount.scope).toBe('LINE_ITEM');
+    expect(lineItems).toEqual([{ applied_discounts: [{ discount_uid: 'discount-SAVE20' }] }, {}]);
+  });
+
+  it('keeps reward discounts at order level', () => {
+    const bogo = rule({ type: 'buy_x_get_y', scope: 'LINE_ITEM', reward: { buyQuantity: 1, getQuantity: 1 } });
+
+    expect(buildOrderDiscount(bogo, undefined, 500).scope).toBe('ORDER');
+  });
+});
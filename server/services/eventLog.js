@@ -0,0 +1,72 @@
+// Local append-only log of processed Square webhook events (JSON lines)
+const fs = require('fs');
+const path = require('path');
+
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+const EVENT_LOG_PATH = path.join(DATA_DIR, 'webhook-events.log');
+const MAX_REMEMBERED_EVENTS = 1000;
+
+// Recently processed event IDs - Square retries deliveries, so we skip duplicates
+const processedEventIds = new Set();
+
+const ensureDataDir = () => {
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+  }
+};
+
+// Seed the duplicate check from the tail of the existing log on startup
+const loadRecentEventIds = () => {
+  try {
+    if (!fs.existsSync(EVENT_LOG_PATH)) return;
+
+    const lines = fs.readFileSync(EVENT_LOG_PATH, 'utf8').trim().split('\n');
+    lines.slice(-MAX_REMEMBERED_EVENTS).forEach(line => {
+      try {
+        const entry = JSON.parse(line);
+        if (entry.eventId) processedEventIds.add(entry.eventId);
+      } catch (parseError) {
+        // Skip malformed lines
+      }
+    });
+  } catch (error) {
+    console.error('Error reading webhook event log:', error);
+  }
+};
+
+const hasProcessedEvent = (eventId) => processedEventIds.has(eventId);
+
+const recordEvent = (event, result = {}) => {
+  const entry = {
+    eventId: event.event_id,
+    type: event.type,
+    merchantId: event.merchant_id,
+    objectId: event.data?.id,
+    createdAt: event.created_at,
+    receivedAt: new Date().toISOString(),
+    ...result
+  };
+
+  processedEventIds.add(entry.eventId);
+  if (processedEventIds.size > MAX_REMEMBERED_EVENTS) {
+    // Sets iterate in insertion order, so the first entry is the oldest
+    processedEventIds.delete(processedEventIds.values().next().value);
+  }
+
+  try {
+    ensureDataDir();
+    fs.appendFileSync(EVENT_LOG_PATH, JSON.stringify(entry) + '\n');
+  } catch (error) {
+    console.error('Error writing webhook event log:', error);
+  }
+
+  return entry;
+};
+
+loadRecentEventIds();
+
+module.exports = {
+  DATA_DIR,
+  hasProcessedEvent,
+  recordEvent
+};
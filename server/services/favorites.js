@@ -0,0 +1,71 @@
+// Saved product builds ("Dad's Reuben") synced from the storefront for signed-in customers
+// The storefront owns the list and sends it whole; this only checks its shape and size before it is stored.
+const { AccountError } = require('./accounts');
+
+const MAX_FAVORITES = 50;
+const MAX_NAME_LENGTH = 60;
+const MAX_INSTRUCTIONS_LENGTH = 500;
+const MAX_OPTION_LENGTH = 100;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const toText = (value, maxLength) => String(value ?? '').trim().slice(0, maxLength);
+
+// selectedVariants: option names keyed by variant ID, one name or a list per variant
+const normalizeSelectedVariants = (selectedVariants) => {
+  if (!selectedVariants || typeof selectedVariants !== 'object' || Array.isArray(selectedVariants)) {
+    return undefined;
+  }
+
+  const normalized = {};
+  Object.entries(selectedVariants).forEach(([variantId, value]) => {
+    if (!ID_PATTERN.test(variantId)) {
+      throw new AccountError('Invalid favorite options');
+    }
+    normalized[variantId] = Array.isArray(value)
+      ? value.slice(0, 50).map(name => toText(name, MAX_OPTION_LENGTH))
+      : toText(value, MAX_OPTION_LENGTH);
+  });
+  return normalized;
+};
+
+const normalizeFavorite = (favorite) => {
+  if (!favorite || !ID_PATTERN.test(favorite.id) || !ID_PATTERN.test(favorite.productId)) {
+    throw new AccountError('Invalid favorite');
+  }
+
+  const name = toText(favorite.name, MAX_NAME_LENGTH);
+  if (!name) {
+    throw new AccountError('Favorites need a name');
+  }
+
+  const quantity = parseInt(favorite.quantity, 10);
+  const now = new Date().toISOString();
+
+  return {
+    id: favorite.id,
+    name,
+    productId: favorite.productId,
+    productName: toText(favorite.productName, 120),
+    quantity: Number.isInteger(quantity) && quantity >= 1 && quantity <= 99 ? quantity : 1,
+    selectedVariants: normalizeSelectedVariants(favorite.selectedVariants),
+    specialInstructions: toText(favorite.specialInstructions, MAX_INSTRUCTIONS_LENGTH) || undefined,
+    createdAt: Number.isNaN(Date.parse(favorite.createdAt)) ? now : favorite.createdAt,
+    updatedAt: Number.isNaN(Date.parse(favorite.updatedAt)) ? now : favorite.updatedAt
+  };
+};
+
+const normalizeFavorites = (favorites) => {
+  if (!Array.isArray(favorites)) {
+    throw new AccountError('Favorites must be a list');
+  }
+  if (favorites.length > MAX_FAVORITES) {
+    throw new AccountError(`You can save up to ${MAX_FAVORITES} favorites`, { maxFavorites: MAX_FAVORITES });
+  }
+  return favorites.map(normalizeFavorite);
+};
+
+module.exports = {
+  MAX_FAVORITES,
+  normalizeFavorites
+};
@@ -0,0 +1,140 @@
+// Fulfillment details for Square orders (in-store, curbside and delivery)
+const { ServiceError } = require('./common');
+const { toZonedTimestamp } = require('./time');
+
+class FulfillmentError extends ServiceError {}
+
+// Each vehicle field is short free text; Square caps curbside_details at 250 characters
+const MAX_CURBSIDE_FIELD_LENGTH = 50;
+
+const FINAL_FULFILLMENT_STATES = ['COMPLETED', 'CANCELED', 'FAILED'];
+
+const cleanField = (value) => String(value || '').trim().slice(0, MAX_CURBSIDE_FIELD_LENGTH);
+
+// "Blue Honda Civic, parking spot 3" - what staff read when running the order out
+const formatCurbsideDetails = (curbside = {}) => {
+  const vehicleMake = cleanField(curbside.vehicleMake);
+  const vehicleColor = cleanField(curbside.vehicleColor);
+  const parkingSpot = cleanField(curbside.parkingSpot);
+
+  if (!vehicleMake || !vehicleColor) {
+    throw new FulfillmentError('Vehicle make and color are required for curbside pickup');
+  }
+
+  return [`${vehicleColor} ${vehicleMake}`, parkingSpot && `parking spot ${parkingSpot}`]
+    .filter(Boolean)
+    .join(', ');
+};
+
+// Extra pickup_details fields for a curbside order
+const buildCurbsidePickupDetails = (curbside) => ({
+  is_curbside_pickup: true,
+  curbside_pickup_details: {
+    curbside_details: formatCurbsideDetails(curbside)
+  }
+});
+
+// delivery_details for a DELIVERY fulfillment; the address has been checked by validateDeliveryOrder
+const buildDeliveryDetails = ({ customer = {}, address, deliverAt, note }) => ({
+  recipient: {
+    display_name: customer.name || 'Customer',
+    ...(customer.phone && { phone_number: String(customer.phone) }),
+    ...(customer.email && { email_address: String(customer.email) }),
+    address: {
+      address_line_1: String(address.street).trim(),
+      ...(address.unit && { address_line_2: String(address.unit).trim() }),
+      locality: String(address.city).trim(),
+      ...(address.state && { administrative_district_level_1: String(address.state).trim() }),
+      postal_code: String(address.zipCode).trim(),
+      country: 'US'
+    }
+  },
+  schedule_type: 'SCHEDULED',
+  deliver_at: deliverAt,
+  ...(note && { note: String(note).slice(0, 550) })
+});
+
+// Pickup/delivery date ("YYYY-MM-DD") and time ("HH:MM") from the client as a timestamp in the
+// location's time zone (STORE_TIMEZONE when not given)
+const toScheduledTimestamp = (date, time, timeZone) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(date)) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(time))) {
+    throw new FulfillmentError('Invalid pickup date or time');
+  }
+  return toZonedTimestamp(date, time, timeZone);
+};
+
+/**
+ * The single fulfillment on an online order - a scheduled PICKUP (optionally curbside) or DELIVERY
+ * @param {{ isDelivery: boolean, customer?: object, scheduledAt: string, deliveryAddress?: object,
+ *   curbsidePickupDetails?: object, note: string }} options
+ */
+const buildOrderFulfillment = ({ isDelivery, customer, scheduledAt, deliveryAddress, curbsidePickupDetails, note }) => {
+  if (isDelivery) {
+    return {
+      type: 'DELIVERY',
+      state: 'PROPOSED',
+      delivery_details: buildDeliveryDetails({
+        customer,
+        address: deliveryAddress,
+        deliverAt: scheduledAt,
+        note
+      })
+    };
+  }
+
+  return {
+    type: 'PICKUP',
+    state: 'PROPOSED',
+    pickup_details: {
+      recipient: {
+        display_name: customer?.name || 'Customer'
+      },
+      pickup_at: scheduledAt,
+      ...curbsidePickupDetails,
+      note: curbsidePickupDetails ? `Curbside pickup - ${note}` : note
+    }
+  };
+};
+
+/**
+ * Fulfillment update for a customer checking in at the curb
+ * Stamps buyer_arrived_at and puts the arrival at the front of the note so it shows on the ticket.
+ */
+const buildArrivalUpdate = (order, arrivedAt = new Date()) => {
+  const fulfillment = (order.fulfillments || []).find(
+    candidate => candidate.type === 'PICKUP' && candidate.pickup_details?.is_curbside_pickup
+  );
+
+  if (!fulfillment) {
+    throw new FulfillmentError('This order is not a curbside pickup');
+  }
+
+  if (order.state !== 'OPEN' || FINAL_FULFILLMENT_STATES.includes(fulfillment.state)) {
+    throw new FulfillmentError('This order has already been completed');
+  }
+
+  const pickupDetails = fulfillment.pickup_details;
+  const curbsideDetails = pickupDetails.curbside_pickup_details?.curbside_details;
+  const arrivalNote = `CUSTOMER HAS ARRIVED${curbsideDetails ? ` - ${curbsideDetails}` : ''}`;
+  const existingNote = (pickupDetails.note || '').replace(/^CUSTOMER HAS ARRIVED[^\n]*\n?/, '');
+
+  return {
+    uid: fulfillment.uid,
+    pickup_details: {
+      note: [arrivalNote, existingNote].filter(Boolean).join('\n').slice(0, 500),
+      curbside_pickup_details: {
+        ...pickupDetails.curbside_pickup_details,
+        buyer_arrived_at: arrivedAt.toISOString()
+      }
+    }
+  };
+};
+
+module.exports = {
+  FulfillmentError,
+  buildCurbsidePickupDetails,
+  buildDeliveryDetails,
+  toScheduledTimestamp,
+  buildOrderFulfillment,
+  buildArrivalUpdate
+};
@@ -0,0 +1,199 @@
+// Square gift cards - balance checks, paying with a gift card (alone or with a card) and selling digital gift cards
+// Redemption goes through the Gift Card Activities API by card number, and the amount is recorded on the order
+// as an external stored-balance payment, so one order can be paid partly by gift card and partly by card.
+// createGiftCardClient wraps those calls around a request function (makeSquareRequest in the server), so tests
+// can hand it a stub instead of calling Square.
+const { ServiceError } = require('./common');
+
+const MIN_PURCHASE_CENTS = 1000;
+const MAX_PURCHASE_CENTS = 50000;
+const MAX_MESSAGE_LENGTH = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class GiftCardError extends ServiceError {}
+
+const formatCents = (cents) => `$${(cents / 100).toFixed(2)}`;
+
+// Gift card numbers (GANs) are printed in groups, so spaces and dashes are dropped
+const normalizeGan = (gan) => {
+  const normalized = String(gan || '').replace(/[\s-]/g, '');
+  if (!/^[A-Za-z0-9]{8,20}$/.test(normalized)) {
+    throw new GiftCardError('Please enter a valid gift card number');
+  }
+  return normalized;
+};
+
+const toClientGiftCard = (giftCard) => ({
+  last4: String(giftCard.gan || '').slice(-4),
+  balance: (giftCard.balance_money?.amount || 0) / 100,
+  state: giftCard.state
+});
+
+/**
+ * Split an order total and tip (cents) between a gift card balance and a card
+ * The gift card takes the tip first so that any card payment includes part of the order - Square payments need a
+ * non-zero amount - unless that would leave the gift card paying only tip.
+ */
+const splitTender = (amountCents, tipCents, balanceCents) => {
+  let giftTipCents = Math.min(balanceCents, tipCents);
+  let giftAmountCents = Math.min(balanceCents - giftTipCents, amountCents);
+  if (giftAmountCents === 0) {
+    giftAmountCents = Math.min(balanceCents, amountCents);
+    giftTipCents = 0;
+  }
+
+  const card = { amountCents: amountCents - giftAmountCents, tipCents: tipCents - giftTipCents };
+  if (card.amountCents === 0 && card.tipCents > 0) {
+    throw new GiftCardError(
+      `Your gift card covers the order but not the full tip. Lower the tip to ${formatCents(balanceCents - amountCents)} or pay without the gift card.`
+    );
+  }
+
+  return {
+    giftCard: { amountCents: giftAmountCents, tipCents: giftTipCents },
+    card
+  };
+};
+
+// Checks the details for a digital gift card purchase; amount is in dollars
+const validateGiftCardPurchase = ({ amount, recipientEmail, recipientName, senderName, message }) => {
+  const amountCents = Math.round(Number(amount) * 100);
+  if (!Number.isInteger(amountCents) || amountCents < MIN_PURCHASE_CENTS || amountCents > MAX_PURCHASE_CENTS) {
+    throw new GiftCardError(`Gift cards can be from ${formatCents(MIN_PURCHASE_CENTS)} to ${formatCents(MAX_PURCHASE_CENTS)}`);
+  }
+
+  const email = String(recipientEmail || '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email) || email.length > 255) {
+    throw new GiftCardError("Please enter the recipient's email address");
+  }
+
+  return {
+    amountCents,
+    recipientEmail: email,
+    recipientName: String(recipientName || '').trim().slice(0, 100),
+    senderName: String(senderName || '').trim().slice(0, 100),
+    message: String(message || '').trim().slice(0, MAX_MESSAGE_LENGTH)
+  };
+};
+
+// Email that delivers a purchased gift card to its recipient
+const buildGiftCardEmail = ({ gan, amountCents, recipientName, senderName, message }) => ({
+  subject: `${senderName || 'Someone'} sent you a ${formatCents(amountCents)} Fetterman's gift card`,
+  text: [
+    `Hi${recipientName ? ` ${recipientName}` : ''},`,
+    '',
+    `${senderName || 'Someone'} sent you a ${formatCents(amountCents)} Fetterman's gift card.`,
+    ...(message ? ['', `"${message}"`] : []),
+    '',
+    `Gift card number: ${gan}`,
+    '',
+    'Enter this number at checkout on our website, or show it at the counter.'
+  ].join('\n')
+});
+
+/**
+ * Gift Cards API calls, made through `squareRequest(endpoint, { method, body, skipCache })`
+ */
+const createGiftCardClient = (squareRequest) => {
+  const post = (endpoint, body) => squareRequest(endpoint, {
+    method: 'POST',
+    skipCache: true,
+    body: JSON.stringify(body)
+  });
+
+  const createActivity = async (activity, idempotencyKey) => {
+    const { gift_card_activity: created } = await post('/gift-cards/activities', {
+      idempotency_key: idempotencyKey,
+      gift_card_activity: activity
+    });
+    return created;
+  };
+
+  // Balances change with every purchase, so this always goes to Square
+  const getByGan = async (gan) => {
+    try {
+      const { gift_card: giftCard } = await post('/gift-cards/from-gan', { gan: normalizeGan(gan) });
+      return giftCard;
+    } catch (error) {
+      if (/not found/i.test(error.message)) {
+        throw new GiftCardError("We couldn't find that gift card. Please check the number.");
+      }
+      throw error;
+    }
+  };
+
+  const redeem = ({ gan, amountCents, locationId, attemptKey }) => createActivity({
+    type: 'REDEEM',
+    location_id: locationId,
+    gift_card_gan: gan,
+    redeem_activity_details: {
+      amount_money: { amount: amountCents, currency: 'USD' }
+    }
+  }, `gift-card-redeem-${attemptKey}`);
+
+  // Puts a redemption back on the card when the rest of the payment fails
+  const refundRedemption = ({ gan, redeemActivityId, amountCents, locationId, attemptKey }) => createActivity({
+    type: 'REFUND',
+    location_id: locationId,
+    gift_card_gan: gan,
+    refund_activity_details: {
+      redeem_activity_id: redeemActivityId,
+      amount_money: { amount: amountCents, currency: 'USD' }
+    }
+  }, `gift-card-refund-${attemptKey}`);
+
+  // Puts a refunded gift card payment back on the card. Those payments are recorded on the order as external
+  // payments, so refunding them through Square doesn't touch the card balance on its own.
+  const restoreBalance = ({ giftCardId, amountCents, locationId, refundId }) => createActivity({
+    type: 'ADJUST_INCREMENT',
+    location_id: locationId,
+    gift_card_id: giftCardId,
+    adjust_increment_activity_details: {
+      amount_money: { amount: amountCents, currency: 'USD' },
+      reason: 'TRANSACTION_VOIDED'
+    }
+  }, `gift-card-restore-${refundId}`);
+
+  // Keyed to the order line, so webhook retries return the same card instead of issuing another
+  const createDigitalGiftCard = async ({ locationId, orderId, lineItemUid }) => {
+    const { gift_card: giftCard } = await post('/gift-cards', {
+      idempotency_key: `gift-card-${orderId}-${lineItemUid}`,
+      location_id: locationId,
+      gift_card: { type: 'DIGITAL' }
+    });
+    return giftCard;
+  };
+
+  // Loads the card with the amount paid for its order line
+  const activateForOrderLine = ({ giftCardId, locationId, orderId, lineItemUid }) => createActivity({
+    type: 'ACTIVATE',
+    location_id: locationId,
+    gift_card_id: giftCardId,
+    activate_activity_details: {
+      order_id: orderId,
+      line_item_uid: lineItemUid
+    }
+  }, `gift-card-activate-${orderId}-${lineItemUid}`);
+
+  return {
+    getByGan,
+    redeem,
+    refundRedemption,
+    restoreBalance,
+    createDigitalGiftCard,
+    activateForOrderLine
+  };
+};
+
+module.exports = {
+  MIN_PURCHASE_CENTS,
+  MAX_PURCHASE_CENTS,
+  GiftCardError,
+  normalizeGan,
+  toClientGiftCard,
+  splitTender,
+  validateGiftCardPurchase,
+  buildGiftCardEmail,
+  createGiftCardClient
+};
@@ -0,0 +1,70 @@
+const { GiftCardError, createGiftCardClient } = require('./giftCards');
+const { stubSquare, sentBody } = require('../test/squareStub');
+
+describe('createGiftCardClient', () => {
+  describe('getByGan', () => {
+    it('looks the card up by its number without spaces or dashes', async () => {
+      const giftCard = { id: 'GIFT_1', gan: '7783320001234567' };
+      const squareRequest = stubSquare({ '/gift-cards/from-gan': { gift_card: giftCard } });
+
+      await expect(createGiftCardClient(squareRequest).getByGan('7783 3200-0123 4567')).resolves.toEqual(giftCard);
+      expect(sentBody(squareRequest, '/gift-cards/from-gan')).toEqual({ gan: '7783320001234567' });
+      expect(squareRequest.mock.calls[0][1]).toMatchObject({ method: 'POST', skipCache: true });
+    });
+
+    it("explains a card Square can't find", async () => {
+      const client = createGiftCardClient(stubSquare({ '/gift-cards/from-gan': new Error('Gift card not found') }));
+
+      await expect(client.getByGan('7783320001234567')).rejects.toThrow(GiftCardError);
+    });
+
+    it('passes other Square errors through', async () => {
+      const client = createGiftCardClient(stubSquare({ '/gift-cards/from-gan': new Error('Service unavailable') }));
+
+      await expect(client.getByGan('7783320001234567')).rejects.toThrow('Service unavailable');
+    });
+  });
+
+  it('redeems and refunds with keys tied to the checkout attempt', async () => {
+    const squareRequest = stubSquare({ '/gift-cards/activities': { gift_card_activity: { id: 'ACTIVITY_1' } } });
+    const client = createGiftCardClient(squareRequest);
+
+    await expect(client.redeem({ gan: '7783320001234567', amountCents: 2500, locationId: 'LOCATION_1', attemptKey: 'attempt-1' }))
+      .resolves.toEqual({ id: 'ACTIVITY_1' });
+    await client.refundRedemption({
+      gan: '7783320001234567',
+      redeemActivityId: 'ACTIVITY_1',
+      amountCents: 2500,
+      locationId: 'LOCATION_1',
+      attemptKey: 'attempt-1'
+    });
+
+    const [redeem, refund] = squareRequest.mock.calls.map(([, options]) => JSON.parse(options.body));
+    expect(redeem).toEqual({
+      idempotency_key: 'gift-card-redeem-attempt-1',
+      gift_card_activity: {
+        type: 'REDEEM',
+        location_id: 'LOCATION_1',
+        gift_card_gan: '7783320001234567',
+        redeem_activity_details: { amount_money: { amount: 2500, currency: 'USD' } }
+      }
+    });
+    expect(refund.idempotency_key).toBe('gift-card-refund-attempt-1');
+    expect(refund.gift_card_activity.refund_activity_details).toEqual({
+      redeem_activity_id: 'ACTIVITY_1',
+      amount_money: { amount: 2500, currency: 'USD' }
+    });
+  });
+
+  it('issues one digital card per order line', async () => {
+    const squareRequest = stubSquare({ '/gift-cards': { gift_card: { id: 'GIFT_2' } } });
+
+    await createGiftCardClient(squareRequest).createDigitalGiftCard({ locationId: 'LOCATION_1', orderId: 'ORDER_1', lineItemUid: 'LINE_1' });
+
+    expect(sentBody(squareRequest, '/gift-cards')).toEqual({
+      idempotency_key: 'gift-card-ORDER_1-LINE_1',
+      location_id: 'LOCATION_1',
+      gift_card: { type: 'DIGITAL' }
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// Retry-safe checkout requests. The storefront sends one idempotency key per checkout attempt; the first
+// successful result for a key is kept here and returned to any repeat (double-click, network retry, reload),
+// and the Square calls themselves use keys derived from it so Square deduplicates them as well.
+// Kept as a single JSON file like the discount redemptions - entries only need to outlive a checkout.
+const crypto = require('crypto');
+const { ServiceError, createJsonStore } = require('./common');
+
+const store = createJsonStore('idempotency.json', 'idempotency results');
+const RESULT_TTL_MS = 24 * 60 * 60 * 1000; // Square keeps its own idempotency keys about as long
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+let results = {};
+const inFlight = new Map();
+
+class IdempotencyError extends ServiceError {}
+
+const loadResults = () => {
+  const data = store.load();
+  results = data.results && typeof data.results === 'object' ? data.results : {};
+};
+
+const saveResults = () => store.save({ results });
+
+const pruneExpired = (now = Date.now()) => {
+  Object.keys(results).forEach(storeKey => {
+    if (now - Date.parse(results[storeKey].createdAt) > RESULT_TTL_MS) {
+      delete results[storeKey];
+    }
+  });
+};
+
+const validateIdempotencyKey = (key) => {
+  if (!KEY_PATTERN.test(String(key || ''))) {
+    throw new IdempotencyError('Invalid idempotency key');
+  }
+  return key;
+};
+
+/**
+ * Square idempotency key for one call made on behalf of a checkout attempt
+ * Hashed so every call gets its own key within Square's 45-character limit for payments.
+ */
+const deriveSquareKey = (purpose, key) =>
+  crypto.createHash('sha256').update(`${purpose}:${key}`).digest('hex').slice(0, 40);
+
+// The stored result of an earlier request with this key, if it succeeded
+const findResult = (scope, key) => results[`${scope}:${validateIdempotencyKey(key)}`]?.result;
+
+// Drops a stored result that no longer holds (its order was voided), so a repeat runs the operation again
+const forgetResult = (scope, key) => {
+  const storeKey = `${scope}:${validateIdempotencyKey(key)}`;
+  if (results[storeKey]) {
+    delete results[storeKey];
+    saveResults();
+  }
+};
+
+/**
+ * Run `operation` once per scope and key, returning the stored result for repeats
+ * Concurrent repeats wait for the first request; failures aren't stored, so the attempt can be retried.
+ * Without a key (older storefronts) the operation simply runs.
+ */
+const runOnce = async (scope, key, operation) => {
+  if (!key) {
+    return operation();
+  }
+
+  const storeKey = `${scope}:${validateIdempotencyKey(key)}`;
+  if (results[storeKey]) {
+    return results[storeKey].result;
+  }
+  if (inFlight.has(storeKey)) {
+    return inFlight.get(storeKey);
+  }
+
+  const pending = (async () => {
+    const result = await operation();
+    pruneExpired();
+    results[storeKey] = { result, createdAt: new Date().toISOString() };
+    saveResults();
+    return result;
+  })();
+
+  inFlight.set(storeKey, pending);
+  try {
+    return await pending;
+  } finally {
+    inFlight.delete(storeKey);
+  }
+};
+
+loadResults();
+
+module.exports = {
+  IdempotencyError,
+  validateIdempotencyKey,
+  deriveSquareKey,
+  findResult,
+  forgetResult,
+  runOnce
+};
@@ -0,0 +1,90 @@
+// Preparation lead times - how far ahead an order has to be placed
+// config/lead-times.json sets a default plus longer minimums for catalog categories or items
+// (party trays, pre-orders). The longest lead time in the cart applies to the whole order.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+
+const LEAD_TIMES_PATH = process.env.LEAD_TIMES_PATH || path.join(__dirname, '..', 'config', 'lead-times.json');
+
+const DEFAULT_LEAD_TIME_MINUTES = 15;
+
+const loadLeadTimes = () => {
+  const data = readConfigFile(LEAD_TIMES_PATH, 'lead times');
+  return {
+    defaultMinutes: Number(data.defaultMinutes) || DEFAULT_LEAD_TIME_MINUTES,
+    categories: data.categories || {},
+    products: data.products || {}
+  };
+};
+
+// Lead times as plain minutes keyed by ID, for the storefront's time picker
+const toClientLeadTimes = (leadTimes) => {
+  const toMinutes = (entries) => Object.fromEntries(
+    Object.entries(entries).map(([id, entry]) => [id, Number(entry.minutes) || 0])
+  );
+
+  return {
+    defaultMinutes: leadTimes.defaultMinutes,
+    categories: toMinutes(leadTimes.categories),
+    products: toMinutes(leadTimes.products)
+  };
+};
+
+/**
+ * Longest lead time among catalog-priced cart lines
+ * @returns {{ minutes: number, itemName?: string }} itemName is the line that set it, if any
+ */
+const getCartLeadTime = (pricedItems, leadTimes = loadLeadTimes()) => {
+  let longest = { minutes: leadTimes.defaultMinutes };
+
+  pricedItems.forEach(priced => {
+    const ruleMinutes = [
+      leadTimes.products[priced.squareItemId],
+      ...priced.categoryIds.map(categoryId => leadTimes.categories[categoryId])
+    ].map(entry => Number(entry?.minutes) || 0);
+
+    const minutes = Math.max(...ruleMinutes);
+    if (minutes > longest.minutes) {
+      longest = { minutes, itemName: priced.itemName };
+    }
+  });
+
+  return longest;
+};
+
+// "45 minutes", "24 hours", "2 days"
+const formatLeadTime = (minutes) => {
+  if (minutes >= 2880 && minutes % 1440 === 0) return `${minutes / 1440} days`;
+  if (minutes >= 120 && minutes % 60 === 0) return `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+};
+
+/**
+ * Reject a scheduled time that is too soon for the order's lead time
+ * @param {string} scheduledAt - RFC 3339 timestamp of the pickup or delivery
+ * @param {{ minutes: number, itemName?: string }} leadTime
+ */
+const assertLeadTime = (scheduledAt, leadTime, now = new Date()) => {
+  const scheduled = Date.parse(scheduledAt);
+  if (Number.isNaN(scheduled)) {
+    throw new FulfillmentError('Invalid pickup date or time');
+  }
+
+  const earliest = now.getTime() + leadTime.minutes * 60000;
+  if (scheduled < earliest) {
+    const subject = leadTime.itemName ? `${leadTime.itemName} needs` : 'Orders need';
+    throw new FulfillmentError(
+      `${subject} at least ${formatLeadTime(leadTime.minutes)} notice. Please choose a later time.`,
+      { leadTimeMinutes: leadTime.minutes, earliestTime: new Date(earliest).toISOString() }
+    );
+  }
+};
+
+module.exports = {
+  loadLeadTimes,
+  toClientLeadTimes,
+  getCartLeadTime,
+  formatLeadTime,
+  assertLeadTime
+};
@@ -0,0 +1,176 @@
+// Square Loyalty - points balances by phone number, points for paid orders and reward redemption
+// createLoyaltyClient wraps the Loyalty API around a request function (makeSquareRequest in the server),
+// so tests can hand it a stub instead of calling Square. Rewards are created and redeemed when the order
+// is paid rather than at checkout, so an abandoned checkout never ties up a customer's points.
+const { ServiceError } = require('./common');
+const { normalizePhone } = require('./orderHistory');
+
+class LoyaltyError extends ServiceError {}
+
+// Square keys loyalty accounts by E.164 phone number
+const toLoyaltyPhone = (phone) => {
+  const digits = normalizePhone(phone);
+  if (digits.length !== 10) {
+    throw new LoyaltyError('Please enter a 10-digit phone number');
+  }
+  return `+1${digits}`;
+};
+
+// Only order-wide rewards can be applied online; item and category rewards are redeemed in store
+const toClientRewardTier = (tier) => {
+  const definition = tier.definition || {};
+  if (definition.scope !== 'ORDER') return null;
+
+  const isPercentage = definition.discount_type === 'FIXED_PERCENTAGE';
+  if (!isPercentage && definition.discount_type !== 'FIXED_AMOUNT') return null;
+
+  return {
+    id: tier.id,
+    name: tier.name,
+    points: tier.points,
+    discountType: isPercentage ? 'percentage' : 'fixed_amount',
+    // Percent off, or cents off
+    value: isPercentage
+      ? Number(definition.percentage_discount) || 0
+      : definition.fixed_discount_money?.amount || 0,
+    maxDiscountCents: definition.max_discount_money?.amount
+  };
+};
+
+const toClientProgram = (program) => ({
+  id: program.id,
+  pointsName: {
+    one: program.terminology?.one || 'Point',
+    other: program.terminology?.other || 'Points'
+  },
+  rewardTiers: (program.reward_tiers || [])
+    .map(toClientRewardTier)
+    .filter(Boolean)
+    .sort((a, b) => a.points - b.points)
+});
+
+const toClientAccount = (account) => ({
+  id: account.id,
+  balance: account.balance || 0,
+  lifetimePoints: account.lifetime_points || 0
+});
+
+/**
+ * Cents a reward takes off an order, never more than what is left to pay
+ * @param {object} tier - Client reward tier from toClientRewardTier
+ * @param {number} remainingCents - Subtotal after the order's other discounts
+ */
+const getRewardDiscountCents = (tier, remainingCents) => {
+  const amount = tier.discountType === 'percentage'
+    ? Math.round(remainingCents * tier.value / 100)
+    : tier.value;
+  const capped = tier.maxDiscountCents ? Math.min(amount, tier.maxDiscountCents) : amount;
+  return Math.max(0, Math.min(capped, remainingCents));
+};
+
+// The reward goes on the Square order as a plain fixed-amount discount; points are taken when it is paid
+const buildRewardOrderDiscount = (tier, amountCents) => ({
+  uid: `loyalty-${tier.id}`.slice(0, 60),
+  name: tier.name,
+  amount_money: { amount: amountCents, currency: 'USD' },
+  scope: 'ORDER'
+});
+
+/**
+ * Loyalty API calls, made through `squareRequest(endpoint, { method, body, skipCache })`
+ */
+const createLoyaltyClient = (squareRequest) => {
+  const post = (endpoint, body) => squareRequest(endpoint, {
+    method: 'POST',
+    skipCache: true,
+    body: JSON.stringify(body)
+  });
+
+  // The seller's active program, or null when they haven't set one up
+  const getProgram = async () => {
+    try {
+      const { program } = await squareRequest('/loyalty/programs/main');
+      return program?.status === 'ACTIVE' ? program : null;
+    } catch (error) {
+      if (/not found/i.test(error.message)) return null;
+      throw error;
+    }
+  };
+
+  const findAccountByPhone = async (phone) => {
+    const { loyalty_accounts: accounts = [] } = await post('/loyalty/accounts/search', {
+      query: { mappings: [{ phone_number: toLoyaltyPhone(phone) }] },
+      limit: 1
+    });
+    return accounts[0] || null;
+  };
+
+  // Customers start earning on their first online order without signing up separately
+  const findOrCreateAccount = async (programId, phone) => {
+    const existing = await findAccountByPhone(phone);
+    if (existing) return existing;
+
+    const loyaltyPhone = toLoyaltyPhone(phone);
+    const { loyalty_account: account } = await post('/loyalty/accounts', {
+      idempotency_key: `loyalty-account-${programId}-${loyaltyPhone}`,
+      loyalty_account: {
+        program_id: programId,
+        mapping: { phone_number: loyaltyPhone }
+      }
+    });
+    return account;
+  };
+
+  // Points a purchase of this amount would earn under the program's accrual rules
+  const calculatePoints = async (programId, amountCents) => {
+    const { points = 0 } = await post(`/loyalty/programs/${programId}/calculate`, {
+      transaction_amount_money: { amount: amountCents, currency: 'USD' }
+    });
+    return points;
+  };
+
+  // Keyed to the order, so webhook retries can't award the points twice
+  const accumulateForOrder = async (accountId, orderId, locationId) => {
+    const { events = [] } = await post(`/loyalty/accounts/${accountId}/accumulate`, {
+      idempotency_key: `loyalty-accumulate-${orderId}`,
+      location_id: locationId,
+      accumulate_points: { order_id: orderId }
+    });
+    return events.reduce((sum, event) => sum + (event.accumulate_points?.points || 0), 0);
+  };
+
+  // Deduct the tier's points for a reward already taken off a paid order
+  const redeemReward = async ({ accountId, rewardTierId, orderId, locationId }) => {
+    const { reward } = await post('/loyalty/rewards', {
+      idempotency_key: `loyalty-reward-${orderId}`,
+      reward: {
+        loyalty_account_id: accountId,
+        reward_tier_id: rewardTierId
+      }
+    });
+    await post(`/loyalty/rewards/${reward.id}/redeem`, {
+      idempotency_key: `loyalty-redeem-${orderId}`,
+      location_id: locationId
+    });
+    return reward;
+  };
+
+  return {
+    getProgram,
+    findAccountByPhone,
+    findOrCreateAccount,
+    calculatePoints,
+    accumulateForOrder,
+    redeemReward
+  };
+};
+
+module.exports = {
+  LoyaltyError,
+  toLoyaltyPhone,
+  toClientProgram,
+  toClientAccount,
+  getRewardDiscountCents,
+  buildRewardOrderDiscount,
+  createLoyaltyClient
+};
@@ -0,0 +1,78 @@
+const { LoyaltyError, createLoyaltyClient } = require('./loyalty');
+const { stubSquare, sentBody } = require('../test/squareStub');
+
+describe('createLoyaltyClient', () => {
+  describe('getProgram', () => {
+    it('returns the active program', async () => {
+      const program = { id: 'PROGRAM_1', status: 'ACTIVE' };
+      const client = createLoyaltyClient(stubSquare({ '/loyalty/programs/main': { program } }));
+
+      await expect(client.getProgram()).resolves.toEqual(program);
+    });
+
+    it('treats an inactive or missing program as no program', async () => {
+      const inactive = createLoyaltyClient(stubSquare({ '/loyalty/programs/main': { program: { status: 'INACTIVE' } } }));
+      const missing = createLoyaltyClient(stubSquare({ '/loyalty/programs/main': new Error('Program not found') }));
+
+      await expect(inactive.getProgram()).resolves.toBeNull();
+      await expect(missing.getProgram()).resolves.toBeNull();
+    });
+  });
+
+  describe('findAccountByPhone', () => {
+    it('searches by the E.164 phone number', async () => {
+      const squareRequest = stubSquare({ '/loyalty/accounts/search': { loyalty_accounts: [{ id: 'ACCOUNT_1' }] } });
+
+      await expect(createLoyaltyClient(squareRequest).findAccountByPhone('(816) 555-0100')).resolves.toEqual({ id: 'ACCOUNT_1' });
+      expect(sentBody(squareRequest, '/loyalty/accounts/search').query.mappings).toEqual([{ phone_number: '+18165550100' }]);
+    });
+
+    it("turns away a number that isn't 10 digits without calling Square", async () => {
+      const squareRequest = stubSquare({});
+
+      await expect(createLoyaltyClient(squareRequest).findAccountByPhone('555-0100')).rejects.toThrow(LoyaltyError);
+      expect(squareRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  it('creates an account only when the phone number has none', async () => {
+    const squareRequest = stubSquare({
+      '/loyalty/accounts/search': { loyalty_accounts: [] },
+      '/loyalty/accounts': { loyalty_account: { id: 'NEW_ACCOUNT' } }
+    });
+
+    await expect(createLoyaltyClient(squareRequest).findOrCreateAccount('PROGRAM_1', '816-555-0100')).resolves.toEqual({ id: 'NEW_ACCOUNT' });
+    expect(sentBody(squareRequest, '/loyalty/accounts')).toEqual({
+      idempotency_key: 'loyalty-account-PROGRAM_1-+18165550100',
+      loyalty_account: { program_id: 'PROGRAM_1', mapping: { phone_number: '+18165550100' } }
+    });
+  });
+
+  it('adds up the points from every accumulate event, keyed to the order', async () => {
+    const squareRequest = stubSquare({
+      '/loyalty/accounts/ACCOUNT_1/accumulate': {
+        events: [{ accumulate_points: { points: 12 } }, { accumulate_points: { points: 3 } }]
+      }
+    });
+
+    await expect(createLoyaltyClient(squareRequest).accumulateForOrder('ACCOUNT_1', 'ORDER_1', 'LOCATION_1')).resolves.toBe(15);
+    expect(sentBody(squareRequest, '/loyalty/accounts/ACCOUNT_1/accumulate').idempotency_key).toBe('loyalty-accumulate-ORDER_1');
+  });
+
+  it('creates the reward and then redeems it', async () => {
+    const squareRequest = stubSquare({ '/loyalty/rewards': { reward: { id: 'REWARD_1' } } });
+
+    await createLoyaltyClient(squareRequest).redeemReward({
+      accountId: 'ACCOUNT_1',
+      rewardTierId: 'TIER_1',
+      orderId: 'ORDER_1',
+      locationId: 'LOCATION_1'
+    });
+
+    expect(squareRequest.mock.calls.map(([endpoint]) => endpoint)).toEqual(['/loyalty/rewards', '/loyalty/rewards/REWARD_1/redeem']);
+    expect(sentBody(squareRequest, '/loyalty/rewards/REWARD_1/redeem')).toEqual({
+      idempotency_key: 'loyalty-redeem-ORDER_1',
+      location_id: 'LOCATION_1'
+    });
+  });
+});
@@ -0,0 +1,52 @@
+// Outgoing email through an HTTP mail API (Resend's by default), set up with MAIL_API_KEY and MAIL_FROM
+// Without them, messages are printed to the console in development so sign-in codes can be read there; in
+// production sending fails instead, so a missing setup can't pass for mail that went out. Messages are
+// never written to disk.
+const fetch = require('node-fetch');
+
+const DEFAULT_MAIL_API_URL = 'https://api.resend.com/emails';
+
+const getMailSettings = () => ({
+  apiUrl: process.env.MAIL_API_URL || DEFAULT_MAIL_API_URL,
+  apiKey: process.env.MAIL_API_KEY,
+  from: process.env.MAIL_FROM
+});
+
+const isMailConfigured = () => {
+  const { apiKey, from } = getMailSettings();
+  return Boolean(apiKey && from);
+};
+
+const sendMail = async ({ to, subject, text }) => {
+  const { apiUrl, apiKey, from } = getMailSettings();
+
+  if (!isMailConfigured()) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Email is not set up: MAIL_API_KEY and MAIL_FROM are required in production');
+    }
+    console.log(`Mail to ${to}: ${subject}\n${text}`);
+    return { to, subject };
+  }
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ from, to, subject, text })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`Mail API error: ${errorData.message || response.statusText}`);
+  }
+
+  const data = await response.json();
+  return { to, subject, id: data.id };
+};
+
+module.exports = {
+  isMailConfigured,
+  sendMail
+};
@@ -0,0 +1,58 @@
+jest.mock('node-fetch');
+const fetch = require('node-fetch');
+const { sendMail } = require('./mailer');
+
+describe('sendMail', () => {
+  const originalEnv = process.env;
+  const message = { to: 'pat@example.com', subject: 'Your sign-in code', text: 'Your sign-in code is 123456.' };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.MAIL_API_URL;
+    delete process.env.MAIL_API_KEY;
+    delete process.env.MAIL_FROM;
+    fetch.mockReset();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('posts the message to the mail API once it is set up', async () => {
+    process.env.MAIL_API_KEY = 'mail-key';
+    process.env.MAIL_FROM = "Fetterman's <orders@example.com>";
+    fetch.mockResolvedValue({ ok: true, json: async () => ({ id: 'EMAIL_1' }) });
+
+    await expect(sendMail(message)).resolves.toEqual({ to: 'pat@example.com', subject: 'Your sign-in code', id: 'EMAIL_1' });
+
+    const [url, options] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.resend.com/emails');
+    expect(options.headers.Authorization).toBe('Bearer mail-key');
+    expect(JSON.parse(options.body)).toEqual({ from: "Fetterman's <orders@example.com>", ...message });
+  });
+
+  it('passes on an error from the mail API', async () => {
+    process.env.MAIL_API_KEY = 'mail-key';
+    process.env.MAIL_FROM = 'orders@example.com';
+    fetch.mockResolvedValue({ ok: false, statusText: 'Unprocessable Entity', json: async () => ({ message: 'Invalid `to` field' }) });
+
+    await expect(sendMail(message)).rejects.toThrow('Mail API error: Invalid `to` field');
+  });
+
+  it('fails in production when no mail API is set up', async () => {
+    process.env.NODE_ENV = 'production';
+
+    await expect(sendMail(message)).rejects.toThrow('Email is not set up');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('prints the message in development when no mail API is set up', async () => {
+    process.env.NODE_ENV = 'development';
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(sendMail(message)).resolves.toEqual({ to: 'pat@example.com', subject: 'Your sign-in code' });
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('123456'));
+    expect(fetch).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,41 @@
+// Past orders for a returning customer, by Square customer profile
+// Orders are found through Square's order search (customer filter), so only orders placed with a
+// customer_id attached show up. Abandoned checkouts - open orders that were never paid - are left out.
+
+const ORDER_HISTORY_LIMIT = 20;
+
+// Square searches at most 10 locations per request
+const MAX_SEARCH_LOCATIONS = 10;
+
+const buildHistorySearch = (locationIds, customerIds) => ({
+  location_ids: locationIds.slice(0, MAX_SEARCH_LOCATIONS),
+  limit: ORDER_HISTORY_LIMIT,
+  query: {
+    filter: {
+      customer_filter: { customer_ids: customerIds },
+      state_filter: { states: ['OPEN', 'COMPLETED'] }
+    },
+    sort: { sort_field: 'CREATED_AT', sort_order: 'DESC' }
+  }
+});
+
+const isPlacedOrder = (order) =>
+  order.state === 'COMPLETED' || (order.tenders || []).length > 0;
+
+// Digits only, without a leading US country code, so "+1 (816) 555-0100" matches "816-555-0100"
+const normalizePhone = (phone) => {
+  const digits = String(phone || '').replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+};
+
+// Phone lookups must also name the profile's email, so a phone number alone can't reveal someone's orders
+const matchesContact = (customer, phone, email) =>
+  normalizePhone(customer.phone_number) === normalizePhone(phone) &&
+  String(customer.email_address || '').trim().toLowerCase() === String(email || '').trim().toLowerCase();
+
+module.exports = {
+  buildHistorySearch,
+  isPlacedOrder,
+  normalizePhone,
+  matchesContact
+};
@@ -0,0 +1,56 @@
+// What the order tracking page gets for an order. Anyone with the order link can open it, so it leaves out
+// the customer's name, contact details, delivery address, notes and payment details.
+
+const sumCharges = (order, name) => (order.service_charges || [])
+  .filter(charge => charge.name === name)
+  .reduce((sum, charge) => sum + ((charge.total_money || charge.amount_money)?.amount || 0), 0);
+
+/**
+ * @param {object} order - Square order
+ * @param {{ allowed: boolean, deadline?: string }} [customerCancellation] - From getCustomerCancellation
+ */
+const toTrackedOrder = (order, customerCancellation) => {
+  const fulfillment = order.fulfillments?.[0];
+  const isDelivery = fulfillment?.type === 'DELIVERY';
+  const pickupDetails = fulfillment?.pickup_details || {};
+  const lineItems = order.line_items || [];
+  // Card payments record the tip on the payment, outside the order total; redirect checkouts add a service charge
+  const paymentTipCents = order.total_tip_money?.amount || 0;
+
+  return {
+    id: order.id,
+    orderNumber: order.reference_id || order.id.slice(-6).toUpperCase(),
+    // A cancelled order may still carry a stale fulfillment state
+    status: order.state === 'CANCELED' ? 'CANCELED' : (fulfillment?.state || order.state),
+    paymentStatus: (order.refunds || []).length > 0
+      ? 'refunded'
+      : (order.tenders || []).length > 0 || order.net_amount_due_money?.amount === 0 ? 'paid' : 'pending',
+    lineItems: lineItems.map(lineItem => ({
+      uid: lineItem.uid,
+      name: lineItem.name,
+      quantity: lineItem.quantity,
+      basePriceCents: lineItem.base_price_money?.amount || 0,
+      totalCents: lineItem.total_money?.amount || 0
+    })),
+    subtotalCents: lineItems.reduce((sum, lineItem) => sum + (lineItem.gross_sales_money?.amount || 0), 0),
+    discountCents: order.total_discount_money?.amount || 0,
+    taxCents: order.total_tax_money?.amount || 0,
+    tipCents: sumCharges(order, 'Tip') + paymentTipCents,
+    deliveryFeeCents: sumCharges(order, 'Delivery fee'),
+    totalCents: (order.total_money?.amount || 0) + paymentTipCents,
+    fulfillmentType: isDelivery ? 'delivery' : 'pickup',
+    pickupAt: isDelivery ? fulfillment.delivery_details?.deliver_at : pickupDetails.pickup_at,
+    locationId: order.location_id,
+    isCurbside: Boolean(pickupDetails.is_curbside_pickup),
+    arrivedAt: pickupDetails.curbside_pickup_details?.buyer_arrived_at,
+    isCatering: order.metadata?.catering === 'true',
+    headCount: order.metadata?.head_count ? parseInt(order.metadata.head_count, 10) : undefined,
+    depositPercent: order.metadata?.deposit_percent ? parseFloat(order.metadata.deposit_percent) : undefined,
+    cancellableUntil: customerCancellation?.allowed ? customerCancellation.deadline : undefined,
+    createdAt: order.created_at
+  };
+};
+
+module.exports = {
+  toTrackedOrder
+};
@@ -0,0 +1,78 @@
+const { toTrackedOrder } = require('./orderTracking');
+
+describe('toTrackedOrder', () => {
+  const order = {
+    id: 'ORDER_ABCDEF',
+    location_id: 'LOCATION_1',
+    state: 'OPEN',
+    customer_id: 'CUSTOMER_1',
+    created_at: '2026-10-19T15:00:00Z',
+    metadata: { customer_email: 'pat@example.com', customer_phone: '8165550100' },
+    line_items: [{
+      uid: 'LINE_1',
+      name: 'Reuben',
+      quantity: '2',
+      note: 'Call Pat at 816-555-0100',
+      base_price_money: { amount: 1200 },
+      gross_sales_money: { amount: 2400 },
+      total_money: { amount: 2200 }
+    }],
+    fulfillments: [{
+      type: 'PICKUP',
+      state: 'RESERVED',
+      pickup_details: {
+        pickup_at: '2026-10-19T17:30:00Z',
+        is_curbside_pickup: true,
+        curbside_pickup_details: { curbside_details: 'Blue Honda' },
+        recipient: { display_name: 'Pat Doe', phone_number: '816-555-0100', email_address: 'pat@example.com' }
+      }
+    }],
+    service_charges: [{ name: 'Tip', total_money: { amount: 300 } }],
+    tenders: [{ id: 'TENDER_1', card_details: { card: { last_4: '1111' } } }],
+    total_discount_money: { amount: 200 },
+    total_tax_money: { amount: 180 },
+    total_money: { amount: 2680 }
+  };
+
+  it('keeps only what the tracking page shows', () => {
+    expect(toTrackedOrder(order, { allowed: true, deadline: '2026-10-19T16:30:00Z' })).toEqual({
+      id: 'ORDER_ABCDEF',
+      orderNumber: 'ABCDEF',
+      status: 'RESERVED',
+      paymentStatus: 'paid',
+      lineItems: [{ uid: 'LINE_1', name: 'Reuben', quantity: '2', basePriceCents: 1200, totalCents: 2200 }],
+      subtotalCents: 2400,
+      discountCents: 200,
+      taxCents: 180,
+      tipCents: 300,
+      deliveryFeeCents: 0,
+      totalCents: 2680,
+      fulfillmentType: 'pickup',
+      pickupAt: '2026-10-19T17:30:00Z',
+      locationId: 'LOCATION_1',
+      isCurbside: true,
+      arrivedAt: undefined,
+      isCatering: false,
+      headCount: undefined,
+      depositPercent: undefined,
+      cancellableUntil: '2026-10-19T16:30:00Z',
+      createdAt: '2026-10-19T15:00:00Z'
+    });
+  });
+
+  it("leaves out the customer's contact details", () => {
+    const tracked = JSON.stringify(toTrackedOrder(order));
+
+    ['Pat', 'pat@example.com', '555-0100', '5550100', 'Blue Honda', 'CUSTOMER_1', '1111'].forEach(detail => {
+      expect(tracked).not.toContain(detail);
+    });
+  });
+
+  it('shows a cancelled order as cancelled whatever its fulfillment says, and no cancel deadline', () => {
+    const tracked = toTrackedOrder({ ...order, state: 'CANCELED', refunds: [{ id: 'REFUND_1' }] }, { allowed: false });
+
+    expect(tracked.status).toBe('CANCELED');
+    expect(tracked.paymentStatus).toBe('refunded');
+    expect(tracked.cancellableUntil).toBeUndefined();
+  });
+});
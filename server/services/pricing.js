@@ -0,0 +1,214 @@
+// Server-side cart pricing against the Square catalog
+// The browser only tells us WHAT was ordered (catalog IDs); prices always come from Square.
+const { ServiceError } = require('./common');
+
+class CartPricingError extends ServiceError {}
+
+// Pull the catalog references out of a client CartItem
+// selectedVariants is keyed by variant ID and holds option NAMES, so they are
+// resolved to option IDs through the product's own variant list
+const resolveCartItem = (item, index) => {
+  const product = item.product || {};
+  const itemName = product.name || `Item ${index + 1}`;
+  const squareItemId = product.squareItemId || product.id;
+  let variationId = product.squareVariationId;
+  const modifierIds = [];
+
+  if (!squareItemId) {
+    throw new CartPricingError(`Missing catalog reference for item: ${itemName}`);
+  }
+
+  Object.entries(item.selectedVariants || {}).forEach(([variantId, selectedValue]) => {
+    const variant = product.variants?.find(v => v.id === variantId);
+    if (!variant) return;
+
+    const selectedNames = Array.isArray(selectedValue) ? selectedValue : [selectedValue];
+    selectedNames.forEach(name => {
+      const option = variant.options?.find(opt => opt.name === name);
+      if (!option) {
+        throw new CartPricingError(`Unknown option "${name}" for item: ${itemName}`);
+      }
+
+      // The synthetic "size" variant is made of item variations, everything else is a modifier list
+      if (option.squareVariationId) {
+        variationId = option.squareVariationId;
+      } else {
+        modifierIds.push(option.id);
+      }
+    });
+  });
+
+  const quantity = parseInt(item.quantity, 10);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > 99) {
+    throw new CartPricingError(`Invalid quantity for item: ${itemName}`);
+  }
+
+  return {
+    clientItemId: item.id,
+    itemName,
+    squareItemId,
+    variationId,
+    modifierIds,
+    quantity,
+    note: item.specialInstructions,
+    clientTotalCents: typeof item.totalPrice === 'number' ? Math.round(item.totalPrice * 100) : null
+  };
+};
+
+// Index batch-retrieve results by ID, including nested variations and modifiers
+const buildCatalogIndex = (catalogResponse) => {
+  const index = {
+    items: new Map(),
+    variations: new Map(),
+    modifierLists: new Map(),
+    modifiers: new Map()
+  };
+
+  const objects = [...(catalogResponse.objects || []), ...(catalogResponse.related_objects || [])];
+  objects.forEach(object => {
+    if (object.is_deleted) return;
+
+    if (object.type === 'ITEM' && object.item_data) {
+      index.items.set(object.id, object);
+      (object.item_data.variations || []).forEach(variation => {
+        index.variations.set(variation.id, { ...variation, itemId: object.id });
+      });
+    } else if (object.type === 'MODIFIER_LIST' && object.modifier_list_data) {
+      index.modifierLists.set(object.id, object);
+      (object.modifier_list_data.modifiers || []).forEach(modifier => {
+        index.modifiers.set(modifier.id, { ...modifier, modifierListId: object.id });
+      });
+    }
+  });
+
+  return index;
+};
+
+// Turn resolved cart items into catalog-referenced Square line items with server-computed totals
+const priceCartItems = (resolvedItems, catalogIndex) => {
+  return resolvedItems.map(resolved => {
+    const catalogItem = catalogIndex.items.get(resolved.squareItemId);
+    if (!catalogItem || catalogItem.item_data.is_archived) {
+      throw new CartPricingError(`${resolved.itemName} is no longer available`);
+    }
+
+    const variationId = resolved.variationId || catalogItem.item_data.variations?.[0]?.id;
+    const variation = catalogIndex.variations.get(variationId);
+    if (!variation || variation.itemId !== catalogItem.id) {
+      throw new CartPricingError(`Selected size is not available for ${resolved.itemName}`);
+    }
+
+    const variationPrice = variation.item_variation_data?.price_money;
+    if (!variationPrice || variation.item_variation_data.pricing_type === 'VARIABLE_PRICING') {
+      throw new CartPricingError(`${resolved.itemName} cannot be ordered online`);
+    }
+
+    // Only modifier lists actually attached (and enabled) on this item are allowed
+    const allowedModifierLists = new Set(
+      (catalogItem.item_data.modifier_list_info || [])
+        .filter(info => info.enabled !== false)
+        .map(info => info.modifier_list_id)
+    );
+
+    let unitPriceCents = variationPrice.amount;
+    const modifiers = resolved.modifierIds.map(modifierId => {
+      const modifier = catalogIndex.modifiers.get(modifierId);
+      if (!modifier || !allowedModifierLists.has(modifier.modifierListId)) {
+        throw new CartPricingError(`Invalid add-on selected for ${resolved.itemName}`);
+      }
+
+      unitPriceCents += modifier.modifier_data?.price_money?.amount || 0;
+      return {
+        catalog_object_id: modifier.id,
+        quantity: '1'
+      };
+    });
+
+    const lineItem = {
+      catalog_object_id: variation.id,
+      quantity: resolved.quantity.toString()
+    };
+
+    if (modifiers.length > 0) {
+      lineItem.modifiers = modifiers;
+    }
+
+    if (resolved.note) {
+      lineItem.note = resolved.note;
+    }
+
+    const categoryIds = (catalogItem.item_data.categories || []).map(category => category.id);
+    if (catalogItem.item_data.category_id && !categoryIds.includes(catalogItem.item_data.category_id)) {
+      categoryIds.push(catalogItem.item_data.category_id);
+    }
+
+    return {
+      ...resolved,
+      categoryIds,
+      lineItem,
+      unitPriceCents,
+      totalCents: unitPriceCents * resolved.quantity,
+      currency: variationPrice.currency || 'USD'
+    };
+  });
+};
+
+// Compare what the browser displayed against the catalog price
+// Differences of a cent or less are rounding noise from the client's dollar math
+const findPriceMismatches = (pricedItems) => {
+  return pricedItems
+    .filter(priced => priced.clientTotalCents !== null && Math.abs(priced.clientTotalCents - priced.totalCents) > 1)
+    .map(priced => ({
+      itemId: priced.clientItemId,
+      name: priced.itemName,
+      expected: priced.totalCents / 100,
+      received: priced.clientTotalCents / 100
+    }));
+};
+
+// Tips are capped as a share of the order so a mistyped amount can't be charged
+const MAX_TIP_PERCENTAGE = parseFloat(process.env.MAX_TIP_PERCENTAGE) || 50;
+
+// Check a tip (in cents) against the amount it is added to; returns the tip in cents
+const validateTipCents = (tipCents, baseCents) => {
+  if (tipCents === undefined || tipCents === null || tipCents === 0) {
+    return 0;
+  }
+
+  if (!Number.isInteger(tipCents) || tipCents < 0) {
+    throw new CartPricingError('Invalid tip amount');
+  }
+
+  const maxTipCents = Math.round(baseCents * (MAX_TIP_PERCENTAGE / 100));
+  if (tipCents > maxTipCents) {
+    throw new CartPricingError(`Tip can't be more than ${MAX_TIP_PERCENTAGE}% of the order`, {
+      maxTip: maxTipCents / 100
+    });
+  }
+
+  return tipCents;
+};
+
+// What a tip is capped against: the order's items after discounts, before tax, fees and the tip itself.
+// Matches the discounted subtotal checkout works out before the order goes to Square.
+const getTipBaseCents = (order) => {
+  const grossSalesCents = (order.line_items || [])
+    .reduce((sum, lineItem) => sum + (lineItem.gross_sales_money?.amount || 0), 0);
+  return grossSalesCents - (order.total_discount_money?.amount || 0);
+};
+
+// Every catalog object the cart references, for a single batch-retrieve call
+const collectCatalogObjectIds = (resolvedItems) => {
+  return [...new Set(resolvedItems.map(resolved => resolved.squareItemId))];
+};
+
+module.exports = {
+  CartPricingError,
+  resolveCartItem,
+  buildCatalogIndex,
+  priceCartItems,
+  findPriceMismatches,
+  validateTipCents,
+  getTipBaseCents,
+  collectCatalogObjectIds
+};
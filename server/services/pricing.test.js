@@ -0,0 +1,123 @@
+const {
+  CartPricingError,
+  resolveCartItem,
+  buildCatalogIndex,
+  priceCartItems,
+  findPriceMismatches,
+  validateTipCents,
+  getTipBaseCents
+} = require('./pricing');
+
+// A Reuben in two sizes with an add-on list, as Square's batch-retrieve returns it
+const catalog = buildCatalogIndex({
+  objects: [{
+    type: 'ITEM',
+    id: 'REUBEN',
+    item_data: {
+      name: 'Reuben',
+      category_id: 'SANDWICHES',
+      modifier_list_info: [{ modifier_list_id: 'ADD_ONS' }, { modifier_list_id: 'SAUCES', enabled: false }],
+      variations: [
+        { id: 'REUBEN_HALF', item_variation_data: { price_money: { amount: 800, currency: 'USD' } } },
+        { id: 'REUBEN_WHOLE', item_variation_data: { price_money: { amount: 1400, currency: 'USD' } } }
+      ]
+    }
+  }],
+  related_objects: [
+    { type: 'MODIFIER_LIST', id: 'ADD_ONS', modifier_list_data: { modifiers: [{ id: 'EXTRA_MEAT', modifier_data: { price_money: { amount: 300 } } }] } },
+    { type: 'MODIFIER_LIST', id: 'SAUCES', modifier_list_data: { modifiers: [{ id: 'AIOLI', modifier_data: { price_money: { amount: 50 } } }] } }
+  ]
+});
+
+// A cart line as the browser sends it; the size is a variant made of item variations
+const cartItem = (overrides = {}) => ({
+  id: 'CART_1',
+  quantity: 2,
+  totalPrice: 34,
+  selectedVariants: { size: 'Whole', addOns: ['Extra meat'] },
+  product: {
+    id: 'REUBEN',
+    name: 'Reuben',
+    variants: [
+      { id: 'size', options: [{ id: 'half', name: 'Half', squareVariationId: 'REUBEN_HALF' }, { id: 'whole', name: 'Whole', squareVariationId: 'REUBEN_WHOLE' }] },
+      { id: 'addOns', options: [{ id: 'EXTRA_MEAT', name: 'Extra meat' }, { id: 'AIOLI', name: 'Aioli' }] }
+    ]
+  },
+  ...overrides
+});
+
+const price = (item) => priceCartItems([resolveCartItem(item, 0)], catalog)[0];
+
+describe('catalog repricing', () => {
+  it('prices a line from the catalog variation and add-ons, not the browser', () => {
+    const priced = price(cartItem({ totalPrice: 1 }));
+
+    expect(priced.unitPriceCents).toBe(1700);
+    expect(priced.totalCents).toBe(3400);
+    expect(priced.categoryIds).toEqual(['SANDWICHES']);
+    expect(priced.lineItem).toEqual({
+      catalog_object_id: 'REUBEN_WHOLE',
+      quantity: '2',
+      modifiers: [{ catalog_object_id: 'EXTRA_MEAT', quantity: '1' }]
+    });
+  });
+
+  it("uses the item's first variation when no size is picked", () => {
+    expect(price(cartItem({ selectedVariants: {} })).lineItem.catalog_object_id).toBe('REUBEN_HALF');
+  });
+
+  it('reports lines whose shown total is off by more than a cent', () => {
+    const close = price(cartItem({ totalPrice: 34.01 }));
+    const stale = price(cartItem({ totalPrice: 30 }));
+
+    expect(findPriceMismatches([close])).toEqual([]);
+    expect(findPriceMismatches([stale])).toEqual([{ itemId: 'CART_1', name: 'Reuben', expected: 34, received: 30 }]);
+  });
+
+  it("turns away add-ons from a list that isn't enabled on the item", () => {
+    expect(() => price(cartItem({ selectedVariants: { addOns: ['Aioli'] } }))).toThrow('Invalid add-on selected for Reuben');
+  });
+
+  it('turns away items and options the catalog no longer has', () => {
+    const gone = cartItem({ product: { ...cartItem().product, id: 'PASTRAMI', name: 'Pastrami' } });
+
+    expect(() => price(gone)).toThrow('Pastrami is no longer available');
+    expect(() => price(cartItem({ selectedVariants: { size: 'Jumbo' } }))).toThrow('Unknown option "Jumbo" for item: Reuben');
+  });
+
+  it('turns away quantities outside 1 to 99', () => {
+    expect(() => resolveCartItem(cartItem({ quantity: 0 }), 0)).toThrow(CartPricingError);
+    expect(() => resolveCartItem(cartItem({ quantity: 100 }), 0)).toThrow('Invalid quantity for item: Reuben');
+  });
+});
+
+describe('tips', () => {
+  // $40 of items with $10 off, $2.70 tax, a $5 delivery fee and a $3 tip service charge
+  const order = {
+    line_items: [
+      { gross_sales_money: { amount: 2400 } },
+      { gross_sales_money: { amount: 1600 } }
+    ],
+    total_discount_money: { amount: 1000 },
+    total_tax_money: { amount: 270 },
+    service_charges: [
+      { name: 'Delivery fee', total_money: { amount: 500 } },
+      { name: 'Tip', total_money: { amount: 300 } }
+    ],
+    net_amount_due_money: { amount: 3570 }
+  };
+
+  it('bases the cap on the items after discounts, without tax, fees or an earlier tip', () => {
+    expect(getTipBaseCents(order)).toBe(3000);
+  });
+
+  it('accepts a tip in cents up to the share of that base', () => {
+    expect(validateTipCents(undefined, 3000)).toBe(0);
+    expect(validateTipCents(1500, getTipBaseCents(order))).toBe(1500);
+  });
+
+  it('turns away a tip over the cap or not in whole cents', () => {
+    expect(() => validateTipCents(1501, getTipBaseCents(order))).toThrow(CartPricingError);
+    expect(() => validateTipCents(2.5, 3000)).toThrow('Invalid tip amount');
+  });
+});
@@ -0,0 +1,137 @@
+// Pickup slot capacity - how many orders the kitchen takes per 15-minute slot
+// Limits live in config/slot-capacity.json (default plus per-location overrides). Bookings are
+// kept in a JSON file: a checkout holds its slot until Square confirms payment, and unpaid holds
+// expire after holdMinutes so abandoned checkouts give the slot back.
+const path = require('path');
+const { readConfigFile, createJsonStore } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+
+const CAPACITY_PATH = process.env.SLOT_CAPACITY_PATH || path.join(__dirname, '..', 'config', 'slot-capacity.json');
+const store = createJsonStore('slot-bookings.json', 'slot bookings');
+
+// Bookings older than this are dropped from the store on save
+const RETENTION_DAYS = 30;
+
+let bookings = [];
+
+const loadBookings = () => {
+  const data = store.load();
+  bookings = Array.isArray(data.bookings) ? data.bookings : [];
+};
+
+const saveBookings = () => {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  bookings = bookings.filter(booking => Date.parse(booking.createdAt) >= cutoff);
+  store.save({ bookings });
+};
+
+const getSlotSettings = (locationId) => {
+  const config = readConfigFile(CAPACITY_PATH, 'slot capacity settings');
+  const settings = {
+    ...config.default,
+    ...(locationId && config.locations?.[locationId])
+  };
+
+  return {
+    // 0 means no limit
+    ordersPerSlot: Math.max(0, parseInt(settings.ordersPerSlot, 10) || 0),
+    holdMinutes: Math.max(1, parseInt(settings.holdMinutes, 10) || 30)
+  };
+};
+
+// Confirmed bookings always count; pending ones only until their hold runs out
+const isActive = (booking, holdMinutes, now) => {
+  if (booking.status === 'confirmed') return true;
+  if (booking.status !== 'pending') return false;
+  return now - Date.parse(booking.createdAt) < holdMinutes * 60 * 1000;
+};
+
+const countBookings = (locationId, date, time, settings, now = Date.now()) =>
+  bookings.filter(booking =>
+    booking.locationId === locationId &&
+    booking.date === date &&
+    booking.time === time &&
+    isActive(booking, settings.holdMinutes, now)
+  ).length;
+
+/**
+ * Remaining capacity for each booked slot on a day; slots not listed have the full ordersPerSlot
+ * @returns {{ date: string, ordersPerSlot: number, remaining: { [time: string]: number } }}
+ */
+const getSlotAvailability = (locationId, date) => {
+  const settings = getSlotSettings(locationId);
+  const now = Date.now();
+  const remaining = {};
+
+  if (settings.ordersPerSlot > 0) {
+    bookings
+      .filter(booking => booking.locationId === locationId && booking.date === date)
+      .forEach(booking => {
+        if (remaining[booking.time] === undefined) {
+          remaining[booking.time] = Math.max(0, settings.ordersPerSlot - countBookings(locationId, date, booking.time, settings, now));
+        }
+      });
+  }
+
+  return { date, ordersPerSlot: settings.ordersPerSlot, remaining };
+};
+
+/**
+ * Hold a slot for a checkout that is about to be created
+ * Checking and holding happen in one synchronous step so two checkouts can't both take the last place.
+ * @returns {string} booking ID, to attach the Square order to or release on failure
+ */
+const reserveSlot = ({ locationId, date, time }) => {
+  const settings = getSlotSettings(locationId);
+  if (settings.ordersPerSlot > 0 && countBookings(locationId, date, time, settings) >= settings.ordersPerSlot) {
+    throw new FulfillmentError('That pickup time is full. Please choose another time.', { slotFull: true });
+  }
+
+  const booking = {
+    id: `slot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    locationId,
+    date,
+    time,
+    orderId: null,
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+  bookings.push(booking);
+  saveBookings();
+  return booking.id;
+};
+
+const updateBooking = (predicate, changes) => {
+  const booking = bookings.find(predicate);
+  if (!booking) return null;
+  Object.assign(booking, changes);
+  saveBookings();
+  return booking;
+};
+
+// Link a held slot to the Square order created for it
+const attachSlotOrder = (bookingId, orderId) =>
+  updateBooking(booking => booking.id === bookingId, { orderId });
+
+// Checkout failed before an order existed
+const releaseSlot = (bookingId) =>
+  updateBooking(booking => booking.id === bookingId, { status: 'released' });
+
+// Paid orders keep their slot for good
+const confirmSlotBooking = (orderId) =>
+  updateBooking(booking => booking.orderId === orderId && booking.status === 'pending', { status: 'confirmed' });
+
+// Cancelled orders give their slot back
+const releaseSlotForOrder = (orderId) =>
+  updateBooking(booking => booking.orderId === orderId && booking.status !== 'released', { status: 'released' });
+
+loadBookings();
+
+module.exports = {
+  getSlotAvailability,
+  reserveSlot,
+  attachSlotOrder,
+  releaseSlot,
+  confirmSlotBooking,
+  releaseSlotForOrder
+};
@@ -0,0 +1,95 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slot-capacity-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.SLOT_CAPACITY_PATH = path.join(dataDir, 'slot-capacity.json');
+fs.writeFileSync(process.env.SLOT_CAPACITY_PATH, JSON.stringify({
+  default: { ordersPerSlot: 2, holdMinutes: 30 },
+  locations: { FOOD_TRUCK: { ordersPerSlot: 0 } }
+}));
+
+const {
+  getSlotAvailability,
+  reserveSlot,
+  attachSlotOrder,
+  releaseSlot,
+  confirmSlotBooking,
+  releaseSlotForOrder
+} = require('./slotCapacity');
+const { FulfillmentError } = require('./fulfillment');
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('pickup slot capacity', () => {
+  const slot = (date, time = '12:00') => ({ locationId: 'DOWNTOWN', date, time });
+
+  it('turns away a checkout once the slot is full', () => {
+    reserveSlot(slot('2026-11-02'));
+    reserveSlot(slot('2026-11-02'));
+
+    expect(() => reserveSlot(slot('2026-11-02'))).toThrow(FulfillmentError);
+    expect(() => reserveSlot(slot('2026-11-02'))).toThrow('That pickup time is full. Please choose another time.');
+    expect(getSlotAvailability('DOWNTOWN', '2026-11-02')).toEqual({
+      date: '2026-11-02',
+      ordersPerSlot: 2,
+      remaining: { '12:00': 0 }
+    });
+  });
+
+  it('counts each slot and location on its own', () => {
+    reserveSlot(slot('2026-11-03'));
+    reserveSlot(slot('2026-11-03'));
+
+    expect(() => reserveSlot(slot('2026-11-03', '12:15'))).not.toThrow();
+    expect(() => reserveSlot({ locationId: 'AIRPORT', date: '2026-11-03', time: '12:00' })).not.toThrow();
+  });
+
+  it('gives the place back when a checkout fails or its order is cancelled', () => {
+    const failed = reserveSlot(slot('2026-11-04'));
+    const paid = reserveSlot(slot('2026-11-04'));
+    attachSlotOrder(paid, 'ORDER_1');
+    confirmSlotBooking('ORDER_1');
+
+    releaseSlot(failed);
+    expect(getSlotAvailability('DOWNTOWN', '2026-11-04').remaining['12:00']).toBe(1);
+
+    releaseSlotForOrder('ORDER_1');
+    expect(getSlotAvailability('DOWNTOWN', '2026-11-04').remaining['12:00']).toBe(2);
+  });
+
+  it('lets an unpaid hold lapse but keeps a paid booking', () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z') });
+    reserveSlot(slot('2026-11-05'));
+    const paid = reserveSlot(slot('2026-11-05'));
+    attachSlotOrder(paid, 'ORDER_2');
+    confirmSlotBooking('ORDER_2');
+
+    jest.setSystemTime(new Date('2026-10-19T15:31:00Z'));
+
+    expect(getSlotAvailability('DOWNTOWN', '2026-11-05').remaining['12:00']).toBe(1);
+    expect(() => reserveSlot(slot('2026-11-05'))).not.toThrow();
+  });
+
+  it('never fills a location without a limit', () => {
+    const truck = { locationId: 'FOOD_TRUCK', date: '2026-11-06', time: '12:00' };
+    [1, 2, 3].forEach(() => reserveSlot(truck));
+
+    expect(() => reserveSlot(truck)).not.toThrow();
+    expect(getSlotAvailability('FOOD_TRUCK', '2026-11-06')).toEqual({ date: '2026-11-06', ordersPerSlot: 0, remaining: {} });
+  });
+
+  it('keeps bookings in DATA_DIR', () => {
+    const bookingId = reserveSlot(slot('2026-11-07'));
+
+    const saved = JSON.parse(fs.readFileSync(path.join(dataDir, 'slot-bookings.json'), 'utf8'));
+    expect(saved.bookings).toContainEqual(expect.objectContaining({ id: bookingId, date: '2026-11-07', status: 'pending' }));
+  });
+});
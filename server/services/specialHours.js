@@ -0,0 +1,78 @@
+// Holiday closures and special hours that override a location's weekly Square business hours
+// Dates live in config/special-hours.json: a default list for every location plus per-location
+// lists keyed by Square location ID. A location entry replaces a default entry for the same date.
+const path = require('path');
+const { readConfigFile } = require('./common');
+const { FulfillmentError } = require('./fulfillment');
+const { getZonedDateParts, timeToMinutes } = require('./time');
+
+const SPECIAL_HOURS_PATH = process.env.SPECIAL_HOURS_PATH || path.join(__dirname, '..', 'config', 'special-hours.json');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+// Entries without a valid date are dropped; entries without valid open/close times count as closed
+const normalizeEntry = (entry) => {
+  if (!entry || !DATE_PATTERN.test(String(entry.date))) return null;
+
+  const hasHours = TIME_PATTERN.test(String(entry.open)) && TIME_PATTERN.test(String(entry.close)) &&
+    timeToMinutes(entry.close) > timeToMinutes(entry.open);
+  const closed = Boolean(entry.closed) || !hasHours;
+
+  return {
+    date: entry.date,
+    closed,
+    ...(!closed && { open: entry.open, close: entry.close }),
+    ...(entry.reason && { reason: String(entry.reason) })
+  };
+};
+
+/**
+ * Special hours for a location from a date onwards (today in store time by default), sorted by date
+ * @returns {Array<{ date: string, closed: boolean, open?: string, close?: string, reason?: string }>}
+ */
+const getSpecialHours = (locationId, fromDate = getZonedDateParts().date) => {
+  const config = readConfigFile(SPECIAL_HOURS_PATH, 'special hours');
+  const byDate = new Map();
+
+  [
+    ...(Array.isArray(config.default) ? config.default : []),
+    ...(Array.isArray(config.locations?.[locationId]) ? config.locations[locationId] : [])
+  ].forEach(entry => {
+    const normalized = normalizeEntry(entry);
+    if (normalized) {
+      byDate.set(normalized.date, normalized);
+    }
+  });
+
+  return [...byDate.values()]
+    .filter(entry => entry.date >= fromDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Reject a pickup or delivery on a closure, or outside a day's special hours
+ * Weekly business hours are left to Square; this only covers the calendar overrides.
+ */
+const assertOpenForFulfillment = ({ locationId, date, time }) => {
+  const entry = getSpecialHours(locationId, date).find(special => special.date === date);
+  if (!entry) return;
+
+  const occasion = entry.reason ? ` for ${entry.reason}` : '';
+  if (entry.closed) {
+    throw new FulfillmentError(`We're closed on ${date}${occasion}. Please choose another day.`, { closedDate: date });
+  }
+
+  const minutes = timeToMinutes(time);
+  if (minutes < timeToMinutes(entry.open) || minutes >= timeToMinutes(entry.close)) {
+    throw new FulfillmentError(
+      `We're open ${entry.open} to ${entry.close} on ${date}${occasion}. Please choose a time within those hours.`,
+      { specialHours: entry }
+    );
+  }
+};
+
+module.exports = {
+  getSpecialHours,
+  assertOpenForFulfillment
+};
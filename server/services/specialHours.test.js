@@ -0,0 +1,69 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'special-hours-test-'));
+process.env.SPECIAL_HOURS_PATH = path.join(configDir, 'special-hours.json');
+fs.writeFileSync(process.env.SPECIAL_HOURS_PATH, JSON.stringify({
+  default: [
+    { date: '2026-12-25', closed: true, reason: 'Christmas' },
+    { date: '2026-12-24', open: '08:00', close: '14:00', reason: 'Christmas Eve' },
+    { date: '2026-11-26', closed: true, reason: 'Thanksgiving' },
+    { date: '2026-01-01', closed: true, reason: "New Year's Day" },
+    { date: 'next Tuesday', closed: true }
+  ],
+  locations: {
+    // The airport store opens on Thanksgiving, and its late hours are a mistake that counts as closed
+    AIRPORT: [
+      { date: '2026-11-26', open: '10:00', close: '16:00' },
+      { date: '2026-12-31', open: '18:00', close: '09:00' }
+    ]
+  }
+}));
+
+const { getSpecialHours, assertOpenForFulfillment } = require('./specialHours');
+const { FulfillmentError } = require('./fulfillment');
+
+afterAll(() => {
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+describe('getSpecialHours', () => {
+  it('lists the coming dates in order, dropping past and unreadable ones', () => {
+    expect(getSpecialHours('DOWNTOWN', '2026-10-19').map(entry => entry.date)).toEqual(['2026-11-26', '2026-12-24', '2026-12-25']);
+  });
+
+  it("lets a location's entry replace the default for the same date", () => {
+    expect(getSpecialHours('AIRPORT', '2026-10-19')).toEqual([
+      { date: '2026-11-26', closed: false, open: '10:00', close: '16:00' },
+      { date: '2026-12-24', closed: false, open: '08:00', close: '14:00', reason: 'Christmas Eve' },
+      { date: '2026-12-25', closed: true, reason: 'Christmas' },
+      { date: '2026-12-31', closed: true }
+    ]);
+  });
+});
+
+describe('assertOpenForFulfillment', () => {
+  const check = (locationId, date, time) => () => assertOpenForFulfillment({ locationId, date, time });
+
+  it('turns away a closed day, naming the occasion', () => {
+    expect(check('DOWNTOWN', '2026-11-26', '12:00')).toThrow(FulfillmentError);
+    expect(check('DOWNTOWN', '2026-12-25', '12:00')).toThrow("We're closed on 2026-12-25 for Christmas. Please choose another day.");
+  });
+
+  it('holds a special-hours day to its hours, closing time excluded', () => {
+    expect(check('DOWNTOWN', '2026-12-24', '08:00')).not.toThrow();
+    expect(check('DOWNTOWN', '2026-12-24', '13:45')).not.toThrow();
+    expect(check('DOWNTOWN', '2026-12-24', '14:00'))
+      .toThrow("We're open 08:00 to 14:00 on 2026-12-24 for Christmas Eve. Please choose a time within those hours.");
+  });
+
+  it("follows the location's override", () => {
+    expect(check('AIRPORT', '2026-11-26', '12:00')).not.toThrow();
+    expect(check('AIRPORT', '2026-12-31', '20:00')).toThrow("We're closed on 2026-12-31. Please choose another day.");
+  });
+
+  it('leaves ordinary days to the weekly hours', () => {
+    expect(check('DOWNTOWN', '2026-11-27', '06:00')).not.toThrow();
+  });
+});
@@ -0,0 +1,87 @@
+// Time helpers for store-local scheduling rules
+
+// Stores are in Central Time unless configured otherwise
+const STORE_TIMEZONE = process.env.STORE_TIMEZONE || 'America/Chicago';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Calendar date, weekday (0 = Sunday) and minutes since midnight for an instant in a time zone
+const getZonedDateParts = (date = new Date(), timeZone = STORE_TIMEZONE) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type) => parts.find(part => part.type === type)?.value;
+  const hour = parseInt(get('hour'), 10);
+  const minute = parseInt(get('minute'), 10);
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+    minutes: hour * 60 + minute
+  };
+};
+
+// "HH:MM" or "HH:MM:SS" to minutes since midnight
+const timeToMinutes = (time) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + (minute || 0);
+};
+
+// UTC offset in minutes ("GMT-05:00" -> -300) of a time zone at an instant
+const getTimeZoneOffsetMinutes = (date, timeZone) => {
+  const timeZoneName = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    timeZoneName: 'longOffset'
+  }).formatToParts(date).find(part => part.type === 'timeZoneName')?.value || 'GMT';
+
+  const match = timeZoneName.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+  if (!match) return 0;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3] || '0', 10);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC offset to read a wall-clock time (given as if it were UTC) with
+ * The offsets a day either side are the candidates around a DST change. A time repeated when clocks fall back
+ * is the earlier of its two instants, and a time skipped when they spring forward moves forward by the gap.
+ */
+const getWallClockOffsetMinutes = (wallClockUtc, timeZone) => {
+  const before = getTimeZoneOffsetMinutes(new Date(wallClockUtc - DAY_MS), timeZone);
+  const after = getTimeZoneOffsetMinutes(new Date(wallClockUtc + DAY_MS), timeZone);
+  const valid = [before, after].filter(offset =>
+    getTimeZoneOffsetMinutes(new Date(wallClockUtc - offset * 60000), timeZone) === offset
+  );
+  return valid.length > 0 ? Math.max(...valid) : before;
+};
+
+/**
+ * Wall-clock date ("YYYY-MM-DD") and time ("HH:MM") in a time zone as an RFC 3339 timestamp
+ * e.g. ("2025-07-04", "11:30") -> "2025-07-04T11:30:00-05:00" for Central Time in summer
+ */
+const toZonedTimestamp = (date, time, timeZone = STORE_TIMEZONE) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const offset = getWallClockOffsetMinutes(Date.UTC(year, month - 1, day, hour, minute), timeZone);
+
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${date}T${pad(hour)}:${pad(minute)}:00${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+module.exports = {
+  STORE_TIMEZONE,
+  getZonedDateParts,
+  timeToMinutes,
+  toZonedTimestamp
+};
@@ -0,0 +1,56 @@
+const { toZonedTimestamp } = require('./time');
+
+describe('toZonedTimestamp', () => {
+  it('uses the offset in effect on the day', () => {
+    expect(toZonedTimestamp('2026-07-04', '11:30', 'America/Chicago')).toBe('2026-07-04T11:30:00-05:00');
+    expect(toZonedTimestamp('2026-01-15', '11:30', 'America/Chicago')).toBe('2026-01-15T11:30:00-06:00');
+  });
+
+  describe('America/Chicago', () => {
+    // Clocks go from 2:00 CST to 3:00 CDT on March 8, 2026 and back from 2:00 CDT to 1:00 CST on November 1
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      const timestamp = toZonedTimestamp('2026-03-08', '02:30', 'America/Chicago');
+
+      expect(timestamp).toBe('2026-03-08T02:30:00-06:00');
+      expect(Date.parse(timestamp)).toBe(Date.parse('2026-03-08T03:30:00-05:00'));
+    });
+
+    it('uses daylight time from the moment clocks spring forward', () => {
+      expect(toZonedTimestamp('2026-03-08', '01:59', 'America/Chicago')).toBe('2026-03-08T01:59:00-06:00');
+      expect(toZonedTimestamp('2026-03-08', '03:00', 'America/Chicago')).toBe('2026-03-08T03:00:00-05:00');
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(toZonedTimestamp('2026-11-01', '01:30', 'America/Chicago')).toBe('2026-11-01T01:30:00-05:00');
+    });
+
+    it('uses standard time once the repeated hour is over', () => {
+      expect(toZonedTimestamp('2026-11-01', '02:00', 'America/Chicago')).toBe('2026-11-01T02:00:00-06:00');
+    });
+  });
+
+  describe('Europe/Berlin', () => {
+    // Clocks change at 1:00 UTC: 2:00 CET to 3:00 CEST on March 29, 2026 and 3:00 CEST to 2:00 CET on October 25
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      const timestamp = toZonedTimestamp('2026-03-29', '02:30', 'Europe/Berlin');
+
+      expect(timestamp).toBe('2026-03-29T02:30:00+01:00');
+      expect(Date.parse(timestamp)).toBe(Date.parse('2026-03-29T03:30:00+02:00'));
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(toZonedTimestamp('2026-10-25', '02:30', 'Europe/Berlin')).toBe('2026-10-25T02:30:00+02:00');
+    });
+  });
+
+  describe('Australia/Sydney', () => {
+    // Southern hemisphere: 3:00 AEDT to 2:00 AEST on April 5, 2026 and 2:00 AEST to 3:00 AEDT on October 4
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      expect(toZonedTimestamp('2026-10-04', '02:30', 'Australia/Sydney')).toBe('2026-10-04T02:30:00+10:00');
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(toZonedTimestamp('2026-04-05', '02:30', 'Australia/Sydney')).toBe('2026-04-05T02:30:00+11:00');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Square webhook helpers
+const crypto = require('crypto');
+
+// Square signs each notification with HMAC-SHA256 over the notification URL
+// followed by the raw request body, base64 encoded in x-square-hmacsha256-signature
+const verifySquareSignature = ({ rawBody, signature, notificationUrl, signatureKey }) => {
+  if (!rawBody || !signature || !notificationUrl || !signatureKey) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', signatureKey)
+    .update(notificationUrl + rawBody.toString('utf8'))
+    .digest('base64');
+
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+
+  // timingSafeEqual throws on length mismatch
+  if (expectedBuffer.length !== signatureBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
+
+// Express json() verify hook - keeps the raw body around for signature checks
+const captureRawBody = (req, res, buf) => {
+  if (buf && buf.length) {
+    req.rawBody = buf;
+  }
+};
+
+module.exports = {
+  verifySquareSignature,
+  captureRawBody
+};
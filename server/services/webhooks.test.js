@@ -0,0 +1,44 @@
+const crypto = require('crypto');
+const { verifySquareSignature, captureRawBody } = require('./webhooks');
+
+describe('verifySquareSignature', () => {
+  const signatureKey = 'webhook-signature-key';
+  const notificationUrl = 'https://api.example.com/api/square/webhooks';
+  const rawBody = Buffer.from(JSON.stringify({ event_id: 'EVENT_1', type: 'payment.updated' }));
+  const sign = (key, url, body) => crypto.createHmac('sha256', key).update(url + body.toString('utf8')).digest('base64');
+
+  it('accepts the HMAC Square sends for this URL and body', () => {
+    const signature = sign(signatureKey, notificationUrl, rawBody);
+
+    expect(verifySquareSignature({ rawBody, signature, notificationUrl, signatureKey })).toBe(true);
+  });
+
+  it('turns away a signature made with another key, for another URL or over another body', () => {
+    const check = (signature) => verifySquareSignature({ rawBody, signature, notificationUrl, signatureKey });
+
+    expect(check(sign('other-key', notificationUrl, rawBody))).toBe(false);
+    expect(check(sign(signatureKey, 'https://evil.example.com/hook', rawBody))).toBe(false);
+    expect(check(sign(signatureKey, notificationUrl, Buffer.from('{"event_id":"EVENT_2"}')))).toBe(false);
+  });
+
+  it('turns away a signature of the wrong length without throwing', () => {
+    expect(verifySquareSignature({ rawBody, signature: 'short', notificationUrl, signatureKey })).toBe(false);
+  });
+
+  it('turns everything away while the key or URL is not set up', () => {
+    const signature = sign(signatureKey, notificationUrl, rawBody);
+
+    expect(verifySquareSignature({ rawBody, signature, notificationUrl, signatureKey: undefined })).toBe(false);
+    expect(verifySquareSignature({ rawBody, signature, notificationUrl: '', signatureKey })).toBe(false);
+    expect(verifySquareSignature({ rawBody: undefined, signature, notificationUrl, signatureKey })).toBe(false);
+  });
+});
+
+describe('captureRawBody', () => {
+  it('keeps the raw bytes on the request for the signature check', () => {
+    const req = {};
+    captureRawBody(req, {}, Buffer.from('{}'));
+
+    expect(req.rawBody).toEqual(Buffer.from('{}'));
+  });
+});
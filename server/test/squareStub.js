@@ -0,0 +1,23 @@
+// Test stand-ins for makeSquareRequest, for the services that take a request function instead of calling Square
+
+/**
+ * A request function that answers by endpoint and records what was sent
+ * An Error as the response is thrown, like a failed Square call; unknown endpoints answer {}.
+ * @param {Object<string, object|Error>} responses - Keyed by endpoint, e.g. '/loyalty/programs/main'
+ */
+const stubSquare = (responses = {}) => jest.fn(async (endpoint) => {
+  const response = responses[endpoint];
+  if (response instanceof Error) throw response;
+  return response || {};
+});
+
+// The parsed JSON body of the first call made to an endpoint
+const sentBody = (squareRequest, endpoint) => {
+  const call = squareRequest.mock.calls.find(([called]) => called === endpoint);
+  return call && JSON.parse(call[1].body);
+};
+
+module.exports = {
+  stubSquare,
+  sentBody
+};
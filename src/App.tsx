@@ -3,7 +3,10 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 
 // Context Providers
+import { AccountProvider } from './contexts/AccountContext';
+import { FavoritesProvider } from './contexts/FavoritesContext';
 import { CartProvider } from './contexts/CartContext';
+import { LoyaltyProvider } from './contexts/LoyaltyContext';
 import { CheckoutProvider } from './contexts/CheckoutContext';
 import { StoreStatusProvider, useStoreStatus } from './contexts/StoreStatusContext';
 
@@ -23,6 +26,10 @@ const CartPage = React.lazy(() => import('./pages/CartPage'));
 const CheckoutPage = React.lazy(() => import('./pages/CheckoutPage'));
 const CheckoutSuccess = React.lazy(() => import('./pages/CheckoutSuccess'));
 const CheckoutCancel = React.lazy(() => import('./pages/CheckoutCancel'));
+const OrderTrackingPage = React.lazy(() => import('./pages/OrderTrackingPage'));
+const OrderHistoryPage = React.lazy(() => import('./pages/OrderHistoryPage'));
+const GiftCardsPage = React.lazy(() => import('./pages/GiftCardsPage'));
+const CateringPage = React.lazy(() => import('./pages/CateringPage'));
 const AboutPage = React.lazy(() => import('./pages/AboutPage'));
 const WaiverFormPage = React.lazy(() => import('./pages/WaiverFormPage'));
 const AccessibilityPage = React.lazy(() => import('./pages/AccessibilityPage'));
@@ -63,7 +70,10 @@ function AppContent() {
 
   return (
     <ErrorBoundary>
+      <AccountProvider>
+      <FavoritesProvider>
       <CartProvider>
+      <LoyaltyProvider>
         <CheckoutProvider>
           <Router>
             <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -100,6 +110,8 @@ function AppContent() {
                   <Route path="/accessibility" element={<AccessibilityPage />} />
                   <Route path="/cart" element={<CartPage />} />
                   <Route path="/checkout" element={<CheckoutPage />} />
+                  <Route path="/catering" element={<CateringPage />} />
+                  <Route path="/gift-cards" element={<GiftCardsPage />} />
                   
                   {/* Menu Routes */}
                   <Route path="/menu" element={<MenuPage />} />
@@ -112,6 +124,10 @@ function AppContent() {
                   {/* Checkout Routes */}
                   <Route path="/checkout/success" element={<CheckoutSuccess />} />
                   <Route path="/checkout/cancel" element={<CheckoutCancel />} />
+
+                  {/* Order Routes */}
+                  <Route path="/orders" element={<OrderHistoryPage />} />
+                  <Route path="/orders/:orderId" element={<OrderTrackingPage />} />
          
                 </Routes>
               </Suspense>
@@ -189,7 +205,10 @@ function AppContent() {
             </div>
           </Router>
         </CheckoutProvider>
+      </LoyaltyProvider>
       </CartProvider>
+      </FavoritesProvider>
+      </AccountProvider>
     </ErrorBoundary>
   );
 }
@@ -1,26 +1,22 @@
 import React, { useState } from 'react';
 import { Tag, X, Loader2 } from 'lucide-react';
-import { AppliedDiscount } from '../../types';
-import { squareService } from '../../services/squareService';
+import { AppliedDiscount, DiscountValidationResult } from '../../types';
 import toast from 'react-hot-toast';
 
 interface DiscountCodeProps {
   appliedDiscounts: AppliedDiscount[];
-  onDiscountApplied: (discount: AppliedDiscount) => void;
+  onApplyCode: (code: string) => Promise<DiscountValidationResult>;
   onDiscountRemoved: (discountId: string) => void;
-  subtotal: number;
-  cartItems: any[]; // CartItem[] - using any to avoid circular import
 }
 
 const DiscountCode: React.FC<DiscountCodeProps> = ({
   appliedDiscounts,
-  onDiscountApplied,
-  onDiscountRemoved,
-  subtotal,
-  cartItems
+  onApplyCode,
+  onDiscountRemoved
 }) => {
   const [discountCode, setDiscountCode] = useState('');
   const [isApplying, setIsApplying] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
 
   const handleApplyDiscount = async () => {
     if (!discountCode.trim()) {
@@ -39,30 +35,21 @@ const DiscountCode: React.FC<DiscountCodeProps> = ({
     }
 
     setIsApplying(true);
+    setCodeError(null);
     try {
-      const validationResult = await squareService.validateDiscount(
-        discountCode,
-        cartItems,
-        subtotal
-      );
-
-      if (validationResult.isValid && validationResult.discount && validationResult.appliedAmount) {
-        const appliedDiscount: AppliedDiscount = {
-          discountId: validationResult.discount.id,
-          code: validationResult.discount.code,
-          name: validationResult.discount.name,
-          type: validationResult.discount.type,
-          value: validationResult.discount.value,
-          appliedAmount: validationResult.appliedAmount,
-          appliedTo: 'order',
-          discount: validationResult.discount
-        };
-
-        onDiscountApplied(appliedDiscount);
+      const validationResult = await onApplyCode(discountCode);
+
+      if (validationResult.isValid && validationResult.discount) {
         setDiscountCode('');
         toast.success(`Discount applied: ${validationResult.discount.name}`);
+
+        // Explain any discount the new code took priority over
+        if (validationResult.replacedDiscountIds?.length && validationResult.replacedReason) {
+          toast(validationResult.replacedReason, { icon: 'ℹ️' });
+        }
       } else {
-        toast.error(validationResult.error || 'Invalid discount code');
+        // Kept on screen (not just a toast) so stacking conflicts can be read
+        setCodeError(validationResult.error || 'Invalid discount code');
       }
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
@@ -74,9 +61,9 @@ const DiscountCode: React.FC<DiscountCodeProps> = ({
     }
   };
 
-  const handleRemoveDiscount = (discountId: string, discountName: string) => {
+  const handleRemoveDiscount = (discountId: string) => {
     onDiscountRemoved(discountId);
-    toast.success(`Removed discount: ${discountName}`);
+    setCodeError(null);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -116,7 +103,7 @@ const DiscountCode: React.FC<DiscountCodeProps> = ({
                 </p>
               </div>
               <button
-                onClick={() => handleRemoveDiscount(discount.discountId, discount.name)}
+                onClick={() => handleRemoveDiscount(discount.discountId)}
                 className="text-green-800 hover:text-green-900 p-1"
                 title="Remove discount"
               >
@@ -133,7 +120,10 @@ const DiscountCode: React.FC<DiscountCodeProps> = ({
           <input
             type="text"
             value={discountCode}
-            onChange={(e) => setDiscountCode(e.target.value.toUpperCase())}
+            onChange={(e) => {
+              setDiscountCode(e.target.value.toUpperCase());
+              setCodeError(null);
+            }}
             onKeyPress={handleKeyPress}
             placeholder="Enter discount code"
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -155,6 +145,10 @@ const DiscountCode: React.FC<DiscountCodeProps> = ({
           </button>
         </div>
 
+        {codeError && (
+          <p className="text-sm text-red-600" role="alert">{codeError}</p>
+        )}
+
         {/* Sample Discount Codes */}
         <div className="text-xs text-gray-500">
           <p className="font-medium mb-1">Try these sample codes:</p>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Gift, Loader2, X } from 'lucide-react';
+import { GiftCardBalance } from '../../types';
+import { squareService } from '../../services/squareService';
+
+export interface AppliedGiftCard extends GiftCardBalance {
+  gan: string;
+}
+
+interface GiftCardPaymentProps {
+  appliedGiftCard: AppliedGiftCard | null;
+  amountDue: number; // Order total plus tip, in dollars (before tax, which Square adds)
+  onApply: (giftCard: AppliedGiftCard) => void;
+  onRemove: () => void;
+}
+
+// Gift card number entry for card payments; the balance pays first and the card covers the rest
+const GiftCardPayment: React.FC<GiftCardPaymentProps> = ({ appliedGiftCard, amountDue, onApply, onRemove }) => {
+  const [gan, setGan] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      const giftCard = await squareService.checkGiftCardBalance(gan);
+      if (giftCard.state !== 'ACTIVE' || giftCard.balance <= 0) {
+        setError('This gift card has no balance left');
+        return;
+      }
+      onApply({ ...giftCard, gan });
+      setGan('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to check the gift card balance');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (appliedGiftCard) {
+    const covered = Math.min(appliedGiftCard.balance, amountDue);
+    return (
+      <div className="flex items-center justify-between border border-green-200 bg-green-50 rounded-lg p-4">
+        <div className="text-sm">
+          <p className="font-medium text-green-800">Gift card ending {appliedGiftCard.last4}</p>
+          <p className="text-green-800">
+            Balance ${appliedGiftCard.balance.toFixed(2)} · pays about ${covered.toFixed(2)}
+            {appliedGiftCard.balance < amountDue ? ', your card pays the rest' : ''}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1 text-green-800 hover:text-green-900"
+          aria-label="Remove gift card"
+        >
+          <X className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-gray-300 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Gift card</span>
+        <Gift className="w-5 h-5" aria-hidden="true" />
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="off"
+          value={gan}
+          onChange={(e) => {
+            setGan(e.target.value);
+            setError(null);
+          }}
+          placeholder="Gift card number"
+          aria-label="Gift card number"
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={isChecking}
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isChecking || !gan.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center min-w-[90px]"
+        >
+          {isChecking ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> : 'Apply'}
+        </button>
+      </div>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default GiftCardPayment;
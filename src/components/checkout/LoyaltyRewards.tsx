@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Award, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { LoyaltyRewardTier } from '../../types';
+import { useCart } from '../../contexts/CartContext';
+import { useLoyalty } from '../../contexts/LoyaltyContext';
+import { useAccount } from '../../contexts/AccountContext';
+import { formatPrice } from '../../utils/priceCalculations';
+
+const describeReward = (tier: LoyaltyRewardTier) => {
+  if (tier.discountType === 'percentage') {
+    const cap = tier.maxDiscountCents ? ` (up to ${formatPrice(tier.maxDiscountCents / 100)})` : '';
+    return `${tier.value}% off your order${cap}`;
+  }
+  return `${formatPrice(tier.value / 100)} off your order`;
+};
+
+// Square Loyalty in the cart: points balance by phone number, points this order earns, and rewards to redeem
+const LoyaltyRewards: React.FC = () => {
+  const { appliedDiscounts, applyLoyaltyReward, removeDiscount } = useCart();
+  const { program, phone, account, isLookingUp, lookupError, pointsEstimate, lookUpPoints, forgetPhone } = useLoyalty();
+  const { isSignedIn } = useAccount();
+  const [phoneInput, setPhoneInput] = useState('');
+
+  if (!program) return null;
+
+  const appliedReward = appliedDiscounts.find(discount => discount.type === 'loyalty_points');
+  const pointsLabel = (points: number) => `${points} ${points === 1 ? program.pointsName.one : program.pointsName.other}`;
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (phoneInput.trim()) {
+      lookUpPoints(phoneInput.trim());
+    }
+  };
+
+  const handleRedeem = (tier: LoyaltyRewardTier) => {
+    applyLoyaltyReward(tier);
+    toast.success(`${tier.name} applied - ${pointsLabel(tier.points)} will be used when you pay`);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+        <Award className="h-5 w-5 text-amber-600" aria-hidden="true" />
+        Rewards
+      </h3>
+
+      {!phone ? (
+        <form onSubmit={handleLookup} className="space-y-2">
+          <label htmlFor="loyalty-phone" className="block text-sm text-gray-700">
+            Enter your phone number to earn {program.pointsName.other.toLowerCase()} on this order
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="loyalty-phone"
+              type="tel"
+              value={phoneInput}
+              onChange={(e) => setPhoneInput(e.target.value)}
+              placeholder="Phone number"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              disabled={isLookingUp}
+            />
+            <button
+              type="submit"
+              disabled={isLookingUp || !phoneInput.trim()}
+              className="px-4 py-2 bg-amber-600 text-white rounded-md text-sm font-medium hover:bg-amber-700 disabled:opacity-50"
+            >
+              {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> : 'Go'}
+            </button>
+          </div>
+          {lookupError && (
+            <p className="text-sm text-red-600" role="alert">{lookupError}</p>
+          )}
+        </form>
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-2 text-sm">
+            <div>
+              <p className="font-medium text-gray-900">
+                {account ? `${pointsLabel(account.balance)} available` : isSignedIn ? 'No points yet' : 'Sign in to see your points'}
+              </p>
+              <p className="text-gray-600">{phone}</p>
+              {lookupError && (
+                <p className="text-red-600" role="alert">{lookupError}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={forgetPhone}
+              className="text-amber-800 hover:text-amber-900 font-medium"
+            >
+              Not you?
+            </button>
+          </div>
+
+          {pointsEstimate !== null && pointsEstimate > 0 && (
+            <p className="text-sm text-amber-900">
+              This order earns <span className="font-semibold">{pointsLabel(pointsEstimate)}</span>
+            </p>
+          )}
+
+          {appliedReward ? (
+            <div className="flex items-center justify-between bg-white border border-amber-200 rounded-md p-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{appliedReward.name}</p>
+                <p className="text-green-700">Saving {formatPrice(appliedReward.appliedAmount)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeDiscount(appliedReward.discountId)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                aria-label={`Remove ${appliedReward.name}`}
+              >
+                <X className="h-4 w-4" aria-hidden="true" />
+              </button>
+            </div>
+          ) : program.rewardTiers.length > 0 && (
+            <ul className="space-y-2">
+              {program.rewardTiers.map(tier => {
+                const canRedeem = (account?.balance || 0) >= tier.points;
+                return (
+                  <li key={tier.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{tier.name}</p>
+                      <p className="text-gray-600">{describeReward(tier)} · {pointsLabel(tier.points)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRedeem(tier)}
+                      disabled={!canRedeem}
+                      className="shrink-0 px-3 py-1.5 bg-amber-600 text-white rounded-md font-medium hover:bg-amber-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Redeem
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {appliedReward && (
+            <p className="text-xs text-gray-500">Rewards are redeemed through Square checkout for signed-in customers with this phone number on their account.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LoyaltyRewards;
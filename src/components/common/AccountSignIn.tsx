@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+
+interface AccountSignInProps {
+  defaultEmail?: string; // Prefills the email step, e.g. from the checkout contact form
+}
+
+// Passwordless sign-in: email a one-time code, then enter it to sign in (or create the account)
+const AccountSignIn: React.FC<AccountSignInProps> = ({ defaultEmail = '' }) => {
+  const { requestSignInCode, verifySignInCode } = useAccount();
+  const [step, setStep] = useState<'email' | 'code'>('email');
+  const [email, setEmail] = useState(defaultEmail);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the contact email until a code has been sent to it
+  useEffect(() => {
+    if (step === 'email' && defaultEmail) {
+      setEmail(defaultEmail);
+    }
+  }, [defaultEmail, step]);
+
+  const handleSendCode = async () => {
+    if (!email.trim()) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await requestSignInCode(email.trim());
+      setStep('code');
+      setCode('');
+      toast.success(`We sent a sign-in code to ${email.trim()}`);
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send a sign-in code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError('Enter the 6-digit code from the email');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const profile = await verifySignInCode(email.trim(), code.trim());
+      toast.success(`Signed in as ${profile.email}`);
+    } catch (verifyError) {
+      setError(verifyError instanceof Error ? verifyError.message : 'Failed to verify the code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Enter submits this step rather than the surrounding checkout form
+  const handleKeyDown = (e: React.KeyboardEvent, action: () => void) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {step === 'email' ? (
+        <div className="flex gap-2">
+          <input
+            type="email"
+            placeholder="Email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e, handleSendCode)}
+            aria-label="Email address for sign-in"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={handleSendCode}
+            disabled={isSubmitting}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+            Send code
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Enter the 6-digit code we sent to <span className="font-medium">{email.trim()}</span>.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => handleKeyDown(e, handleVerifyCode)}
+              aria-label="Sign-in code"
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={handleVerifyCode}
+              disabled={isSubmitting}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Sign in
+            </button>
+          </div>
+          <div className="flex gap-4 text-sm">
+            <button type="button" onClick={handleSendCode} disabled={isSubmitting} className="text-blue-600 hover:underline">
+              Send a new code
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setStep('email');
+                setError(null);
+              }}
+              className="text-gray-600 hover:underline"
+            >
+              Use a different email
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default AccountSignIn;
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { ChevronLeft, ChevronRight, Calendar, Clock, X } from 'lucide-react';
-import { StoreLocation } from '../../types';
+import { SpecialHours, StoreLocation } from '../../types';
 import { squareService } from '../../services/squareService';
+import { DEFAULT_LEAD_TIME_MINUTES, formatLeadTime, isTooSoon } from '../../utils/leadTime';
+import { getHoursForDate } from '../../utils/storeHours';
+import { addDays, getTimeZoneAbbreviation, getZonedToday, isForeignTimeZone } from '../../utils/timezone';
+
+// Slots with this many places or fewer show how many are left
+const LOW_SLOT_CAPACITY = 2;
+
+// Sunday of the store's current week, at local midnight for calendar arithmetic
+const getStoreWeekStart = (timeZone?: string): Date => {
+  const [year, month, day] = getZonedToday(timeZone).split('-').map(Number);
+  const weekStart = new Date(year, month - 1, day);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  return weekStart;
+};
 
 interface DateTimePickerProps {
   selectedDate?: string;
@@ -9,6 +23,8 @@ interface DateTimePickerProps {
   onDateTimeSelect: (date: string, time: string) => void;
   storeHours?: { [key: string]: { open: string; close: string; closed?: boolean } };
   selectedLocation?: StoreLocation;
+  leadTimeMinutes?: number; // Minimum notice for the order; slots sooner than this are hidden
+  leadTimeItemName?: string; // Item that needs the longer notice, shown to explain missing slots
 }
 
 const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
@@ -16,15 +32,20 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
   selectedTime,
   onDateTimeSelect,
   storeHours: propStoreHours,
-  selectedLocation
+  selectedLocation,
+  leadTimeMinutes = DEFAULT_LEAD_TIME_MINUTES,
+  leadTimeItemName
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentWeekStart, setCurrentWeekStart] = useState<Date>(new Date());
   const [availableTimes, setAvailableTimes] = useState<string[]>([]);
   const [storeHours, setStoreHours] = useState<{ [key: string]: { open: string; close: string; closed?: boolean } } | null>(propStoreHours || null);
+  const [specialHours, setSpecialHours] = useState<SpecialHours[]>(selectedLocation?.specialHours || []);
+  const [timeZone, setTimeZone] = useState<string | undefined>(selectedLocation?.timezone);
   const [isLoading, setIsLoading] = useState(false);
   const [tempSelectedDate, setTempSelectedDate] = useState<string | null>(selectedDate || null);
   const [tempSelectedTime, setTempSelectedTime] = useState<string | null>(selectedTime || null);
+  const [slotsRemaining, setSlotsRemaining] = useState<{ [time: string]: number }>({});
 
   // Simple, reliable date formatting - no timezone conversions
   const formatDateToString = (date: Date): string => {
@@ -34,19 +55,17 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
     return `${year}-${month}-${day}`;
   };
 
-  // Get today's date in local timezone
+  // Today's date where the store is - a customer in another time zone may already be on a different day
   const getTodayString = (): string => {
-    return formatDateToString(new Date());
+    return getZonedToday(timeZone);
   };
 
+  const getTodayWeekStart = (): Date => getStoreWeekStart(timeZone);
+
   // Initialize current week to start from today
   useEffect(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - dayOfWeek);
-    setCurrentWeekStart(startOfWeek);
-  }, []);
+    setCurrentWeekStart(getStoreWeekStart(timeZone));
+  }, [timeZone]);
 
   // Auto-select today's date when modal opens if no date is selected
   useEffect(() => {
@@ -66,12 +85,17 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
           if (location && location.hours) {
             setStoreHours(location.hours);
           }
+          // The saved location may predate this week's holiday schedule
+          setSpecialHours(location?.specialHours || selectedLocation.specialHours || []);
+          setTimeZone(location?.timezone || selectedLocation.timezone);
         } catch (error) {
         } finally {
           setIsLoading(false);
         }
       } else if (propStoreHours) {
         setStoreHours(propStoreHours);
+        setSpecialHours(selectedLocation?.specialHours || []);
+        setTimeZone(selectedLocation?.timezone);
       }
     };
 
@@ -85,12 +109,8 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
       return;
     }
 
-    // Parse the selected date
-    const [year, month, day] = tempSelectedDate.split('-').map(Number);
-    const selectedDateObj = new Date(year, month - 1, day);
-    const dayName = selectedDateObj.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    
-    const hours = storeHours[dayName];
+    // Holiday closures and special hours replace the weekly hours for their date
+    const hours = getHoursForDate(storeHours, specialHours, tempSelectedDate);
     if (!hours || hours.closed) {
       setAvailableTimes([]);
       return;
@@ -115,10 +135,6 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
       return;
     }
     
-    const now = new Date();
-    const todayString = getTodayString();
-    const isToday = tempSelectedDate === todayString;
-    
     // Generate 15-minute intervals
     for (let time = openTime; time < closeTime; time += 15) {
       const hour = Math.floor(time / 60);
@@ -128,32 +144,51 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
       
       const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
       
-      // For today, only show times that haven't passed yet with prep time
-      if (isToday) {
-        const selectedDateTime = new Date(year, month - 1, day, hour, minute);
-        const timeDiff = selectedDateTime.getTime() - now.getTime();
-        const fifteenMinutes = 15 * 60 * 1000;
-        
-        if (timeDiff >= fifteenMinutes) {
-          times.push(timeString);
-        }
-      } else {
+      // Only show times far enough out for the order's prep/lead time
+      if (!isTooSoon(tempSelectedDate, timeString, leadTimeMinutes, timeZone)) {
         times.push(timeString);
       }
     }
     
     setAvailableTimes(times);
-  }, [tempSelectedDate, storeHours]);
+  }, [tempSelectedDate, storeHours, specialHours, leadTimeMinutes, timeZone]);
+
+  // Fetch how many orders each slot can still take; the server rejects full slots at checkout anyway
+  const locationId = selectedLocation?.id;
+  useEffect(() => {
+    if (!isModalOpen || !tempSelectedDate || !locationId) {
+      setSlotsRemaining({});
+      return;
+    }
+
+    let cancelled = false;
+    squareService.getSlotAvailability(locationId, tempSelectedDate)
+      .then(availability => {
+        if (!cancelled) {
+          setSlotsRemaining(availability.remaining);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setSlotsRemaining({});
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isModalOpen, tempSelectedDate, locationId]);
+
+  const hasExtendedLeadTime = leadTimeMinutes > DEFAULT_LEAD_TIME_MINUTES;
+
+  const isSlotFull = (time: string) => slotsRemaining[time] === 0;
 
   const formatDisplayDate = (dateString: string) => {
     const [year, month, day] = dateString.split('-').map(Number);
     const date = new Date(year, month - 1, day);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
     
     const todayString = getTodayString();
-    const tomorrowString = formatDateToString(tomorrow);
+    const tomorrowString = addDays(todayString, 1);
     
     if (dateString === todayString) {
       return 'Today';
@@ -193,6 +228,7 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
   };
 
   const handleTimeSelect = (time: string) => {
+    if (isSlotFull(time)) return;
     setTempSelectedTime(time);
   };
 
@@ -215,9 +251,7 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
     newStart.setDate(currentWeekStart.getDate() + offset);
     
     // Don't go before the current week
-    const today = new Date();
-    const todayWeekStart = new Date(today);
-    todayWeekStart.setDate(today.getDate() - today.getDay());
+    const todayWeekStart = getTodayWeekStart();
     
     if (direction === 'prev' && newStart < todayWeekStart) {
       return;
@@ -297,6 +331,18 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
             </div>
 
             <div className="p-4 sm:p-6 space-y-6 sm:space-y-8">
+              {isForeignTimeZone(timeZone) && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+                  Pickup times are shown in the store's local time ({getTimeZoneAbbreviation(timeZone)}).
+                </div>
+              )}
+
+              {hasExtendedLeadTime && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                  {leadTimeItemName || 'An item in your cart'} needs at least {formatLeadTime(leadTimeMinutes)} notice, so earlier times aren't shown.
+                </div>
+              )}
+
               {/* Date Selection */}
               <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 sm:p-6">
                 <div className="flex items-center justify-between mb-4 sm:mb-6">
@@ -311,12 +357,7 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                     <button
                       onClick={() => navigateWeek('prev')}
                       className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                      disabled={(() => {
-                        const today = new Date();
-                        const todayWeekStart = new Date(today);
-                        todayWeekStart.setDate(today.getDate() - today.getDay());
-                        return currentWeekStart <= todayWeekStart;
-                      })()}
+                      disabled={currentWeekStart <= getTodayWeekStart()}
                       aria-label="Previous week"
                     >
                       <ChevronLeft className="w-5 h-5 text-gray-600" aria-hidden="true" />
@@ -335,26 +376,29 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                   {getWeekDates().map((date) => {
                     const [year, month, day] = date.split('-').map(Number);
                     const dayDate = new Date(year, month - 1, day);
-                    const dayName = dayDate.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-                    const hours = storeHours?.[dayName];
+                    const hours = getHoursForDate(storeHours, specialHours, date);
                     const isClosed = !hours || hours.closed;
+                    const specialReason = hours?.special?.reason;
                     const isSelected = tempSelectedDate === date;
                     const todayString = getTodayString();
                     const isToday = date === todayString;
                     const isPast = date < todayString;
+                    // Open days whose last slot is still inside the lead time
+                    const isTooSoonDay = !isPast && !isClosed && hasExtendedLeadTime && isTooSoon(date, hours.close, leadTimeMinutes, timeZone);
                     
                     return (
                       <button
                         key={date}
-                        onClick={() => !isClosed && !isPast && handleDateSelect(date)}
-                        disabled={isClosed || isPast}
+                        onClick={() => !isClosed && !isPast && !isTooSoonDay && handleDateSelect(date)}
+                        disabled={isClosed || isPast || isTooSoonDay}
+                        title={specialReason}
                         className={`
                           relative p-2 sm:p-4 rounded-lg sm:rounded-xl border-2 text-center transition-all duration-300 transform hover:scale-105
                           ${isSelected 
                             ? 'bg-gradient-to-br from-green-500 to-green-600 text-white border-green-500 shadow-lg shadow-green-200' 
                             : isPast
                             ? 'bg-gray-50 text-gray-400 border-gray-200 cursor-not-allowed opacity-60'
-                            : isClosed
+                            : isClosed || isTooSoonDay
                             ? 'bg-gray-50 text-gray-400 border-gray-200 cursor-not-allowed opacity-60'
                             : 'bg-white text-gray-900 border-gray-200 hover:border-green-300 hover:bg-green-50 hover:shadow-md'
                           }
@@ -376,9 +420,14 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                         <div className="text-xs opacity-75 hidden sm:block">
                           {dayDate.toLocaleDateString('en-US', { month: 'short' })}
                         </div>
+                        {hours?.special && !isClosed && !isPast && (
+                          <div className={`text-[10px] sm:text-xs font-medium mt-0.5 ${isSelected ? 'text-green-100' : 'text-amber-600'}`}>
+                            Special hours
+                          </div>
+                        )}
                         {isClosed && !isPast && (
                           <div className="absolute inset-0 flex items-center justify-center bg-gray-100 bg-opacity-90 rounded-xl">
-                            <span className="text-xs font-medium text-gray-500">Closed</span>
+                            <span className="text-xs font-medium text-gray-500 px-1 leading-tight">{specialReason || 'Closed'}</span>
                           </div>
                         )}
                         {isPast && (
@@ -386,6 +435,11 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                             <span className="text-xs font-medium text-gray-500">Past</span>
                           </div>
                         )}
+                        {isTooSoonDay && (
+                          <div className="absolute inset-0 flex items-center justify-center bg-gray-100 bg-opacity-90 rounded-xl">
+                            <span className="text-xs font-medium text-gray-500">Too soon</span>
+                          </div>
+                        )}
                       </button>
                     );
                   })}
@@ -403,6 +457,16 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                     <span className="sm:hidden">Pick time</span>
                   </h3>
                   
+                  {(() => {
+                    const special = getHoursForDate(storeHours, specialHours, tempSelectedDate)?.special;
+                    if (!special || special.closed || !special.open || !special.close) return null;
+                    return (
+                      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4 text-sm text-amber-800">
+                        {special.reason ? `${special.reason}: special` : 'Special'} hours {formatDisplayTime(special.open)} - {formatDisplayTime(special.close)}
+                      </div>
+                    );
+                  })()}
+
                   {availableTimes.length === 0 ? (
                     <div className="text-center py-8">
                       <div className="mb-4">
@@ -414,13 +478,20 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                           {(() => {
                             const [year, month, day] = tempSelectedDate.split('-').map(Number);
                             const date = new Date(year, month - 1, day);
-                            const dayName = date.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-                            const hours = storeHours?.[dayName];
+                            const hours = getHoursForDate(storeHours, specialHours, tempSelectedDate);
                             const isToday = tempSelectedDate === getTodayString();
                             
+                            if (hours?.special?.closed) {
+                              return `We're closed ${hours.special.reason ? `for ${hours.special.reason}` : 'on this day'}. Please select another day.`;
+                            }
+
                             if (!hours || hours.closed) {
                               return `We're closed on ${date.toLocaleDateString('en-US', { weekday: 'long' })}s. Please select another day.`;
                             }
+
+                            if (hasExtendedLeadTime) {
+                              return `${leadTimeItemName || 'Your order'} needs at least ${formatLeadTime(leadTimeMinutes)} notice. Please select a later day.`;
+                            }
                             
                             if (isToday) {
                               return `No more pickup slots available today. We're open ${hours.open} - ${hours.close}. Try selecting tomorrow or another day.`;
@@ -433,10 +504,7 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                       </div>
                       <button
                         onClick={() => {
-                          const tomorrow = new Date();
-                          tomorrow.setDate(tomorrow.getDate() + 1);
-                          const tomorrowString = formatDateToString(tomorrow);
-                          handleDateSelect(tomorrowString);
+                          handleDateSelect(addDays(getTodayString(), 1));
                         }}
                         className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
                       >
@@ -446,23 +514,37 @@ const DateTimePickerNew: React.FC<DateTimePickerProps> = ({
                   ) : (
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-2 sm:gap-3 max-h-60 sm:max-h-80 overflow-y-auto">
                       {availableTimes.map((time) => {
-                        const isSelected = tempSelectedTime === time;
+                        const isFull = isSlotFull(time);
+                        const isSelected = tempSelectedTime === time && !isFull;
+                        const remaining = slotsRemaining[time];
+                        const isLow = remaining !== undefined && remaining > 0 && remaining <= LOW_SLOT_CAPACITY;
                         
                         return (
                           <button
                             key={time}
                             onClick={() => handleTimeSelect(time)}
+                            disabled={isFull}
                             className={`
-                              relative p-3 sm:p-4 rounded-lg sm:rounded-xl border-2 text-center transition-all duration-300 transform hover:scale-105
-                              ${isSelected 
-                                ? 'bg-gradient-to-br from-blue-500 to-blue-600 text-white border-blue-500 shadow-lg shadow-blue-200' 
-                                : 'bg-white text-gray-900 border-gray-200 hover:border-blue-300 hover:bg-blue-50 hover:shadow-md'
+                              relative p-3 sm:p-4 rounded-lg sm:rounded-xl border-2 text-center transition-all duration-300
+                              ${isFull
+                                ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+                                : isSelected 
+                                  ? 'transform hover:scale-105 bg-gradient-to-br from-blue-500 to-blue-600 text-white border-blue-500 shadow-lg shadow-blue-200' 
+                                  : 'transform hover:scale-105 bg-white text-gray-900 border-gray-200 hover:border-blue-300 hover:bg-blue-50 hover:shadow-md'
                               }
                             `}
                           >
-                            <div className="text-xs sm:text-sm font-bold">
+                            <div className={`text-xs sm:text-sm font-bold ${isFull ? 'line-through' : ''}`}>
                               {formatDisplayTime(time)}
                             </div>
+                            {isFull && (
+                              <div className="text-xs font-medium mt-0.5">Full</div>
+                            )}
+                            {isLow && (
+                              <div className={`text-xs font-medium mt-0.5 ${isSelected ? 'text-blue-100' : 'text-amber-600'}`}>
+                                {remaining} left
+                              </div>
+                            )}
                             {isSelected && (
                               <div className="absolute -top-1 -right-1 sm:-top-2 sm:-right-2 bg-green-500 text-white rounded-full w-4 h-4 sm:w-6 sm:h-6 flex items-center justify-center">
                                 <svg className="w-2 h-2 sm:w-3 sm:h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -3,6 +3,8 @@ import { StoreLocation } from '../../types';
 import { useCart } from '../../contexts/CartContext';
 import { MapPin, Clock, Phone, Mail, X } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { getTodayHours } from '../../utils/storeHours';
+import { getZonedDateParts } from '../../utils/timezone';
 
 interface LocationSelectorProps {
   locations: StoreLocation[];
@@ -32,12 +34,12 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
     onClose();
   };
 
-  const formatHours = (hours: StoreLocation['hours']) => {
-    const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const todayHours = hours[today];
+  // Today's hours, with holiday closures and special hours taking precedence
+  const formatHours = (location: StoreLocation) => {
+    const todayHours = getTodayHours(location);
     
     if (todayHours?.closed) {
-      return 'Closed Today';
+      return todayHours.special?.reason ? `Closed Today (${todayHours.special.reason})` : 'Closed Today';
     }
     
     const formatTime = (time: string) => {
@@ -73,17 +75,19 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
       return `${displayHour}:${displayMinute} ${period}`;
     };
     
-    return `${formatTime(todayHours?.open || '')} - ${formatTime(todayHours?.close || '')}`;
+    const range = `${formatTime(todayHours?.open || '')} - ${formatTime(todayHours?.close || '')}`;
+    return todayHours?.special?.reason ? `${range} (${todayHours.special.reason})` : range;
   };
 
   const isCurrentlyOpen = (location: StoreLocation) => {
     const now = new Date();
-    const today = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const todayHours = location.hours[today];
+    const todayHours = getTodayHours(location, now);
     
-    if (todayHours?.closed) return false;
+    if (!todayHours || todayHours.closed) return false;
     
-    const currentTime = now.getHours() * 100 + now.getMinutes();
+    // Compare against the clock where the store is, not where the customer is
+    const { minutes } = getZonedDateParts(now, location.timezone);
+    const currentTime = Math.floor(minutes / 60) * 100 + minutes % 60;
     const openTime = parseInt(todayHours?.open.replace(/[^\d]/g, '') || '0');
     const closeTime = parseInt(todayHours?.close.replace(/[^\d]/g, '') || '0');
     
@@ -168,7 +172,7 @@ const LocationSelector: React.FC<LocationSelectorProps> = ({
                       <div className="flex items-center gap-2 text-green-800">
                         <Clock className="w-4 h-4 flex-shrink-0" />
                         <span className="text-sm font-medium">
-                          Today: {formatHours(location.hours)}
+                          Today: {formatHours(location)}
                         </span>
                       </div>
                       
@@ -0,0 +1,98 @@
+import React, { ReactNode } from 'react';
+import { Zap, Calendar, RefreshCw } from 'lucide-react';
+import { useCart } from '../../contexts/CartContext';
+
+interface PickupTimingSelectorProps {
+  children: ReactNode; // The scheduled-time picker, shown when "Schedule" is chosen
+}
+
+// ASAP / Schedule toggle with the live ASAP ready-time estimate
+const PickupTimingSelector: React.FC<PickupTimingSelectorProps> = ({ children }) => {
+  const {
+    selectedLocation,
+    pickupMode,
+    asapQuote,
+    asapError,
+    isQuotingAsap,
+    setPickupMode,
+    refreshAsapQuote
+  } = useCart();
+
+  const formatReadyTime = (readyAt: string) =>
+    new Date(readyAt).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      ...(selectedLocation?.timezone && { timeZone: selectedLocation.timezone })
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          type="button"
+          onClick={() => setPickupMode('asap')}
+          className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+            pickupMode === 'asap'
+              ? 'border-green-500 bg-green-500 text-white'
+              : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+          }`}
+        >
+          <Zap className="w-5 h-5 mr-2" />
+          <span className="text-sm">ASAP</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => setPickupMode('scheduled')}
+          className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+            pickupMode === 'scheduled'
+              ? 'border-green-500 bg-green-500 text-white'
+              : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+          }`}
+        >
+          <Calendar className="w-5 h-5 mr-2" />
+          <span className="text-sm">Schedule</span>
+        </button>
+      </div>
+
+      {pickupMode === 'scheduled' ? (
+        children
+      ) : (
+        <div className="border-2 border-green-200 bg-green-50 rounded-lg p-4" aria-live="polite">
+          {asapQuote ? (
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium text-gray-900">
+                  Ready in about {asapQuote.minutes} min ({formatReadyTime(asapQuote.readyAt)})
+                </div>
+                <div className="text-sm text-gray-600">
+                  {asapQuote.queueDepth === 0
+                    ? 'No orders ahead of you'
+                    : `${asapQuote.queueDepth} order${asapQuote.queueDepth === 1 ? '' : 's'} ahead of you`}
+                  {' - '}this time is held when you check out
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => refreshAsapQuote()}
+                disabled={isQuotingAsap}
+                className="p-2 rounded-lg text-green-700 hover:bg-green-100 transition-colors disabled:opacity-50"
+                aria-label="Refresh ASAP estimate"
+              >
+                <RefreshCw className={`w-4 h-4 ${isQuotingAsap ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+          ) : isQuotingAsap ? (
+            <div className="text-sm text-gray-600">Checking the kitchen queue...</div>
+          ) : (
+            <div className="text-sm text-red-600">
+              {asapError || 'ASAP pickup is not available right now. Please schedule a pickup time.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PickupTimingSelector;
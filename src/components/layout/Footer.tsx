@@ -69,6 +69,9 @@ const Footer: React.FC<FooterProps> = ({ id }) => {
               <Link to="/about" className="block text-gray-300 hover:text-white transition-colors">
                 About Us
               </Link>
+              <Link to="/gift-cards" className="block text-gray-300 hover:text-white transition-colors">
+                Gift Cards
+              </Link>
               <Link to="/contact" className="block text-gray-300 hover:text-white transition-colors">
                 Contact
               </Link>
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { ShoppingCart, Menu, X, ChevronDown } from 'lucide-react';
+import { ShoppingCart, Menu, X, ChevronDown, User } from 'lucide-react';
 import { useCart } from '../../contexts/CartContext';
 
 const Navbar: React.FC = () => {
@@ -164,6 +164,15 @@ const Navbar: React.FC = () => {
 
           {/* Right Side Icons */}
           <div className="flex items-center space-x-4">
+            {/* Account and order history */}
+            <Link 
+              to="/orders" 
+              className="p-2 text-gray-900 hover:text-emerald-700 transition-colors"
+              aria-label="Your account and past orders"
+            >
+              <User className="w-5 h-5" aria-hidden="true" />
+            </Link>
+
             {/* Cart Icon */}
             <Link 
               to="/cart" 
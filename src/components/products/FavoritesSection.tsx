@@ -0,0 +1,122 @@
+import React from 'react';
+import { Heart, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Favorite, Product } from '../../types';
+import { useCart } from '../../contexts/CartContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { calculateItemPrice, formatPrice } from '../../utils/priceCalculations';
+
+interface FavoritesSectionProps {
+  products: Product[]; // Current menu, to match favorites against
+}
+
+// Saved options that still exist on the product, plus the names of any that no longer do
+const resolveFavoriteOptions = (favorite: Favorite, product: Product) => {
+  const selectedVariants: { [variantId: string]: string | string[] } = {};
+  const missingOptions: string[] = [];
+
+  Object.entries(favorite.selectedVariants || {}).forEach(([variantId, value]) => {
+    const variant = product.variants?.find(candidate => candidate.id === variantId);
+    const names = Array.isArray(value) ? value : [value];
+    const available = names.filter(name => variant?.options.some(option => option.name === name));
+    missingOptions.push(...names.filter(name => !available.includes(name)));
+
+    if (variant && available.length > 0) {
+      selectedVariants[variantId] = Array.isArray(value) ? available : available[0];
+    }
+  });
+
+  return { selectedVariants, missingOptions };
+};
+
+// Named builds saved from the product modal, one click to add back to the cart
+const FavoritesSection: React.FC<FavoritesSectionProps> = ({ products }) => {
+  const { addToCart } = useCart();
+  const { favorites, removeFavorite } = useFavorites();
+
+  if (favorites.length === 0) return null;
+
+  const handleAdd = (favorite: Favorite, product: Product) => {
+    const { selectedVariants, missingOptions } = resolveFavoriteOptions(favorite, product);
+    if (missingOptions.length > 0) {
+      toast(`No longer available, left off: ${missingOptions.join(', ')}`, { icon: '⚠️' });
+    }
+
+    addToCart(product, favorite.quantity, { selectedVariants }, favorite.specialInstructions);
+  };
+
+  const handleRemove = (favorite: Favorite) => {
+    removeFavorite(favorite.id);
+    toast.success(`Removed "${favorite.name}" from your favorites`);
+  };
+
+  return (
+    <section
+      className="mb-8 bg-white rounded-2xl shadow-sm border border-gray-100 p-6 md:p-8"
+      aria-labelledby="favorites-title"
+    >
+      <h2 id="favorites-title" className="flex items-center text-2xl font-bold text-gray-900 mb-4">
+        <Heart className="w-6 h-6 mr-2 text-red-500" aria-hidden="true" />
+        Your favorites
+      </h2>
+      <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {favorites.map(favorite => {
+          const product = products.find(candidate => candidate.id === favorite.productId);
+          const options = Object.values(favorite.selectedVariants || {}).flat().filter(Boolean);
+          const price = product
+            ? calculateItemPrice(product.price, {
+                selectedVariants: resolveFavoriteOptions(favorite, product).selectedVariants,
+                productVariants: product.variants
+              }) * favorite.quantity
+            : null;
+
+          return (
+            <li key={favorite.id} className="border border-gray-200 rounded-lg p-4 flex flex-col">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-semibold text-gray-900 truncate">{favorite.name}</div>
+                  <div className="text-sm text-gray-500 truncate">
+                    {favorite.quantity > 1 && `${favorite.quantity}× `}{product?.name || favorite.productName}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(favorite)}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label={`Remove ${favorite.name} from favorites`}
+                >
+                  <Trash2 className="w-4 h-4" aria-hidden="true" />
+                </button>
+              </div>
+              {options.length > 0 && (
+                <p className="text-sm text-gray-600 mt-2 line-clamp-2">{options.join(', ')}</p>
+              )}
+              {favorite.specialInstructions && (
+                <p className="text-sm text-gray-500 italic mt-1 line-clamp-2">"{favorite.specialInstructions}"</p>
+              )}
+              <div className="mt-auto pt-3 flex items-center justify-between">
+                {product && price !== null ? (
+                  <>
+                    <span className="font-bold text-green-700">{formatPrice(price)}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleAdd(favorite, product)}
+                      className="flex items-center px-3 py-1.5 bg-green-700 text-white rounded-lg text-sm font-medium hover:bg-green-800 transition-colors"
+                    >
+                      <Plus className="w-4 h-4 mr-1" aria-hidden="true" />
+                      Add to cart
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-500">Not available at this location</span>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default FavoritesSection;
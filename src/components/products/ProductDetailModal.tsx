@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
-import { X, ChevronDown, ChevronUp, Minus, Plus } from 'lucide-react';
+import { X, ChevronDown, ChevronUp, Minus, Plus, Heart } from 'lucide-react';
 import { Product, ProductVariant } from '../../types';
 import { useCart } from '../../contexts/CartContext';
 import { toast } from 'react-hot-toast';
 import { useStoreStatus } from '../../contexts/StoreStatusContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
 
 
 interface ProductDetailModalProps {
@@ -57,6 +58,8 @@ const ExpandableText: React.FC<ExpandableTextProps> = ({ text, maxLength = 150,
 const ProductDetailModal: React.FC<ProductDetailModalProps> = ({ product, isOpen, onClose }) => {
   const { addToCart } = useCart();
   const { isStoreOnline } = useStoreStatus();
+  const { saveFavorite } = useFavorites();
+  const [favoriteName, setFavoriteName] = useState<string | null>(null); // null while the save form is closed
   const [selectedOptions, setSelectedOptions] = useState<SelectedOptions>({
     selectedVariants: {},
     quantity: 1,
@@ -246,6 +249,37 @@ const ProductDetailModal: React.FC<ProductDetailModalProps> = ({ product, isOpen
     onClose();
   };
 
+  // Save the current build (options, note and quantity) under the customer's own name
+  const handleSaveFavorite = () => {
+    const name = (favoriteName || '').trim();
+    if (!name) {
+      toast.error('Please name this favorite');
+      return;
+    }
+
+    const validation = validateModifierSelections();
+    if (!validation.isValid) {
+      validation.errors.forEach(error => {
+        toast.error(error);
+      });
+      return;
+    }
+
+    const saved = saveFavorite({
+      name,
+      productId: product.id,
+      productName: product.name,
+      quantity: selectedOptions.quantity,
+      selectedVariants: selectedOptions.selectedVariants,
+      specialInstructions: selectedOptions.customerNote || undefined
+    });
+
+    if (saved) {
+      toast.success(`Saved "${saved.name}" to your favorites`);
+      setFavoriteName(null);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
         <div className="bg-white rounded-lg sm:rounded-xl w-full max-w-lg sm:max-w-xl lg:max-w-lg max-h-[95vh] sm:max-h-[90vh] overflow-y-auto shadow-2xl">
@@ -416,6 +450,53 @@ const ProductDetailModal: React.FC<ProductDetailModalProps> = ({ product, isOpen
                 placeholder="Any special instructions or requests..."
               />
             </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg p-3 sm:p-4">
+              {favoriteName === null ? (
+                <button
+                  type="button"
+                  onClick={() => setFavoriteName(product.name)}
+                  className="flex items-center text-sm font-medium text-green-700 hover:text-green-800"
+                >
+                  <Heart className="w-4 h-4 mr-2" aria-hidden="true" />
+                  Save this build as a favorite
+                </button>
+              ) : (
+                <div className="space-y-2">
+                  <label htmlFor="favorite-name" className="block text-sm font-semibold text-gray-900">
+                    Favorite name
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      id="favorite-name"
+                      type="text"
+                      maxLength={60}
+                      value={favoriteName}
+                      onChange={(e) => setFavoriteName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveFavorite();
+                      }}
+                      placeholder="e.g. Dad's Reuben"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleSaveFavorite}
+                      className="px-4 py-2 bg-green-700 text-white rounded-lg text-sm font-medium hover:bg-green-800 transition-colors"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFavoriteName(null)}
+                      className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
 
           <div className="bg-gray-50 border-t border-gray-200 p-3 sm:p-4 lg:p-5 sticky bottom-0">
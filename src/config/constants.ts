@@ -5,10 +5,13 @@
 
 // Order Configuration
 export const MINIMUM_ORDER_AMOUNT = 10.00;
+export const ORDER_TRACKING_POLL_INTERVAL = 30 * 1000; // 30 seconds between order status checks
 
 // Time Constants (in minutes)
+// ASAP quotes come from the server; server/config/asap.json starts from these same defaults
 export const DEFAULT_PREPARATION_TIME = 5;
 export const ORDER_PROCESSING_BUFFER = 12;
+export const ASAP_QUOTE_REFRESH_MARGIN = 30 * 1000; // Re-quote ASAP pickups 30 seconds before the quote expires
 export const PICKUP_TIME_SLOTS = [15, 30, 45, 60, 90, 120]; // Available pickup time slots
 
 // Pagination
@@ -57,6 +60,16 @@ export const RETRY_CONFIG = {
 };
 
 // Order Status Colors
+export const ORDER_STATUS_LABELS = {
+  pending: 'Pending',
+  confirmed: 'Order received',
+  preparing: 'Preparing',
+  ready: 'Ready for pickup',
+  'picked-up': 'Picked up',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
 export const ORDER_STATUS_COLORS = {
   pending: 'bg-yellow-100 text-yellow-800',
   confirmed: 'bg-blue-100 text-blue-800',
@@ -8,7 +8,8 @@ export const CSP_CONFIG = {
     "'unsafe-inline'", // Required for React development
     "https://js.squareup.com",
     "https://sandbox.web.squarecdn.com",
-    "https://web.squarecdn.com"
+    "https://web.squarecdn.com",
+    "https://pay.google.com" // Google Pay, loaded by the Square SDK
   ],
   'style-src': [
     "'self'",
@@ -29,12 +30,14 @@ export const CSP_CONFIG = {
     "'self'",
     "https://connect.squareup.com",
     "https://connect.squareupsandbox.com",
+    "https://pay.google.com",
     process.env.REACT_APP_BACKEND_URL || "http://localhost:3001"
   ],
   'frame-src': [
     "'self'",
     "https://js.squareup.com",
-    "https://sandbox.web.squarecdn.com"
+    "https://sandbox.web.squarecdn.com",
+    "https://pay.google.com"
   ],
   'object-src': ["'none'"],
   'base-uri': ["'self'"],
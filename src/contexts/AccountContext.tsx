@@ -0,0 +1,118 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { CustomerProfile } from '../types';
+import { squareService } from '../services/squareService';
+
+const ACCOUNT_TOKEN_KEY = 'accountToken';
+
+interface AccountContextType {
+  profile: CustomerProfile | null;
+  isSignedIn: boolean;
+  isLoadingAccount: boolean;
+  requestSignInCode: (email: string) => Promise<void>;
+  verifySignInCode: (email: string, code: string) => Promise<CustomerProfile>;
+  updateProfile: (changes: Partial<Omit<CustomerProfile, 'email'>>) => Promise<CustomerProfile>;
+  signOut: () => Promise<void>;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+// Restore the saved session before any request goes out, so checkout calls carry it from the start
+const loadSavedToken = (): string | null => {
+  const token = localStorage.getItem(ACCOUNT_TOKEN_KEY);
+  squareService.setAccountToken(token);
+  return token;
+};
+
+export const AccountProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [token, setToken] = useState<string | null>(loadSavedToken);
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [isLoadingAccount, setIsLoadingAccount] = useState(Boolean(token));
+
+  const saveToken = useCallback((nextToken: string | null) => {
+    if (nextToken) {
+      localStorage.setItem(ACCOUNT_TOKEN_KEY, nextToken);
+    } else {
+      localStorage.removeItem(ACCOUNT_TOKEN_KEY);
+    }
+    squareService.setAccountToken(nextToken);
+    setToken(nextToken);
+  }, []);
+
+  // Load the profile for a restored session; an expired session signs the customer out
+  useEffect(() => {
+    if (!token || profile) return;
+
+    let cancelled = false;
+    setIsLoadingAccount(true);
+    squareService.getAccount()
+      .then(loaded => {
+        if (cancelled) return;
+        if (loaded) {
+          setProfile(loaded);
+        } else {
+          saveToken(null);
+        }
+      })
+      .catch(() => {
+        // Keep the session; the profile loads on the next visit
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingAccount(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, profile, saveToken]);
+
+  const requestSignInCode = useCallback((email: string) => squareService.requestSignInCode(email), []);
+
+  const verifySignInCode = useCallback(async (email: string, code: string) => {
+    const result = await squareService.verifySignInCode(email, code);
+    setProfile(result.profile);
+    saveToken(result.token);
+    return result.profile;
+  }, [saveToken]);
+
+  const updateProfile = useCallback(async (changes: Partial<Omit<CustomerProfile, 'email'>>) => {
+    const updated = await squareService.updateAccount(changes);
+    setProfile(updated);
+    return updated;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await squareService.signOut();
+    } catch (error) {
+      // The local session is cleared either way
+    }
+    saveToken(null);
+    setProfile(null);
+  }, [saveToken]);
+
+  const value: AccountContextType = {
+    profile,
+    isSignedIn: Boolean(token && profile),
+    isLoadingAccount,
+    requestSignInCode,
+    verifySignInCode,
+    updateProfile,
+    signOut
+  };
+
+  return (
+    <AccountContext.Provider value={value}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccount = (): AccountContextType => {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error('useAccount must be used within an AccountProvider');
+  }
+  return context;
+};
+
+export default AccountContext;
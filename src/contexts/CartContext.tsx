@@ -1,13 +1,55 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
-import { CartItem, Product, StoreLocation, CartContextType, ProductVariant, AppliedDiscount } from '../types';
+import { CartItem, Product, StoreLocation, CartContextType, ProductVariant, AppliedDiscount, Discount, DiscountValidationResult, DiscountCustomer, LeadTimeSettings, PickupMode, AsapQuote, ReorderResult, LoyaltyRewardTier } from '../types';
 import { squareService } from '../services/squareService';
 import { toast } from 'react-hot-toast';
-import { calculateCartSubtotal } from '../utils/priceCalculations';
-import { SUCCESS_MESSAGES, ERROR_MESSAGES } from '../config/constants';
+import { calculateCartSubtotal, calculateItemPrice, calculateLoyaltyRewardAmount } from '../utils/priceCalculations';
+import { getCartLeadTime } from '../utils/leadTime';
+import { zonedTimeToEpoch } from '../utils/timezone';
+import { SUCCESS_MESSAGES, ERROR_MESSAGES, ASAP_QUOTE_REFRESH_MARGIN } from '../config/constants';
 import { useStoreStatus } from './StoreStatusContext';
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+const CHECKOUT_ATTEMPT_KEY = 'checkoutAttempt';
+
+// What a checkout attempt submits; products and locations are compared by ID rather than their full catalog data
+const getCheckoutSignature = (checkoutData: object) => JSON.stringify(checkoutData, (key, value) =>
+  (key === 'product' || key === 'pickupLocation') && value ? value.id : value
+);
+
+interface CheckoutAttempt {
+  key: string;
+  signature: string;
+  // Set when the attempt went to Square's hosted checkout page, with the cart it was started from
+  hostedCheckout?: { orderId?: string; cartSignature: string };
+}
+
+const readCheckoutAttempt = (): CheckoutAttempt | null => {
+  try {
+    return JSON.parse(localStorage.getItem(CHECKOUT_ATTEMPT_KEY) || 'null');
+  } catch (error) {
+    return null;
+  }
+};
+
+// Ends a checkout attempt. A hosted checkout left behind is voided so its payment link can't be paid for a
+// cart that has since changed; if that fails the unpaid order just lapses with its slot hold.
+const abandonCheckoutAttempt = (attempt: CheckoutAttempt | null) => {
+  localStorage.removeItem(CHECKOUT_ATTEMPT_KEY);
+  if (attempt?.hostedCheckout) {
+    squareService.voidHostedCheckout(attempt.key).catch(() => undefined);
+  }
+};
+
+const readSavedJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (error) {
+    return fallback;
+  }
+};
+
 export const useCart = () => {
   const context = useContext(CartContext);
   if (context === undefined) {
@@ -22,30 +64,30 @@ interface CartProviderProps {
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const { isStoreOnline } = useStoreStatus();
-  const [items, setItems] = useState<CartItem[]>([]);
+  // The saved cart is read on first render, before the effects below save over it - a customer coming back
+  // from Square's checkout page (a full page load) finds their cart as they left it
+  const [items, setItems] = useState<CartItem[]>(() => readSavedJson('cart', []));
   const [selectedLocation, setSelectedLocation] = useState<StoreLocation | null>(null);
   const [storeLocations, setStoreLocations] = useState<StoreLocation[]>([]);
-  const [appliedDiscounts, setAppliedDiscounts] = useState<AppliedDiscount[]>([]);
-  const [selectedPickupDate, setSelectedPickupDate] = useState<string | null>(null);
-  const [selectedPickupTime, setSelectedPickupTime] = useState<string | null>(null);
+  const [appliedDiscounts, setAppliedDiscounts] = useState<AppliedDiscount[]>(() => readSavedJson('appliedDiscounts', []));
+  const [selectedPickupDate, setSelectedPickupDate] = useState<string | null>(() => localStorage.getItem('selectedPickupDate'));
+  const [selectedPickupTime, setSelectedPickupTime] = useState<string | null>(() => localStorage.getItem('selectedPickupTime'));
+  const [leadTimeSettings, setLeadTimeSettings] = useState<LeadTimeSettings | null>(null);
+  const [pickupMode, setPickupMode] = useState<PickupMode>('scheduled');
+  const [asapQuote, setAsapQuote] = useState<AsapQuote | null>(null);
+  const [asapError, setAsapError] = useState<string | null>(null);
+  const [isQuotingAsap, setIsQuotingAsap] = useState(false);
 
   useEffect(() => {
     const initializeCart = async () => {
+      // Read before the saved location is cleared while none is selected yet
+      const savedLocation = localStorage.getItem('selectedLocation');
+
       try {
         // Fetch store locations from Square
         const locations = await squareService.getSquareLocations();
         setStoreLocations(locations);
         
-        // Load cart and location from localStorage
-        const savedCart = localStorage.getItem('cart');
-        const savedLocation = localStorage.getItem('selectedLocation');
-        const savedPickupDate = localStorage.getItem('selectedPickupDate');
-        const savedPickupTime = localStorage.getItem('selectedPickupTime');
-        
-        if (savedCart) {
-          setItems(JSON.parse(savedCart));
-        }
-        
         if (savedLocation) {
           const location = JSON.parse(savedLocation);
           // Verify location still exists in our data
@@ -54,20 +96,6 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
             setSelectedLocation(validLocation);
           }
         }
-        
-        if (savedPickupDate) {
-          setSelectedPickupDate(savedPickupDate);
-        }
-        
-        if (savedPickupTime) {
-          setSelectedPickupTime(savedPickupTime);
-        }
-        
-        // Load applied discounts from localStorage
-        const savedDiscounts = localStorage.getItem('appliedDiscounts');
-        if (savedDiscounts) {
-          setAppliedDiscounts(JSON.parse(savedDiscounts));
-        }
       } catch (error) {
         if (process.env.NODE_ENV === 'development') {
           // Error initializing cart
@@ -80,6 +108,15 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     initializeCart();
   }, []);
 
+  // Lead times are optional - without them the default 15-minute rule applies
+  useEffect(() => {
+    squareService.getLeadTimes()
+      .then(setLeadTimeSettings)
+      .catch(() => setLeadTimeSettings(null));
+  }, []);
+
+  const leadTime = useMemo(() => getCartLeadTime(items, leadTimeSettings), [items, leadTimeSettings]);
+
   useEffect(() => {
     // Save cart to localStorage whenever items change
     localStorage.setItem('cart', JSON.stringify(items));
@@ -117,7 +154,23 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   }, [selectedPickupTime]);
 
-  // Auto-apply eligible discounts when cart changes
+  // Entered codes decide which automatic discounts can stack, so a change re-runs the check
+  const enteredDiscountKey = appliedDiscounts
+    .filter(d => !d.discount.isAutomatic)
+    .map(d => d.discountId)
+    .join(',');
+
+  const cartSignature = useMemo(() => getCheckoutSignature({ items, enteredDiscountKey }), [items, enteredDiscountKey]);
+
+  // Changing the cart after backing out of Square's checkout page makes that checkout stale
+  useEffect(() => {
+    const attempt = readCheckoutAttempt();
+    if (attempt?.hostedCheckout && attempt.hostedCheckout.cartSignature !== cartSignature) {
+      abandonCheckoutAttempt(attempt);
+    }
+  }, [cartSignature]);
+
+  // Auto-apply eligible discounts when cart or entered codes change
   useEffect(() => {
     const applyAutomaticDiscounts = async () => {
       if (items.length === 0) {
@@ -129,31 +182,31 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       }
 
       try {
-        const subtotal = getSubtotal();
-        const automaticDiscounts = await squareService.getAutomaticDiscounts(items, subtotal);
+        const automaticDiscounts = await squareService.getAutomaticDiscounts(
+          items,
+          appliedDiscounts.filter(d => !d.discount.isAutomatic),
+          selectedLocation?.id
+        );
         
-        // Only update if there are new automatic discounts
-        if (automaticDiscounts.length > 0) {
-          // Keep manually applied discounts and add automatic ones
-          const manualDiscounts = appliedDiscounts.filter(d => d.discount.type !== 'automatic');
-          const newDiscounts = [...manualDiscounts, ...automaticDiscounts];
+        // Keep manually applied discounts and replace the automatic ones with the current best set
+        const manualDiscounts = appliedDiscounts.filter(d => !d.discount.isAutomatic);
+        const newDiscounts = [...manualDiscounts, ...automaticDiscounts];
+        
+        // Remove duplicates based on discount ID
+        const uniqueDiscounts = newDiscounts.filter((discount, index, self) => 
+          index === self.findIndex(d => d.discount.id === discount.discount.id)
+        );
+        
+        if (JSON.stringify(uniqueDiscounts) !== JSON.stringify(appliedDiscounts)) {
+          setAppliedDiscounts(uniqueDiscounts);
           
-          // Remove duplicates based on discount ID
-          const uniqueDiscounts = newDiscounts.filter((discount, index, self) => 
-            index === self.findIndex(d => d.discount.id === discount.discount.id)
+          // Notify user of automatic discounts applied
+          const newAutoDiscounts = automaticDiscounts.filter(autoDiscount => 
+            !appliedDiscounts.some(existing => existing.discount.id === autoDiscount.discount.id)
           );
           
-          if (JSON.stringify(uniqueDiscounts) !== JSON.stringify(appliedDiscounts)) {
-            setAppliedDiscounts(uniqueDiscounts);
-            
-            // Notify user of automatic discounts applied
-            const newAutoDiscounts = automaticDiscounts.filter(autoDiscount => 
-              !appliedDiscounts.some(existing => existing.discount.id === autoDiscount.discount.id)
-            );
-            
-            if (newAutoDiscounts.length > 0) {
-              toast.success(`${newAutoDiscounts.length} automatic discount${newAutoDiscounts.length > 1 ? 's' : ''} applied!`);
-            }
+          if (newAutoDiscounts.length > 0) {
+            toast.success(`${newAutoDiscounts.length} automatic discount${newAutoDiscounts.length > 1 ? 's' : ''} applied!`);
           }
         }
       } catch (error) {
@@ -167,7 +220,21 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     // Debounce the automatic discount application
     const timeoutId = setTimeout(applyAutomaticDiscounts, 500);
     return () => clearTimeout(timeoutId);
-  }, [items]); // Don't include appliedDiscounts to avoid infinite loop
+  }, [items, enteredDiscountKey, selectedLocation?.id]); // Don't include appliedDiscounts to avoid infinite loop
+
+  // A loyalty reward comes off what the other discounts leave, so re-price it when either changes
+  useEffect(() => {
+    const reward = appliedDiscounts.find(d => d.type === 'loyalty_points');
+    if (!reward) return;
+
+    const otherDiscounts = appliedDiscounts
+      .filter(d => d !== reward)
+      .reduce((total, discount) => total + discount.appliedAmount, 0);
+    const appliedAmount = calculateLoyaltyRewardAmount(reward.discount, calculateCartSubtotal(items) - otherDiscounts);
+    if (appliedAmount !== reward.appliedAmount) {
+      setAppliedDiscounts(prev => prev.map(d => (d === reward ? { ...d, appliedAmount } : d)));
+    }
+  }, [items, appliedDiscounts]);
   
   const addToCart = useCallback((
     product: Product, 
@@ -234,6 +301,31 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     toast.success(SUCCESS_MESSAGES.ITEM_ADDED_TO_CART);
   }, [selectedLocation, isStoreOnline]);
 
+  // Refill the cart from a past order (already matched to current products by buildReorder)
+  const addReorderItems = useCallback((reorderItems: ReorderResult['items']) => {
+    if (!isStoreOnline) {
+      toast.error('Store is currently closed for online ordering. You can browse our menu but cannot add items to cart.');
+      return;
+    }
+
+    const addedAt = new Date().toISOString();
+    const cartItems: CartItem[] = reorderItems.map(item => ({
+      id: `${item.product.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      product: item.product,
+      quantity: item.quantity,
+      selectedVariants: item.selectedVariants,
+      specialInstructions: item.specialInstructions,
+      totalPrice: calculateItemPrice(item.product.price, {
+        selectedVariants: item.selectedVariants,
+        productVariants: item.product.variants
+      }) * item.quantity,
+      addedAt
+    }));
+
+    setItems(prevItems => [...prevItems, ...cartItems]);
+    toast.success(`${cartItems.length} item${cartItems.length === 1 ? '' : 's'} added from your past order`);
+  }, [isStoreOnline]);
+
   const removeFromCart = useCallback((itemId: string) => {
     setItems(items.filter(item => item.id !== itemId));
     toast.success(SUCCESS_MESSAGES.ITEM_REMOVED_FROM_CART);
@@ -274,10 +366,74 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     ));
   }, [items]);
 
+  // Idempotency key for the checkout requests. It's stored with the cart, so a double-click, a network retry
+  // or a reload that submits the same checkout sends the same key and gets the original order and payment back
+  const getCheckoutAttemptKey = useCallback((checkoutData: object) => {
+    const signature = getCheckoutSignature(checkoutData);
+    const saved = readCheckoutAttempt();
+    if (saved?.signature === signature && saved.key) {
+      return saved.key;
+    }
+    // A different checkout (pickup time, tip...) replaces the one the customer backed out of
+    abandonCheckoutAttempt(saved);
+
+    const key = `checkout-${Date.now()}-${Math.random().toString(36).substr(2, 9)}${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(CHECKOUT_ATTEMPT_KEY, JSON.stringify({ key, signature }));
+    return key;
+  }, []);
+
+  // A failure the server answered (declined card, full slot...) ends the attempt, so the next submit starts a
+  // new one. A request that never got an answer (fetch throws a TypeError) may still have gone through, so its
+  // key is kept and a retry gets the original result back.
+  const renewCheckoutAttemptKey = useCallback((failure: unknown) => {
+    if (!(failure instanceof TypeError)) {
+      localStorage.removeItem(CHECKOUT_ATTEMPT_KEY);
+    }
+  }, []);
+
+  // Sends the customer to Square's hosted checkout page. Square has no cancel URL, so the page they leave becomes
+  // the checkout cancel page: backing out of Square lands there, reloading if the browser restores the old page.
+  const openHostedCheckout = useCallback((checkout: { checkoutUrl: string; orderId?: string }) => {
+    const attempt = readCheckoutAttempt();
+    if (attempt) {
+      localStorage.setItem(CHECKOUT_ATTEMPT_KEY, JSON.stringify({
+        ...attempt,
+        hostedCheckout: { orderId: checkout.orderId, cartSignature }
+      }));
+    }
+
+    window.history.replaceState(window.history.state, '', '/checkout/cancel');
+    window.addEventListener('pageshow', (event) => {
+      if (event.persisted) {
+        window.location.reload();
+      }
+    }, { once: true });
+    window.location.href = checkout.checkoutUrl;
+  }, [cartSignature]);
+
+  const getHostedCheckoutKey = useCallback(() => {
+    const attempt = readCheckoutAttempt();
+    return attempt?.hostedCheckout ? attempt.key : null;
+  }, []);
+
+  const abandonHostedCheckout = useCallback(() => {
+    abandonCheckoutAttempt(readCheckoutAttempt());
+  }, []);
+
+  // Square redirects back after payment; only the cart that checked out this order is emptied
+  const completeHostedCheckout = useCallback((orderId: string) => {
+    if (readCheckoutAttempt()?.hostedCheckout?.orderId === orderId) {
+      localStorage.removeItem(CHECKOUT_ATTEMPT_KEY);
+      setItems([]);
+      setAppliedDiscounts([]);
+    }
+  }, []);
+
   const clearCart = useCallback(() => {
     setItems([]);
     setAppliedDiscounts([]);
     localStorage.removeItem('appliedDiscounts');
+    abandonCheckoutAttempt(readCheckoutAttempt());
     toast.success(SUCCESS_MESSAGES.CART_CLEARED);
   }, []);
 
@@ -310,48 +466,79 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     return Math.max(0, subtotal - discount); // Ensure total never goes below 0
   }, [getSubtotal, getTotalDiscount]);
 
-  const applyDiscount = useCallback(async (code: string): Promise<boolean> => {
-    try {
-      // Check if discount is already applied
-      const isAlreadyApplied = appliedDiscounts.some(
-        discount => discount.code?.toLowerCase() === code.toLowerCase()
-      );
-
-      if (isAlreadyApplied) {
-        toast.error('This discount code is already applied');
-        return false;
-      }
+  // Validate a code against the cart and the discounts already applied
+  // The caller shows the outcome, including why a code can't be combined
+  const applyDiscount = useCallback(async (code: string, customer?: DiscountCustomer): Promise<DiscountValidationResult> => {
+    // Check if discount is already applied
+    const isAlreadyApplied = appliedDiscounts.some(
+      discount => discount.code?.toLowerCase() === code.toLowerCase()
+    );
 
-      const subtotal = getSubtotal();
-      const validationResult = await squareService.validateDiscount(code, items, subtotal);
-
-      if (validationResult.isValid && validationResult.discount && validationResult.appliedAmount) {
-        const appliedDiscount: AppliedDiscount = {
-          discountId: validationResult.discount.id,
-          code: validationResult.discount.code,
-          name: validationResult.discount.name,
-          type: validationResult.discount.type,
-          value: validationResult.discount.value,
-          appliedAmount: validationResult.appliedAmount,
-          appliedTo: 'order',
-          discount: validationResult.discount
-        };
-
-        setAppliedDiscounts(prev => [...prev, appliedDiscount]);
-        toast.success(`Discount applied: ${validationResult.discount.name}`);
-        return true;
-      } else {
-        toast.error(validationResult.error || 'Invalid discount code');
-        return false;
-      }
-    } catch (error) {
-      if (process.env.NODE_ENV === 'development') {
-        // Error applying discount
-      }
-      toast.error('Failed to apply discount code');
-      return false;
+    if (isAlreadyApplied) {
+      return { isValid: false, error: 'This discount code is already applied' };
     }
-  }, [appliedDiscounts, items, getSubtotal]);
+
+    const validationResult = await squareService.validateDiscount(code, items, appliedDiscounts, customer, selectedLocation?.id);
+
+    if (validationResult.isValid && validationResult.discount && validationResult.appliedAmount) {
+      const appliedDiscount: AppliedDiscount = {
+        discountId: validationResult.discount.id,
+        code: validationResult.discount.code,
+        name: validationResult.discount.name,
+        type: validationResult.discount.type,
+        value: validationResult.discount.value,
+        appliedAmount: validationResult.appliedAmount,
+        appliedTo: validationResult.discount.scope === 'LINE_ITEM' ? 'item' : 'order',
+        itemIds: validationResult.itemIds,
+        discount: validationResult.discount
+      };
+
+      const replacedIds = validationResult.replacedDiscountIds || [];
+      setAppliedDiscounts(prev => [
+        ...prev.filter(d => !replacedIds.includes(d.discountId)),
+        appliedDiscount
+      ]);
+    }
+
+    return validationResult;
+  }, [appliedDiscounts, items, selectedLocation?.id]);
+
+  // Points are only checked and spent at checkout; here the reward just shows in the cart total
+  const applyLoyaltyReward = useCallback((tier: LoyaltyRewardTier) => {
+    const now = new Date().toISOString();
+    const discountId = `loyalty-${tier.id}`;
+    const discount: Discount = {
+      id: discountId,
+      name: tier.name,
+      description: `Loyalty reward for ${tier.points} points`,
+      type: 'loyalty_points',
+      value: tier.value,
+      maxDiscountAmount: tier.maxDiscountCents,
+      squareDiscountType: tier.discountType === 'percentage' ? 'FIXED_PERCENTAGE' : 'FIXED_AMOUNT',
+      scope: 'ORDER',
+      rewardTier: { id: tier.id, points: tier.points, name: tier.name },
+      validFrom: now,
+      validUntil: now,
+      usageCount: 0,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    setAppliedDiscounts(prev => {
+      const others = prev.filter(d => d.type !== 'loyalty_points');
+      const otherTotal = others.reduce((total, d) => total + d.appliedAmount, 0);
+      return [...others, {
+        discountId,
+        name: tier.name,
+        type: 'loyalty_points',
+        value: tier.value,
+        appliedAmount: calculateLoyaltyRewardAmount(discount, calculateCartSubtotal(items) - otherTotal),
+        appliedTo: 'order',
+        discount
+      }];
+    });
+  }, [items]);
 
   const removeDiscount = useCallback((discountId: string) => {
     const discount = appliedDiscounts.find(d => d.discountId === discountId);
@@ -361,15 +548,61 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   }, [appliedDiscounts]);
 
+  const refreshAsapQuote = useCallback(async (): Promise<AsapQuote | null> => {
+    if (!selectedLocation || items.length === 0) {
+      setAsapQuote(null);
+      return null;
+    }
+
+    setIsQuotingAsap(true);
+    try {
+      const quote = await squareService.getAsapQuote(selectedLocation.id, items);
+      setAsapQuote(quote);
+      setAsapError(null);
+      return quote;
+    } catch (error) {
+      setAsapQuote(null);
+      setAsapError(error instanceof Error ? error.message : 'Unable to estimate an ASAP pickup time');
+      return null;
+    } finally {
+      setIsQuotingAsap(false);
+    }
+  }, [selectedLocation, items]);
+
+  // Keep the ASAP estimate live: re-quote whenever the cart or location changes
+  useEffect(() => {
+    if (pickupMode === 'asap') {
+      refreshAsapQuote();
+    } else {
+      setAsapQuote(null);
+      setAsapError(null);
+    }
+  }, [pickupMode, refreshAsapQuote]);
+
+  // ...and shortly before the server stops holding the current quote
+  useEffect(() => {
+    if (pickupMode !== 'asap' || !asapQuote) {
+      return;
+    }
+
+    const refreshIn = Math.max(0, Date.parse(asapQuote.expiresAt) - Date.now() - ASAP_QUOTE_REFRESH_MARGIN);
+    const timer = setTimeout(refreshAsapQuote, refreshIn);
+    return () => clearTimeout(timer);
+  }, [pickupMode, asapQuote, refreshAsapQuote]);
+
   const getEstimatedPickupTime = useCallback(() => {
-    // Only return the customer's selected pickup time
+    if (pickupMode === 'asap') {
+      return asapQuote ? new Date(asapQuote.readyAt) : null;
+    }
+
+    // Otherwise the customer's selected pickup time, which is on the store's clock
     if (selectedPickupDate && selectedPickupTime) {
-      return new Date(`${selectedPickupDate}T${selectedPickupTime}`);
+      return new Date(zonedTimeToEpoch(selectedPickupDate, selectedPickupTime, selectedLocation?.timezone));
     }
     
     // Return null if no pickup time is selected
      return null;
-   }, [selectedPickupDate, selectedPickupTime]);
+   }, [pickupMode, asapQuote, selectedPickupDate, selectedPickupTime, selectedLocation]);
 
   const value: CartContextType = useMemo(() => ({
     items,
@@ -378,6 +611,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     appliedDiscounts,
     selectedPickupDate,
     selectedPickupTime,
+    leadTime,
     addToCart,
     removeFromCart,
     updateQuantity,
@@ -385,12 +619,26 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     updateSpecialInstructions,
     setPickupLocation,
     setPickupDateTime,
+    addReorderItems,
+    pickupMode,
+    asapQuote,
+    asapError,
+    isQuotingAsap,
+    setPickupMode,
+    refreshAsapQuote,
+    getCheckoutAttemptKey,
+    renewCheckoutAttemptKey,
+    openHostedCheckout,
+    getHostedCheckoutKey,
+    abandonHostedCheckout,
+    completeHostedCheckout,
     clearCart,
     getTotalItems,
     getTotalPrice,
     getSubtotal,
     getTotalDiscount,
     applyDiscount,
+    applyLoyaltyReward,
     removeDiscount,
     getEstimatedPickupTime
   }), [
@@ -400,6 +648,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     appliedDiscounts,
     selectedPickupDate,
     selectedPickupTime,
+    leadTime,
     addToCart,
     removeFromCart,
     updateQuantity,
@@ -407,12 +656,26 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     updateSpecialInstructions,
     setPickupLocation,
     setPickupDateTime,
+    addReorderItems,
+    pickupMode,
+    asapQuote,
+    asapError,
+    isQuotingAsap,
+    setPickupMode,
+    refreshAsapQuote,
+    getCheckoutAttemptKey,
+    renewCheckoutAttemptKey,
+    openHostedCheckout,
+    getHostedCheckoutKey,
+    abandonHostedCheckout,
+    completeHostedCheckout,
     clearCart,
     getTotalItems,
     getTotalPrice,
     getSubtotal,
     getTotalDiscount,
     applyDiscount,
+    applyLoyaltyReward,
     removeDiscount,
     getEstimatedPickupTime
   ]);
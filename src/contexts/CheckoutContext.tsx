@@ -1,4 +1,6 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { DeliveryAddress } from '../types';
+import { useAccount } from './AccountContext';
 
 interface CheckoutState {
   customerInfo: {
@@ -9,12 +11,7 @@ interface CheckoutState {
   paymentMethod: 'card' | 'cash' | null;
   orderType: 'pickup' | 'delivery';
   pickupTime: string;
-  deliveryAddress?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
+  deliveryAddress?: DeliveryAddress;
   specialInstructions: string;
 }
 
@@ -46,6 +43,21 @@ const initialState: CheckoutState = {
 
 export const CheckoutProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [checkoutState, setCheckoutState] = useState<CheckoutState>(initialState);
+  const { profile } = useAccount();
+
+  // Prefill from the signed-in customer's saved profile without overwriting anything typed
+  useEffect(() => {
+    if (!profile) return;
+    const savedName = [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+    setCheckoutState(prev => ({
+      ...prev,
+      customerInfo: {
+        name: prev.customerInfo.name || savedName,
+        email: prev.customerInfo.email || profile.email,
+        phone: prev.customerInfo.phone || profile.phone
+      }
+    }));
+  }, [profile]);
 
   const updateCustomerInfo = (info: Partial<CheckoutState['customerInfo']>) => {
     setCheckoutState(prev => ({
@@ -0,0 +1,125 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { toast } from 'react-hot-toast';
+import { Favorite } from '../types';
+import { squareService } from '../services/squareService';
+import { useAccount } from './AccountContext';
+
+const FAVORITES_KEY = 'favorites';
+const MAX_FAVORITES = 50; // Same limit the server enforces
+
+interface FavoritesContextType {
+  favorites: Favorite[];
+  saveFavorite: (favorite: Omit<Favorite, 'id' | 'createdAt' | 'updatedAt'>) => Favorite | null;
+  removeFavorite: (favoriteId: string) => void;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+const loadSavedFavorites = (): Favorite[] => {
+  try {
+    const saved = localStorage.getItem(FAVORITES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Union of two lists by ID; where both have a favorite, the more recently updated copy wins
+const mergeFavorites = (local: Favorite[], remote: Favorite[]): Favorite[] => {
+  const merged = new Map<string, Favorite>();
+  [...remote, ...local].forEach(favorite => {
+    const existing = merged.get(favorite.id);
+    if (!existing || Date.parse(favorite.updatedAt) > Date.parse(existing.updatedAt)) {
+      merged.set(favorite.id, favorite);
+    }
+  });
+  return Array.from(merged.values())
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+    .slice(0, MAX_FAVORITES);
+};
+
+export const FavoritesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isSignedIn } = useAccount();
+  const [favorites, setFavorites] = useState<Favorite[]>(loadSavedFavorites);
+  const favoritesRef = useRef(favorites);
+
+  useEffect(() => {
+    favoritesRef.current = favorites;
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+  }, [favorites]);
+
+  // On sign-in, combine this browser's favorites with the account's and save the result to both
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    let cancelled = false;
+    squareService.getFavorites()
+      .then(remote => {
+        if (cancelled) return;
+        const merged = mergeFavorites(favoritesRef.current, remote);
+        setFavorites(merged);
+        if (JSON.stringify(merged) !== JSON.stringify(remote)) {
+          return squareService.saveFavorites(merged);
+        }
+      })
+      .catch(() => {
+        // Favorites stay in this browser and sync on the next change
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  const updateFavorites = useCallback((next: Favorite[]) => {
+    setFavorites(next);
+    if (isSignedIn) {
+      squareService.saveFavorites(next).catch(() => {
+        toast.error('Saved on this device only - we couldn\'t sync your favorites');
+      });
+    }
+  }, [isSignedIn]);
+
+  const saveFavorite = useCallback((favorite: Omit<Favorite, 'id' | 'createdAt' | 'updatedAt'>) => {
+    if (favoritesRef.current.length >= MAX_FAVORITES) {
+      toast.error(`You can save up to ${MAX_FAVORITES} favorites`);
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const saved: Favorite = {
+      ...favorite,
+      id: `fav-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      updatedAt: now
+    };
+    updateFavorites([saved, ...favoritesRef.current]);
+    return saved;
+  }, [updateFavorites]);
+
+  const removeFavorite = useCallback((favoriteId: string) => {
+    updateFavorites(favoritesRef.current.filter(favorite => favorite.id !== favoriteId));
+  }, [updateFavorites]);
+
+  const value: FavoritesContextType = {
+    favorites,
+    saveFavorite,
+    removeFavorite
+  };
+
+  return (
+    <FavoritesContext.Provider value={value}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
+
+export const useFavorites = (): FavoritesContextType => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
+
+export default FavoritesContext;
@@ -0,0 +1,142 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { LoyaltyAccount, LoyaltyProgram } from '../types';
+import { squareService, CheckoutLoyalty } from '../services/squareService';
+import { useAccount } from './AccountContext';
+import { useCart } from './CartContext';
+
+const LOYALTY_PHONE_KEY = 'loyaltyPhone';
+
+interface LoyaltyContextType {
+  program: LoyaltyProgram | null; // null when the store doesn't run a loyalty program
+  phone: string;
+  account: LoyaltyAccount | null;
+  isLookingUp: boolean;
+  lookupError: string | null;
+  pointsEstimate: number | null; // Points this cart earns once paid
+  lookUpPoints: (phone: string) => Promise<void>;
+  forgetPhone: () => void;
+  checkoutLoyalty?: CheckoutLoyalty; // What to send with the checkout
+}
+
+const LoyaltyContext = createContext<LoyaltyContextType | undefined>(undefined);
+
+export const LoyaltyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { profile, isSignedIn } = useAccount();
+  const { items, appliedDiscounts, getTotalDiscount, removeDiscount } = useCart();
+  const [program, setProgram] = useState<LoyaltyProgram | null>(null);
+  const [phone, setPhone] = useState(() => localStorage.getItem(LOYALTY_PHONE_KEY) || '');
+  const [account, setAccount] = useState<LoyaltyAccount | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [pointsEstimate, setPointsEstimate] = useState<number | null>(null);
+  const lookedUpPhone = useRef<string | null>(null);
+
+  const appliedReward = appliedDiscounts.find(discount => discount.type === 'loyalty_points');
+
+  useEffect(() => {
+    squareService.getLoyaltyProgram()
+      .then(setProgram)
+      .catch(() => {
+        // No loyalty panel if the program can't be loaded
+      });
+  }, []);
+
+  // Any phone number earns points on the order; the balance is only shown to a signed-in customer with that
+  // number on their account
+  const lookUpPoints = useCallback(async (nextPhone: string) => {
+    lookedUpPhone.current = nextPhone;
+    setPhone(nextPhone);
+    localStorage.setItem(LOYALTY_PHONE_KEY, nextPhone);
+    setAccount(null);
+    setLookupError(null);
+    if (!isSignedIn) {
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      setAccount(await squareService.getLoyaltyAccount(nextPhone));
+    } catch (error) {
+      setLookupError(error instanceof Error ? error.message : 'Unable to look up your points');
+    } finally {
+      setIsLookingUp(false);
+    }
+  }, [isSignedIn]);
+
+  // Signing in or out changes whose balance can be shown, so the phone number is looked up again
+  useEffect(() => {
+    lookedUpPhone.current = null;
+  }, [isSignedIn]);
+
+  // Returning customers see their balance without typing their number again; signed-in ones use their profile phone
+  const knownPhone = phone || profile?.phone || '';
+  useEffect(() => {
+    if (program && knownPhone && lookedUpPhone.current !== knownPhone) {
+      lookUpPoints(knownPhone);
+    }
+  }, [program, knownPhone, lookUpPoints]);
+
+  const forgetPhone = useCallback(() => {
+    // Don't look the profile phone straight back up
+    lookedUpPhone.current = profile?.phone || null;
+    setPhone('');
+    setAccount(null);
+    localStorage.removeItem(LOYALTY_PHONE_KEY);
+  }, [profile?.phone]);
+
+  // A reward is paid for with this phone number's points, so it comes off with the number or once they run short
+  const rewardPoints = appliedReward?.discount.rewardTier?.points || 0;
+  useEffect(() => {
+    if (appliedReward && (!phone || (account && account.balance < rewardPoints))) {
+      removeDiscount(appliedReward.discountId);
+    }
+  }, [phone, account, appliedReward, rewardPoints, removeDiscount]);
+
+  const totalDiscount = getTotalDiscount();
+  useEffect(() => {
+    if (!program || items.length === 0) {
+      setPointsEstimate(null);
+      return;
+    }
+
+    // Debounced like the automatic discount check, since both follow every cart change
+    const timeoutId = setTimeout(() => {
+      squareService.estimateLoyaltyPoints(items, totalDiscount)
+        .then(setPointsEstimate)
+        .catch(() => setPointsEstimate(null));
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [program, items, totalDiscount]);
+
+  const checkoutLoyalty: CheckoutLoyalty | undefined = program && phone
+    ? { phone, rewardTierId: appliedReward?.discount.rewardTier?.id }
+    : undefined;
+
+  const value: LoyaltyContextType = {
+    program,
+    phone,
+    account,
+    isLookingUp,
+    lookupError,
+    pointsEstimate,
+    lookUpPoints,
+    forgetPhone,
+    checkoutLoyalty
+  };
+
+  return (
+    <LoyaltyContext.Provider value={value}>
+      {children}
+    </LoyaltyContext.Provider>
+  );
+};
+
+export const useLoyalty = (): LoyaltyContextType => {
+  const context = useContext(LoyaltyContext);
+  if (context === undefined) {
+    throw new Error('useLoyalty must be used within a LoyaltyProvider');
+  }
+  return context;
+};
+
+export default LoyaltyContext;
@@ -4,9 +4,14 @@ import { useCart } from '../contexts/CartContext';
 import { squareService } from '../services/squareService';
 import LocationSelector from '../components/common/LocationSelector';
 import DateTimePickerNew from '../components/common/DateTimePickerNew';
+import PickupTimingSelector from '../components/common/PickupTimingSelector';
+import LoyaltyRewards from '../components/checkout/LoyaltyRewards';
 import { Trash2, Plus, Minus, ShoppingBag, ArrowRight, ArrowLeft, MapPin } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useStoreStatus } from '../contexts/StoreStatusContext';
+import { useLoyalty } from '../contexts/LoyaltyContext';
+import { calculateItemDiscount } from '../utils/priceCalculations';
+import { formatLeadTime, isTooSoon } from '../utils/leadTime';
 
 
 const CartPage: React.FC = () => {
@@ -21,10 +26,19 @@ const CartPage: React.FC = () => {
     setPickupLocation,
     selectedPickupDate,
     selectedPickupTime,
-    setPickupDateTime
+    setPickupDateTime,
+    appliedDiscounts,
+    leadTime,
+    pickupMode,
+    asapQuote,
+    asapError,
+    getCheckoutAttemptKey,
+    renewCheckoutAttemptKey,
+    openHostedCheckout
   } = useCart();
   const navigate = useNavigate();
   const { isStoreOnline } = useStoreStatus();
+  const { checkoutLoyalty } = useLoyalty();
   const [isLoading, setIsLoading] = useState(false);
   const [showLocationSelector, setShowLocationSelector] = useState(false);
 
@@ -64,9 +78,22 @@ const CartPage: React.FC = () => {
       return;
     }
 
-    if (!selectedPickupDate || !selectedPickupTime) {
-      toast.error('Please select a pickup date and time');
-      return;
+    const isAsap = pickupMode === 'asap';
+    if (isAsap) {
+      if (!asapQuote) {
+        toast.error(asapError || 'ASAP pickup is not available right now. Please schedule a pickup time.');
+        return;
+      }
+    } else {
+      if (!selectedPickupDate || !selectedPickupTime) {
+        toast.error('Please select a pickup date and time');
+        return;
+      }
+
+      if (isTooSoon(selectedPickupDate, selectedPickupTime, leadTime.minutes, selectedLocation?.timezone)) {
+        toast.error(`${leadTime.itemName || 'Your order'} needs at least ${formatLeadTime(leadTime.minutes)} notice. Please choose a later pickup time.`);
+        return;
+      }
     }
 
     setIsLoading(true);
@@ -75,8 +102,11 @@ const CartPage: React.FC = () => {
       const checkoutData = {
         items,
         pickupLocation: selectedLocation,
-        pickupDate: selectedPickupDate,
-        pickupTime: selectedPickupTime,
+        pickupDate: isAsap ? undefined : selectedPickupDate || undefined,
+        pickupTime: isAsap ? undefined : selectedPickupTime || undefined,
+        // Locks in the ready time the customer was quoted
+        asapQuoteId: isAsap ? asapQuote?.quoteId : undefined,
+        loyalty: checkoutLoyalty,
         customerInfo: {
           name: 'Customer', // Will be collected by Square
           phone: '', // Will be collected by Square
@@ -84,15 +114,19 @@ const CartPage: React.FC = () => {
         }
       };
 
-      const result = await squareService.createCheckout(checkoutData);
+      const result = await squareService.createCheckout({
+        ...checkoutData,
+        idempotencyKey: getCheckoutAttemptKey(checkoutData)
+      });
       
       if (result.checkoutUrl) {
         // Redirect to Square's hosted checkout page
-        window.location.href = result.checkoutUrl;
+        openHostedCheckout(result);
       } else {
         throw new Error('Failed to create checkout - no checkout URL received');
       }
     } catch (error) {
+      renewCheckoutAttemptKey(error);
       if (process.env.NODE_ENV === 'development') {
         // Checkout error logged
       }
@@ -251,6 +285,14 @@ const CartPage: React.FC = () => {
                     ${(item.totalPrice / item.quantity).toFixed(2)}
                   </span>
                 </div>
+                {calculateItemDiscount(item, items, appliedDiscounts) > 0 && (
+                  <div className="mt-2 flex justify-between items-center text-green-600">
+                    <span className="text-sm">Discount:</span>
+                    <span className="text-sm font-medium">
+                      -${calculateItemDiscount(item, items, appliedDiscounts).toFixed(2)}
+                    </span>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -295,16 +337,24 @@ const CartPage: React.FC = () => {
               {/* Pickup Date & Time */}
               {selectedLocation && (
                 <div className="mb-4 sm:mb-6 pb-4 sm:pb-6 border-b border-gray-200">
-                  <DateTimePickerNew
-                    selectedDate={selectedPickupDate || undefined}
-                    selectedTime={selectedPickupTime || undefined}
-                    onDateTimeSelect={setPickupDateTime}
-                    selectedLocation={selectedLocation}
-                    storeHours={selectedLocation.hours}
-                  />
+                  <PickupTimingSelector>
+                    <DateTimePickerNew
+                      selectedDate={selectedPickupDate || undefined}
+                      selectedTime={selectedPickupTime || undefined}
+                      onDateTimeSelect={setPickupDateTime}
+                      selectedLocation={selectedLocation}
+                      storeHours={selectedLocation.hours}
+                      leadTimeMinutes={leadTime.minutes}
+                      leadTimeItemName={leadTime.itemName}
+                    />
+                  </PickupTimingSelector>
                 </div>
               )}
               
+              <div className="mb-4 sm:mb-6">
+                <LoyaltyRewards />
+              </div>
+
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal:</span>
@@ -341,6 +391,13 @@ const CartPage: React.FC = () => {
               >
                 Continue Shopping
               </Link>
+
+              <Link
+                to="/catering"
+                className="block w-full mt-3 text-center text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Ordering for an event? Place it as a catering order
+              </Link>
             </div>
           </div>
         </div>
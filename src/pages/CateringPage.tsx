@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, MapPin, Truck, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCart } from '../contexts/CartContext';
+import { useCheckout } from '../contexts/CheckoutContext';
+import { useStoreStatus } from '../contexts/StoreStatusContext';
+import { squareService } from '../services/squareService';
+import DateTimePickerNew from '../components/common/DateTimePickerNew';
+import { Validator } from '../utils/validation';
+import { trackError } from '../utils/performance';
+import { formatLeadTime, isTooSoon } from '../utils/leadTime';
+import { CateringSettings, DeliveryAddress, DeliverySettings } from '../types';
+
+const EMPTY_DELIVERY_ADDRESS: DeliveryAddress = {
+  street: '',
+  city: '',
+  state: '',
+  zipCode: ''
+};
+
+// Catering pre-orders: the cart is ordered for an event, with a deposit paid now and the balance on pickup/delivery
+const CateringPage: React.FC = () => {
+  const {
+    items,
+    getSubtotal,
+    selectedLocation,
+    selectedPickupDate,
+    selectedPickupTime,
+    setPickupDateTime,
+    leadTime
+  } = useCart();
+  const { checkoutState, setOrderType, setDeliveryAddress } = useCheckout();
+  const { isStoreOnline } = useStoreStatus();
+  const navigate = useNavigate();
+  const [settings, setSettings] = useState<CateringSettings | null>(null);
+  const [deliverySettings, setDeliverySettings] = useState<DeliverySettings | null>(null);
+  const [isLoadingSettings, setIsLoadingSettings] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [headCount, setHeadCount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [contact, setContact] = useState({ name: '', email: '', phone: '' });
+
+  useEffect(() => {
+    squareService.getCateringSettings()
+      .then(setSettings)
+      .catch(() => setSettings(null))
+      .finally(() => setIsLoadingSettings(false));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedLocation) {
+      return;
+    }
+
+    let cancelled = false;
+    squareService.getDeliverySettings(selectedLocation.id)
+      .then(result => {
+        if (!cancelled) setDeliverySettings(result);
+      })
+      .catch(() => {
+        if (!cancelled) setDeliverySettings(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLocation]);
+
+  const subtotal = getSubtotal();
+  const isDelivery = checkoutState.orderType === 'delivery' && Boolean(deliverySettings?.enabled);
+  const deliveryAddress = checkoutState.deliveryAddress || EMPTY_DELIVERY_ADDRESS;
+  const deliveryFee = isDelivery ? deliverySettings!.deliveryFee : 0;
+  // Tax is added by Square, so the deposit shown here is an estimate
+  const estimatedDeposit = settings ? (subtotal + deliveryFee) * (settings.depositPercent / 100) : 0;
+
+  // Catering needs its own notice on top of any item lead times
+  const cateringLeadTime = settings && settings.leadTimeMinutes > leadTime.minutes
+    ? { minutes: settings.leadTimeMinutes, itemName: 'Catering' }
+    : leadTime;
+
+  const validateForm = () => {
+    if (!settings) {
+      return false;
+    }
+
+    const guests = Number(headCount);
+    if (!Number.isInteger(guests) || guests < settings.minHeadCount || guests > settings.maxHeadCount) {
+      toast.error(`Catering orders are for ${settings.minHeadCount} to ${settings.maxHeadCount} guests`);
+      return false;
+    }
+
+    const nameValidation = Validator.create(contact.name)
+      .required('Name is required')
+      .maxLength(100, 'Name must be less than 100 characters')
+      .validate();
+    if (!nameValidation.isValid) {
+      toast.error(nameValidation.errors[0]);
+      return false;
+    }
+
+    const emailValidation = Validator.create(contact.email)
+      .required('Email address is required')
+      .email('Please enter a valid email address')
+      .validate();
+    if (!emailValidation.isValid) {
+      toast.error(emailValidation.errors[0]);
+      return false;
+    }
+
+    const phoneValidation = Validator.create(contact.phone)
+      .required('Phone number is required')
+      .phone('Please enter a valid phone number (e.g., (555) 123-4567)')
+      .validate();
+    if (!phoneValidation.isValid) {
+      toast.error(phoneValidation.errors[0]);
+      return false;
+    }
+
+    if (!selectedPickupDate || !selectedPickupTime) {
+      toast.error(`Please select a ${isDelivery ? 'delivery' : 'pickup'} date and time`);
+      return false;
+    }
+
+    if (isTooSoon(selectedPickupDate, selectedPickupTime, cateringLeadTime.minutes, selectedLocation?.timezone)) {
+      toast.error(`${cateringLeadTime.itemName || 'Your order'} needs at least ${formatLeadTime(cateringLeadTime.minutes)} notice. Please choose a later time.`);
+      return false;
+    }
+
+    if (isDelivery && (!deliveryAddress.street.trim() || !deliveryAddress.city.trim() || !/^\d{5}$/.test(deliveryAddress.zipCode.trim()))) {
+      toast.error('Please enter a delivery street address, city and 5-digit ZIP code');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isStoreOnline) {
+      toast.error('Sorry, the store is currently closed for online orders. Please try again later.');
+      return;
+    }
+
+    if (!selectedLocation || !validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await squareService.createCateringCheckout({
+        items,
+        pickupLocation: selectedLocation,
+        customerInfo: contact,
+        pickupDate: selectedPickupDate!,
+        pickupTime: selectedPickupTime!,
+        headCount: Number(headCount),
+        orderType: isDelivery ? 'delivery' : 'pickup',
+        deliveryAddress: isDelivery ? deliveryAddress : undefined,
+        notes: notes.trim() || undefined
+      });
+
+      if (result.checkoutUrl) {
+        // Deposit is paid on Square's hosted page
+        window.location.href = result.checkoutUrl;
+      } else {
+        navigate(`/orders/${result.orderId}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Please try again.';
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'catering_checkout',
+        itemCount: items.length
+      });
+      toast.error(`Catering order failed: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (isLoadingSettings) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!settings?.enabled || items.length === 0 || !selectedLocation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <Users className="w-16 h-16 text-green-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Catering</h1>
+          <p className="text-gray-600 mb-6">
+            {!settings?.enabled
+              ? 'Online catering orders are not available right now. Please call the store to plan your event.'
+              : items.length === 0
+              ? 'Add party trays, platters and anything else for your event to the cart, then come back here to schedule it.'
+              : 'Please choose a store location in your cart first.'}
+          </p>
+          <Link
+            to={items.length === 0 ? '/products' : '/cart'}
+            className="block w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            {items.length === 0 ? 'Browse the Menu' : 'Go to Cart'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate('/cart')}
+            className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          >
+            <ArrowLeft className="w-5 h-5 mr-1" />
+            Back to Cart
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Catering Order</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Event */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center">
+              <Users className="w-5 h-5 mr-2" />
+              Your event
+            </h2>
+            <div>
+              <label htmlFor="headCount" className="block text-sm text-gray-600 mb-1">
+                Number of guests ({settings.minHeadCount}-{settings.maxHeadCount})
+              </label>
+              <input
+                id="headCount"
+                type="number"
+                min={settings.minHeadCount}
+                max={settings.maxHeadCount}
+                value={headCount}
+                onChange={(e) => setHeadCount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {deliverySettings?.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  type="button"
+                  onClick={() => setOrderType('pickup')}
+                  className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+                    !isDelivery
+                      ? 'border-green-500 bg-green-500 text-white'
+                      : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  <MapPin className="w-5 h-5 mr-2" />
+                  <span className="text-sm">Pickup</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setOrderType('delivery')}
+                  className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+                    isDelivery
+                      ? 'border-green-500 bg-green-500 text-white'
+                      : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  <Truck className="w-5 h-5 mr-2" />
+                  <span className="text-sm">Delivery</span>
+                </button>
+              </div>
+            )}
+
+            {isDelivery && (
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="Street address"
+                  value={deliveryAddress.street}
+                  onChange={(e) => setDeliveryAddress({...deliveryAddress, street: e.target.value})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="grid grid-cols-3 gap-4">
+                  <input
+                    type="text"
+                    placeholder="City"
+                    value={deliveryAddress.city}
+                    onChange={(e) => setDeliveryAddress({...deliveryAddress, city: e.target.value})}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    placeholder="State"
+                    value={deliveryAddress.state}
+                    onChange={(e) => setDeliveryAddress({...deliveryAddress, state: e.target.value})}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    placeholder="ZIP code"
+                    maxLength={5}
+                    value={deliveryAddress.zipCode}
+                    onChange={(e) => setDeliveryAddress({...deliveryAddress, zipCode: e.target.value})}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm text-gray-600 mb-2">
+                {isDelivery ? 'Delivery' : 'Pickup'} from {selectedLocation.name} - at least {formatLeadTime(cateringLeadTime.minutes)} notice
+              </p>
+              <DateTimePickerNew
+                selectedDate={selectedPickupDate || undefined}
+                selectedTime={selectedPickupTime || undefined}
+                onDateTimeSelect={setPickupDateTime}
+                selectedLocation={selectedLocation}
+                leadTimeMinutes={cateringLeadTime.minutes}
+                leadTimeItemName={cateringLeadTime.itemName}
+              />
+            </div>
+
+            <textarea
+              placeholder="Anything we should know? (setup, allergies, serving utensils...)"
+              value={notes}
+              maxLength={400}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Contact */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <h2 className="text-xl font-bold text-gray-900">Contact</h2>
+            <input
+              type="text"
+              placeholder="Full name"
+              value={contact.name}
+              onChange={(e) => setContact({...contact, name: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="email"
+              placeholder="Email address"
+              value={contact.email}
+              onChange={(e) => setContact({...contact, email: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="tel"
+              placeholder="Phone number"
+              value={contact.phone}
+              onChange={(e) => setContact({...contact, phone: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Summary */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-2">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Summary</h2>
+            <div className="flex justify-between text-gray-600">
+              <span>{items.length} {items.length === 1 ? 'item' : 'items'}</span>
+              <span>${subtotal.toFixed(2)}</span>
+            </div>
+            {deliveryFee > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Delivery fee</span>
+                <span>${deliveryFee.toFixed(2)}</span>
+              </div>
+            )}
+            {settings.depositPercent > 0 && (
+              <div className="border-t pt-2 flex justify-between text-lg font-bold text-gray-900">
+                <span>Deposit due today ({settings.depositPercent}%)</span>
+                <span>${estimatedDeposit.toFixed(2)} + tax</span>
+              </div>
+            )}
+            <p className="text-sm text-gray-500">
+              The balance is due at {isDelivery ? 'delivery' : 'pickup'}. Tax is calculated by Square.
+            </p>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full mt-4 bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center font-medium"
+            >
+              {loading ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              ) : null}
+              {loading ? 'Processing...' : settings.depositPercent > 0 ? 'Continue to Deposit Payment' : 'Place Catering Order'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CateringPage;
@@ -1,8 +1,104 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { XCircle } from 'lucide-react';
+import { XCircle, Clock, CheckCircle, Loader2 } from 'lucide-react';
+import { HostedCheckout } from '../types';
+import { squareService } from '../services/squareService';
+import { useCart } from '../contexts/CartContext';
 
+// Where a customer lands after backing out of Square's hosted checkout. The order it started is looked up from
+// the stored checkout attempt, so they can resume paying with the same link; changing the cart voids it instead.
 const CheckoutCancel: React.FC = () => {
+  const { getHostedCheckoutKey, openHostedCheckout, abandonHostedCheckout, completeHostedCheckout } = useCart();
+  const [attemptKey] = useState(getHostedCheckoutKey);
+  const [checkout, setCheckout] = useState<HostedCheckout | null>(null);
+  const [isLoading, setIsLoading] = useState(Boolean(attemptKey));
+  const [isResuming, setIsResuming] = useState(false);
+
+  useEffect(() => {
+    if (!attemptKey) {
+      return;
+    }
+
+    squareService.getHostedCheckout(attemptKey)
+      .then(found => {
+        if (!found || found.status === 'cancelled') {
+          abandonHostedCheckout();
+          return;
+        }
+        if (found.status === 'paid') {
+          completeHostedCheckout(found.orderId);
+        }
+        setCheckout(found);
+      })
+      .catch(() => {
+        // The cart is still saved, so the customer can check out again from there
+      })
+      .finally(() => setIsLoading(false));
+  }, [attemptKey, abandonHostedCheckout, completeHostedCheckout]);
+
+  const handleResume = () => {
+    if (!checkout) return;
+    setIsResuming(true);
+    openHostedCheckout(checkout);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 text-gray-400 animate-spin" aria-label="Loading your checkout" />
+      </div>
+    );
+  }
+
+  if (checkout?.status === 'paid') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your order is paid</h1>
+          <p className="text-gray-600 mb-6">Your payment went through, so there's nothing left to do.</p>
+          <Link
+            to={`/orders/${checkout.orderId}`}
+            className="block w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Track Your Order
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (checkout?.status === 'pending') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <Clock className="w-16 h-16 text-amber-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your order is waiting for payment</h1>
+          <p className="text-gray-600 mb-6">
+            You left checkout before paying. Pick up where you left off, or change your order and we'll cancel this one.
+          </p>
+          <div className="space-y-3">
+            <button
+              type="button"
+              onClick={handleResume}
+              disabled={isResuming}
+              className="flex items-center justify-center w-full bg-green-700 text-white py-2 px-4 rounded-lg hover:bg-green-800 transition-colors disabled:opacity-50"
+            >
+              {isResuming && <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />}
+              {isResuming ? 'Redirecting to Square...' : 'Resume Payment'}
+            </button>
+            <Link
+              to="/cart"
+              className="block w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Change My Order
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
@@ -28,4 +124,4 @@ const CheckoutCancel: React.FC = () => {
   );
 };
 
-export default CheckoutCancel;
\ No newline at end of file
+export default CheckoutCancel;
@@ -1,22 +1,33 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useCart } from '../contexts/CartContext';
-import { squareService } from '../services/squareService';
-import GooglePayButton from '@google-pay/button-react';
+import { squareService, WalletAvailability, WalletType } from '../services/squareService';
 import DiscountCode from '../components/checkout/DiscountCode';
+import LoyaltyRewards from '../components/checkout/LoyaltyRewards';
+import GiftCardPayment, { AppliedGiftCard } from '../components/checkout/GiftCardPayment';
 import DateTimePickerNew from '../components/common/DateTimePickerNew';
+import PickupTimingSelector from '../components/common/PickupTimingSelector';
+import AccountSignIn from '../components/common/AccountSignIn';
 import { Validator } from '../utils/validation';
 import { trackError } from '../utils/performance';
+import { calculateItemDiscount } from '../utils/priceCalculations';
+import { formatLeadTime, isTooSoon } from '../utils/leadTime';
+import { zonedTimeToEpoch } from '../utils/timezone';
 import { useStoreStatus } from '../contexts/StoreStatusContext';
+import { useCheckout } from '../contexts/CheckoutContext';
+import { useAccount } from '../contexts/AccountContext';
+import { useLoyalty } from '../contexts/LoyaltyContext';
 
 import { 
   CreditCard, 
   MapPin, 
   ArrowLeft,
   Package,
-  Plus
+  Plus,
+  Truck
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { CurbsideDetails, DeliveryAddress, DeliverySettings } from '../types';
 
 interface CustomerInfo {
   firstName: string;
@@ -35,7 +46,14 @@ interface BillingAddress {
   country: string;
 }
 
-type PaymentMethod = 'square-redirect' | 'square' | 'googlepay' | 'cashapp';
+type PaymentMethod = 'square-redirect' | 'square' | 'cashapp';
+
+const EMPTY_DELIVERY_ADDRESS: DeliveryAddress = {
+  street: '',
+  city: '',
+  state: '',
+  zipCode: ''
+};
 
 const CheckoutPage: React.FC = () => {
   const { 
@@ -44,19 +62,42 @@ const CheckoutPage: React.FC = () => {
     getSubtotal, 
     getTotalDiscount, 
     appliedDiscounts, 
+    applyDiscount,
+    removeDiscount,
     clearCart, 
     selectedLocation,
     selectedPickupDate,
     selectedPickupTime,
-    setPickupDateTime
+    setPickupDateTime,
+    leadTime,
+    pickupMode,
+    asapQuote,
+    asapError,
+    getCheckoutAttemptKey,
+    renewCheckoutAttemptKey,
+    openHostedCheckout
   } = useCart();
   const navigate = useNavigate();
   const { isStoreOnline, checkStoreStatus } = useStoreStatus();
+  const { checkoutState, setOrderType, setDeliveryAddress } = useCheckout();
+  const { profile, isSignedIn, updateProfile, signOut } = useAccount();
+  const { checkoutLoyalty } = useLoyalty();
+  const [saveToAccount, setSaveToAccount] = useState(true);
+  const [deliverySettings, setDeliverySettings] = useState<DeliverySettings | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod>('square-redirect');
+  const [appliedGiftCard, setAppliedGiftCard] = useState<AppliedGiftCard | null>(null);
+  const [walletAvailability, setWalletAvailability] = useState<WalletAvailability>({ applePay: false, googlePay: false });
+  const [walletQuote, setWalletQuote] = useState<{ totalCents: number; tipCents: number } | null>(null);
   const [tipAmount, setTipAmount] = useState(0);
   const [customTip, setCustomTip] = useState('');
   const [showCustomTip, setShowCustomTip] = useState(false);
+  const [isCurbside, setIsCurbside] = useState(false);
+  const [curbsideDetails, setCurbsideDetails] = useState<CurbsideDetails>({
+    vehicleMake: '',
+    vehicleColor: '',
+    parkingSpot: ''
+  });
   
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
     firstName: '',
@@ -65,6 +106,41 @@ const CheckoutPage: React.FC = () => {
     phone: ''
   });
   
+  // Prefill contact details from the signed-in customer's saved profile, keeping anything already typed
+  useEffect(() => {
+    if (!profile) return;
+    setCustomerInfo(prev => ({
+      firstName: prev.firstName || profile.firstName,
+      lastName: prev.lastName || profile.lastName,
+      email: prev.email || profile.email,
+      phone: prev.phone || profile.phone
+    }));
+  }, [profile]);
+
+  // Keep the saved profile current with the details used for this order
+  const saveContactDetailsToAccount = async () => {
+    if (!isSignedIn || !saveToAccount || !profile) return;
+
+    const changes = {
+      firstName: customerInfo.firstName.trim(),
+      lastName: customerInfo.lastName.trim(),
+      phone: customerInfo.phone.trim()
+    };
+    if (
+      changes.firstName === profile.firstName &&
+      changes.lastName === profile.lastName &&
+      changes.phone === profile.phone
+    ) {
+      return;
+    }
+
+    try {
+      await updateProfile(changes);
+    } catch (error) {
+      // Not worth blocking the order over
+    }
+  };
+
   const [billingAddress, setBillingAddress] = useState<BillingAddress>({
     firstName: '',
     lastName: '',
@@ -79,8 +155,16 @@ const CheckoutPage: React.FC = () => {
   const discountAmount = getTotalDiscount();
   const discountedSubtotal = subtotal - discountAmount;
   // Tax will be calculated automatically by Square
-  const finalTipAmount = showCustomTip ? parseFloat(customTip) || 0 : tipAmount;
-  const finalTotal = discountedSubtotal + finalTipAmount; // Square will add tax automatically
+  const finalTipAmount = showCustomTip ? Math.max(0, parseFloat(customTip) || 0) : tipAmount;
+  // The server takes tips in cents, for checkout and payment alike
+  const finalTipCents = Math.round(finalTipAmount * 100);
+  const isDelivery = checkoutState.orderType === 'delivery' && Boolean(deliverySettings?.enabled);
+  const deliveryAddress = checkoutState.deliveryAddress || EMPTY_DELIVERY_ADDRESS;
+  const deliveryFee = isDelivery ? deliverySettings!.deliveryFee : 0;
+  const isAsap = pickupMode === 'asap' && !isDelivery;
+  const hasLoyaltyReward = Boolean(checkoutLoyalty?.rewardTierId);
+  const requiresSquareCheckout = isDelivery || isAsap || hasLoyaltyReward;
+  const finalTotal = discountedSubtotal + finalTipAmount + deliveryFee; // Square will add tax automatically
 
   // No default pickup time - customers must select their pickup time
 
@@ -108,6 +192,114 @@ const CheckoutPage: React.FC = () => {
     return () => clearTimeout(timer);
   }, [selectedLocation, navigate]);
 
+  // Delivery is offered only where the location has it enabled
+  useEffect(() => {
+    if (!selectedLocation) {
+      return;
+    }
+
+    let cancelled = false;
+    squareService.getDeliverySettings(selectedLocation.id)
+      .then(settings => {
+        if (!cancelled) setDeliverySettings(settings);
+      })
+      .catch(() => {
+        if (!cancelled) setDeliverySettings(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLocation]);
+
+  // Delivery fees and address checks are applied by the server, so delivery always uses Square Checkout;
+  // so do ASAP orders, whose quoted ready time is locked in by the server's checkout, and loyalty
+  // rewards, which the server checks against the points balance
+  useEffect(() => {
+    if (requiresSquareCheckout) {
+      setSelectedPaymentMethod('square-redirect');
+    }
+  }, [requiresSquareCheckout]);
+
+  // Apple Pay and Google Pay sit next to the card form; browsers without them just don't show the buttons
+  useEffect(() => {
+    if (selectedPaymentMethod !== 'square') {
+      return;
+    }
+
+    let cancelled = false;
+    squareService.initializeWallets('google-pay-button')
+      .then(availability => {
+        if (cancelled) {
+          squareService.destroyWallets();
+        } else {
+          setWalletAvailability(availability);
+        }
+      })
+      .catch(() => {
+        // Card payments still work without wallets
+      });
+
+    return () => {
+      cancelled = true;
+      setWalletAvailability({ applePay: false, googlePay: false });
+      squareService.destroyWallets();
+    };
+  }, [selectedPaymentMethod]);
+
+  // Only sent when the customer chose curbside
+  const curbsideCheckoutDetails = isCurbside && !isDelivery
+    ? {
+        vehicleMake: curbsideDetails.vehicleMake.trim(),
+        vehicleColor: curbsideDetails.vehicleColor.trim(),
+        parkingSpot: curbsideDetails.parkingSpot?.trim() || undefined
+      }
+    : undefined;
+
+  // What the card form and wallet buttons send; the server builds and prices the order from it
+  const inPageCheckoutData = {
+    items,
+    pickupLocation: selectedLocation!,
+    customerInfo: {
+      name: `${customerInfo.firstName} ${customerInfo.lastName}`,
+      phone: customerInfo.phone,
+      email: customerInfo.email
+    },
+    appliedDiscounts,
+    pickupDate: selectedPickupDate || undefined,
+    pickupTime: selectedPickupTime || undefined,
+    tipAmount: finalTipCents,
+    curbsideDetails: curbsideCheckoutDetails,
+    loyalty: checkoutLoyalty
+  };
+  const inPageCheckoutJson = JSON.stringify(inPageCheckoutData);
+
+  // Apple Pay and Google Pay open their sheet straight from the click, before the order exists, so the sheet
+  // shows the server's quote for the order (tax and tip included) and the buttons wait until there is one
+  useEffect(() => {
+    setWalletQuote(null);
+    if (!selectedLocation || selectedPaymentMethod !== 'square' || appliedGiftCard) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      squareService.quoteOrder(JSON.parse(inPageCheckoutJson))
+        .then(quote => {
+          if (cancelled) return;
+          squareService.setWalletTotal((quote.totalCents + quote.tipCents) / 100);
+          setWalletQuote(quote);
+        })
+        .catch(() => {
+          // Usually a pickup time or contact detail still missing; the card form explains what's needed
+        });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [selectedLocation, selectedPaymentMethod, appliedGiftCard, inPageCheckoutJson]);
+
   if (!selectedLocation) {
     return null;
   }
@@ -166,6 +358,13 @@ const CheckoutPage: React.FC = () => {
   };
 
   const validatePickupDateTime = () => {
+    if (isAsap) {
+      if (!asapQuote) {
+        toast.error(asapError || 'ASAP pickup is not available right now. Please schedule a pickup time.');
+        return false;
+      }
+      return true;
+    }
     if (!selectedPickupDate) {
       toast.error('Please select a pickup date');
       return false;
@@ -174,6 +373,49 @@ const CheckoutPage: React.FC = () => {
       toast.error('Please select a pickup time');
       return false;
     }
+    if (isTooSoon(selectedPickupDate, selectedPickupTime, leadTime.minutes, selectedLocation?.timezone)) {
+      toast.error(`${leadTime.itemName || 'Your order'} needs at least ${formatLeadTime(leadTime.minutes)} notice. Please choose a later time.`);
+      return false;
+    }
+    return true;
+  };
+
+  const validateCurbsideDetails = () => {
+    if (!isCurbside || isDelivery) {
+      return true;
+    }
+    if (!curbsideDetails.vehicleMake.trim() || !curbsideDetails.vehicleColor.trim()) {
+      toast.error('Please enter your vehicle make and color for curbside pickup');
+      return false;
+    }
+    return true;
+  };
+
+  const validateDeliveryDetails = () => {
+    if (!isDelivery || !deliverySettings) {
+      return true;
+    }
+    if (!deliveryAddress.street.trim() || !deliveryAddress.city.trim()) {
+      toast.error('Please enter your delivery street address and city');
+      return false;
+    }
+    if (!/^\d{5}$/.test(deliveryAddress.zipCode.trim())) {
+      toast.error('Please enter a valid 5-digit ZIP code');
+      return false;
+    }
+    // Addresses outside the ZIP list may still be inside the radius; the server makes the final call
+    if (
+      deliverySettings.radiusMiles === 0 &&
+      deliverySettings.zipCodes.length > 0 &&
+      !deliverySettings.zipCodes.includes(deliveryAddress.zipCode.trim())
+    ) {
+      toast.error('Sorry, we don\'t deliver to that ZIP code yet');
+      return false;
+    }
+    if (discountedSubtotal < deliverySettings.minimumOrder) {
+      toast.error(`Delivery orders must be at least $${deliverySettings.minimumOrder.toFixed(2)}`);
+      return false;
+    }
     return true;
   };
 
@@ -195,6 +437,14 @@ const CheckoutPage: React.FC = () => {
       return;
     }
 
+    if (!validateCurbsideDetails()) {
+      return;
+    }
+
+    if (!validateDeliveryDetails()) {
+      return;
+    }
+
     setLoading(true);
     try {
       const checkoutData = {
@@ -206,18 +456,30 @@ const CheckoutPage: React.FC = () => {
             email: customerInfo.email
           },
           appliedDiscounts,
-          pickupDate: selectedPickupDate || undefined,
-          pickupTime: selectedPickupTime || undefined
+          pickupDate: isAsap ? undefined : selectedPickupDate || undefined,
+          pickupTime: isAsap ? undefined : selectedPickupTime || undefined,
+          asapQuoteId: isAsap ? asapQuote?.quoteId : undefined,
+          tipAmount: finalTipCents,
+          curbsideDetails: curbsideCheckoutDetails,
+          orderType: isDelivery ? 'delivery' as const : 'pickup' as const,
+          deliveryAddress: isDelivery ? deliveryAddress : undefined,
+          loyalty: checkoutLoyalty
         };
 
+      await saveContactDetailsToAccount();
+
       // Create Square Checkout and get redirect URL
-      const result = await squareService.createCheckout(checkoutData);
+      const result = await squareService.createCheckout({
+        ...checkoutData,
+        idempotencyKey: getCheckoutAttemptKey(checkoutData)
+      });
       
       // Redirect to Square's hosted checkout page
-      window.location.href = result.checkoutUrl;
+      openHostedCheckout(result);
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Please try again.';
+      renewCheckoutAttemptKey(error);
       
       // Track error for monitoring
       trackError(error instanceof Error ? error : new Error(String(error)), {
@@ -241,80 +503,76 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
-  // Updated function name and implementation for Square Web Payments SDK
-  const handleSquareCheckout = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  // Checks shared by the card form and the wallet buttons before anything is charged
+  const canPlaceOrder = () => {
     // Check store status before proceeding
     if (!isStoreOnline) {
       toast.error('Sorry, the store is currently closed for online orders. Please try again later.');
-      return;
-    }
-    
-    if (!validateCustomerInfo()) {
-      return;
-    }
-
-    if (!validatePickupDateTime()) {
-      return;
+      return false;
     }
 
-    if (!squareService.card) {
-       toast.error('Payment form not ready. Please wait a moment and try again.');
-       return;
-     }
+    return validateCustomerInfo() && validatePickupDateTime() && validateCurbsideDetails();
+  };
 
+  // Has the server build and price the Square order from the cart, holding the pickup slot and checking the
+  // location's hours as Square Checkout does, then pays that order's total. Without a gift card the payment is tokenized before the order is
+  // created (Apple Pay needs that to happen straight from the click); with one, tokenize is only called if
+  // the balance falls short of the total. A wallet passes the quoted total its sheet showed, and the server
+  // refuses the payment if the order comes to anything else.
+  const payForOrder = async (
+    tokenize: () => Promise<string>,
+    giftCard: AppliedGiftCard | null,
+    paymentMethod: string,
+    quotedTotalCents?: number
+  ) => {
     setLoading(true);
     try {
-      // Tokenize the card
-      const tokenResult = await squareService.card.tokenize();
-      if (tokenResult.status === 'OK' && tokenResult.token) {
-        const checkoutData = {
-          items,
-          pickupLocation: selectedLocation!,
-          customerInfo: {
-            name: `${customerInfo.firstName} ${customerInfo.lastName}`,
-            phone: customerInfo.phone,
-            email: customerInfo.email
-          },
-          appliedDiscounts,
-          pickupDate: selectedPickupDate || undefined,
-          pickupTime: selectedPickupTime || undefined
-        };
+      let paymentToken = giftCard ? undefined : await tokenize();
 
-        // Create order in Square
-                           const orderResult = await squareService.createCheckoutSession(checkoutData);
-        
-        // Process payment
-        const paymentResult = await squareService.processPayment(
-          tokenResult.token,
-          orderResult.total,
-          orderResult.orderId
-        );
-
-        if (paymentResult.success) {
-          // Create actual pickup time from selected date and time
-          const actualPickupTime = new Date(`${selectedPickupDate}T${selectedPickupTime}`);
-            
-          // Clear cart and navigate to success page
-          clearCart();
-          navigate('/checkout/success', { 
-            state: { 
-              orderId: orderResult.orderId,
-              total: orderResult.total / 100, // Convert back from cents
-              estimatedPickupTime: actualPickupTime,
-              transactionId: paymentResult.transactionId
-            } 
-          });
-        } else {
-          throw new Error('Payment processing failed');
-        }
+      const checkoutData = inPageCheckoutData;
+      const idempotencyKey = getCheckoutAttemptKey(checkoutData);
+
+      await saveContactDetailsToAccount();
+
+      // Create order in Square
+      const orderResult = await squareService.createCheckoutSession({ ...checkoutData, idempotencyKey });
+
+      // Process payment
+      if (giftCard && Math.round(giftCard.balance * 100) < orderResult.total + finalTipCents) {
+        paymentToken = await tokenize();
+      }
+      const paymentResult = await squareService.processPayment(
+        paymentToken,
+        quotedTotalCents ?? orderResult.total,
+        orderResult.orderId,
+        finalTipCents,
+        giftCard?.gan,
+        idempotencyKey
+      );
+
+      if (paymentResult.success) {
+        // The selected date and time are on the store's clock
+        const actualPickupTime = new Date(zonedTimeToEpoch(selectedPickupDate!, selectedPickupTime!, selectedLocation?.timezone));
+          
+        // Clear cart and navigate to success page
+        clearCart();
+        navigate('/checkout/success', { 
+          state: { 
+            orderId: orderResult.orderId,
+            total: (orderResult.total + finalTipCents) / 100, // Convert back from cents
+            tipAmount: finalTipAmount,
+            giftCardAmount: paymentResult.paymentData.giftCardAmount,
+            estimatedPickupTime: actualPickupTime,
+            timeZone: selectedLocation?.timezone,
+            transactionId: paymentResult.transactionId
+          } 
+        });
       } else {
-        const errorMessage = tokenResult.errors?.[0]?.message || 'Card tokenization failed';
-        throw new Error(errorMessage);
+        throw new Error('Payment processing failed');
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Please try again.';
+      renewCheckoutAttemptKey(error);
       
       // Track error for monitoring
       trackError(error instanceof Error ? error : new Error(String(error)), {
@@ -326,7 +584,7 @@ const CheckoutPage: React.FC = () => {
         },
         itemCount: items.length,
         totalAmount: finalTotal,
-        paymentMethod: selectedPaymentMethod
+        paymentMethod
       });
       
       if (process.env.NODE_ENV === 'development') {
@@ -339,6 +597,40 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  // Updated function name and implementation for Square Web Payments SDK
+  const handleSquareCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canPlaceOrder()) {
+      return;
+    }
+
+    const card = squareService.card;
+    if (!card) {
+       toast.error('Payment form not ready. Please wait a moment and try again.');
+       return;
+     }
+
+    const tokenizeCard = async (): Promise<string> => {
+      const tokenResult = await card.tokenize();
+      if (tokenResult.status === 'OK' && tokenResult.token) {
+        return tokenResult.token;
+      }
+      throw new Error(tokenResult.errors?.[0]?.message || 'Card tokenization failed');
+    };
+
+    await payForOrder(tokenizeCard, appliedGiftCard, selectedPaymentMethod);
+  };
+
+  // Apple Pay / Google Pay pay the whole total, so they're only offered without a gift card
+  const handleWalletCheckout = (walletType: WalletType) => {
+    if (!walletQuote || !canPlaceOrder()) {
+      return;
+    }
+
+    payForOrder(() => squareService.tokenizeWallet(walletType), null, walletType, walletQuote.totalCents);
+  };
+
   if (!items || items.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -376,7 +668,7 @@ const CheckoutPage: React.FC = () => {
             {/* Payment Method Selection */}
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-6">Checkout</h2>
-              <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="grid grid-cols-2 gap-4 mb-6">
                 <button
                   onClick={() => setSelectedPaymentMethod('square-redirect')}
                   className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
@@ -390,7 +682,8 @@ const CheckoutPage: React.FC = () => {
                 </button>
                 <button
                   onClick={() => setSelectedPaymentMethod('square')}
-                  className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+                  disabled={requiresSquareCheckout}
+                  className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                     selectedPaymentMethod === 'square'
                       ? 'border-black bg-black text-white'
                       : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
@@ -399,17 +692,6 @@ const CheckoutPage: React.FC = () => {
                   <CreditCard className="w-5 h-5 mr-2" />
                   <span className="text-sm">Square Pay</span>
                 </button>
-                <button
-                  onClick={() => setSelectedPaymentMethod('googlepay')}
-                  className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
-                    selectedPaymentMethod === 'googlepay'
-                      ? 'border-blue-500 bg-blue-500 text-white'
-                      : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
-                  }`}
-                >
-                  <span className="text-lg font-bold">G</span>
-                  <span className="ml-1">Pay</span>
-                </button>
               </div>
               {selectedPaymentMethod === 'square-redirect' && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -434,16 +716,55 @@ const CheckoutPage: React.FC = () => {
 
             {/* Pickup Location */}
             <div className="bg-white rounded-lg shadow-sm border p-6">
+              {deliverySettings?.enabled && (
+                <div className="grid grid-cols-2 gap-4 mb-6">
+                  <button
+                    type="button"
+                    onClick={() => setOrderType('pickup')}
+                    className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+                      !isDelivery
+                        ? 'border-green-500 bg-green-500 text-white'
+                        : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                    }`}
+                  >
+                    <MapPin className="w-5 h-5 mr-2" />
+                    <span className="text-sm">Pickup</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setOrderType('delivery')}
+                    className={`flex items-center justify-center px-4 py-3 rounded-lg border-2 transition-colors ${
+                      isDelivery
+                        ? 'border-green-500 bg-green-500 text-white'
+                        : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                    }`}
+                  >
+                    <Truck className="w-5 h-5 mr-2" />
+                    <span className="text-sm">Delivery</span>
+                  </button>
+                </div>
+              )}
               <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
-                <MapPin className="w-5 h-5 mr-2" />
-                Pickup at
+                {isDelivery ? <Truck className="w-5 h-5 mr-2" /> : <MapPin className="w-5 h-5 mr-2" />}
+                {isDelivery ? 'Delivery from' : 'Pickup at'}
               </h2>
               <div className="flex items-start mb-4">
                 <MapPin className="w-5 h-5 text-gray-400 mr-3 mt-1" />
                 <div>
                   <p className="font-medium text-gray-900">{selectedLocation.name}</p>
                   <p className="text-sm text-gray-600">{selectedLocation.address}, {selectedLocation.city}</p>
-                  {selectedPickupDate && selectedPickupTime ? (
+                  {isAsap ? (
+                    <p className="text-sm text-gray-600">
+                      {asapQuote
+                        ? `ASAP - ready around ${new Date(asapQuote.readyAt).toLocaleTimeString('en-US', {
+                            hour: 'numeric',
+                            minute: '2-digit',
+                            hour12: true,
+                            ...(selectedLocation.timezone && { timeZone: selectedLocation.timezone })
+                          })}`
+                        : 'ASAP'}
+                    </p>
+                  ) : selectedPickupDate && selectedPickupTime ? (
                     <p className="text-sm text-gray-600">
                       {new Date(selectedPickupDate).toLocaleDateString('en-US', { 
                         weekday: 'long', 
@@ -461,24 +782,123 @@ const CheckoutPage: React.FC = () => {
                 </div>
               </div>
               
-              {/* Date Time Picker */}
+              {/* Date Time Picker - ASAP is offered for pickup only */}
               <div className="mb-4">
-                <DateTimePickerNew
-                  selectedDate={selectedPickupDate || undefined}
-                  selectedTime={selectedPickupTime || undefined}
-                  onDateTimeSelect={setPickupDateTime}
-                  selectedLocation={selectedLocation}
-                />
+                {isDelivery ? (
+                  <DateTimePickerNew
+                    selectedDate={selectedPickupDate || undefined}
+                    selectedTime={selectedPickupTime || undefined}
+                    onDateTimeSelect={setPickupDateTime}
+                    selectedLocation={selectedLocation}
+                    leadTimeMinutes={leadTime.minutes}
+                    leadTimeItemName={leadTime.itemName}
+                  />
+                ) : (
+                  <PickupTimingSelector>
+                    <DateTimePickerNew
+                      selectedDate={selectedPickupDate || undefined}
+                      selectedTime={selectedPickupTime || undefined}
+                      onDateTimeSelect={setPickupDateTime}
+                      selectedLocation={selectedLocation}
+                      leadTimeMinutes={leadTime.minutes}
+                      leadTimeItemName={leadTime.itemName}
+                    />
+                  </PickupTimingSelector>
+                )}
               </div>
               
-              <div className="mt-4 flex items-center">
-                <input type="checkbox" id="curbside" className="mr-2" />
-                <label htmlFor="curbside" className="text-sm text-gray-600">Curbside pickup</label>
-              </div>
-              <div className="mt-2">
-                <p className="text-sm text-gray-600">Instructions</p>
-                <p className="text-sm text-gray-500">Curbside Pickup: Call us @16-431-6266 when you're here and we'll run your order out to you. Please park in spots closest to build... <span className="text-blue-600 cursor-pointer">Show more</span></p>
-              </div>
+              {isDelivery && deliverySettings && (
+                <div className="mt-4 space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Delivery address - ${deliverySettings.deliveryFee.toFixed(2)} delivery fee
+                    {deliverySettings.minimumOrder > 0 && `, $${deliverySettings.minimumOrder.toFixed(2)} minimum order`}
+                  </p>
+                  <input
+                    type="text"
+                    placeholder="Street address"
+                    value={deliveryAddress.street}
+                    onChange={(e) => setDeliveryAddress({...deliveryAddress, street: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="grid grid-cols-3 gap-4">
+                    <input
+                      type="text"
+                      placeholder="City"
+                      value={deliveryAddress.city}
+                      onChange={(e) => setDeliveryAddress({...deliveryAddress, city: e.target.value})}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      placeholder="State"
+                      value={deliveryAddress.state}
+                      onChange={(e) => setDeliveryAddress({...deliveryAddress, state: e.target.value})}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="ZIP code"
+                      maxLength={5}
+                      value={deliveryAddress.zipCode}
+                      onChange={(e) => setDeliveryAddress({...deliveryAddress, zipCode: e.target.value})}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  {discountedSubtotal < deliverySettings.minimumOrder && (
+                    <p className="text-sm text-red-600">
+                      Add ${(deliverySettings.minimumOrder - discountedSubtotal).toFixed(2)} more to your order for delivery
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!isDelivery && (
+                <div className="mt-4 flex items-center">
+                  <input
+                    type="checkbox"
+                    id="curbside"
+                    className="mr-2"
+                    checked={isCurbside}
+                    onChange={(e) => setIsCurbside(e.target.checked)}
+                  />
+                  <label htmlFor="curbside" className="text-sm text-gray-600">Curbside pickup</label>
+                </div>
+              )}
+              {isCurbside && !isDelivery && (
+                <div className="mt-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="text"
+                      placeholder="Vehicle make (e.g. Honda)"
+                      value={curbsideDetails.vehicleMake}
+                      maxLength={50}
+                      onChange={(e) => setCurbsideDetails({...curbsideDetails, vehicleMake: e.target.value})}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Vehicle color"
+                      value={curbsideDetails.vehicleColor}
+                      maxLength={50}
+                      onChange={(e) => setCurbsideDetails({...curbsideDetails, vehicleColor: e.target.value})}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Parking spot (optional)"
+                    value={curbsideDetails.parkingSpot}
+                    maxLength={50}
+                    onChange={(e) => setCurbsideDetails({...curbsideDetails, parkingSpot: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div>
+                    <p className="text-sm text-gray-600">Instructions</p>
+                    <p className="text-sm text-gray-500">When you get here, open your order tracking page and tap "I've arrived" - we'll bring your order out to your car.</p>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Contact Information */}
@@ -533,6 +953,31 @@ const CheckoutPage: React.FC = () => {
               
               {selectedPaymentMethod === 'square' && (
                 <div className="space-y-4">
+                  {/* Square draws the Google Pay button into its container, so the container is rendered before we know it's supported */}
+                  <div className={`space-y-3 ${!appliedGiftCard && (walletAvailability.applePay || walletAvailability.googlePay) ? '' : 'hidden'}`}>
+                    {walletAvailability.applePay && (
+                      <button
+                        type="button"
+                        onClick={() => handleWalletCheckout('applePay')}
+                        disabled={loading || !isStoreOnline || !walletQuote}
+                        className="w-full h-12 rounded-lg bg-black text-white font-medium hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Pay with Apple Pay"
+                      >
+                        Pay with Apple Pay
+                      </button>
+                    )}
+                    <div
+                      id="google-pay-button"
+                      onClick={() => handleWalletCheckout('googlePay')}
+                      className={loading || !isStoreOnline || !walletQuote ? 'pointer-events-none opacity-50' : ''}
+                    />
+                    <div className="flex items-center gap-3 text-sm text-gray-500">
+                      <span className="flex-1 border-t border-gray-200" />
+                      or pay with card
+                      <span className="flex-1 border-t border-gray-200" />
+                    </div>
+                  </div>
+
                   <div className="border border-gray-300 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-4">
                       <span className="font-medium">Credit card</span>
@@ -551,6 +996,13 @@ const CheckoutPage: React.FC = () => {
                       </div>
                     </div>
                   </div>
+
+                  <GiftCardPayment
+                    appliedGiftCard={appliedGiftCard}
+                    amountDue={finalTotal}
+                    onApply={setAppliedGiftCard}
+                    onRemove={() => setAppliedGiftCard(null)}
+                  />
                   
                   <div className="border border-green-600 rounded-lg p-4 bg-green-50">
                     <div className="flex items-center justify-between">
@@ -561,123 +1013,6 @@ const CheckoutPage: React.FC = () => {
                 </div>
               )}
               
-              {selectedPaymentMethod === 'googlepay' && (
-                <div className="border border-gray-300 rounded-lg p-4">
-                  <div className="flex items-center justify-center py-4">
-                    <GooglePayButton
-                      environment="TEST"
-                      paymentRequest={{
-                        apiVersion: 2,
-                        apiVersionMinor: 0,
-                        allowedPaymentMethods: [
-                          {
-                            type: 'CARD',
-                            parameters: {
-                              allowedAuthMethods: ['PAN_ONLY', 'CRYPTOGRAM_3DS'],
-                              allowedCardNetworks: ['MASTERCARD', 'VISA', 'AMEX', 'DISCOVER'],
-                            },
-                            tokenizationSpecification: {
-                              type: 'PAYMENT_GATEWAY',
-                              parameters: {
-                                gateway: 'square',
-                                gatewayMerchantId: process.env.REACT_APP_SQUARE_MERCHANT_ID || 'sandbox-sq0idb-YOUR_MERCHANT_ID',
-                              },
-                            },
-                          },
-                        ],
-                        merchantInfo: {
-                          merchantId: '01234567890123456789',
-                          merchantName: "Fetterman's Deli",
-                        },
-                        transactionInfo: {
-                          totalPriceStatus: 'FINAL',
-                          totalPriceLabel: 'Total',
-                          totalPrice: finalTotal.toFixed(2),
-                          currencyCode: 'USD',
-                          countryCode: 'US',
-                        },
-                      }}
-                      onLoadPaymentData={async (paymentData) => {
-                        if (!validateCustomerInfo()) {
-                          return;
-                        }
-
-                        if (!validatePickupDateTime()) {
-                          return;
-                        }
-
-                        setLoading(true);
-                        try {
-                          const checkoutData = {
-                            items,
-                            pickupLocation: selectedLocation!,
-                            customerInfo: {
-                              name: `${customerInfo.firstName} ${customerInfo.lastName}`,
-                              phone: customerInfo.phone,
-                              email: customerInfo.email
-                            },
-                            appliedDiscounts,
-                            pickupDate: selectedPickupDate!,
-                            pickupTime: selectedPickupTime!
-                          };
-
-                          // Create order in Square
-                          const orderResult = await squareService.createCheckoutSession(checkoutData);
-                          
-                          // Process Google Pay payment
-                          const googlePayToken = paymentData.paymentMethodData.tokenizationData.token;
-                          const paymentResult = await squareService.processPayment(
-                            googlePayToken,
-                            orderResult.total,
-                            orderResult.orderId
-                          );
-
-                          if (paymentResult.success) {
-                            // Create actual pickup time from selected date and time
-                            const actualPickupTime = new Date(`${selectedPickupDate}T${selectedPickupTime}`);
-                              
-                            // Clear cart and navigate to success page
-                            clearCart();
-                            navigate('/checkout/success', { 
-                              state: { 
-                                orderId: orderResult.orderId,
-                                total: orderResult.total / 100, // Convert back from cents
-                                estimatedPickupTime: actualPickupTime,
-                                transactionId: paymentResult.transactionId
-                              } 
-                            });
-                          } else {
-                            throw new Error('Google Pay payment processing failed');
-                          }
-                        } catch (error) {
-                          const errorMessage = error instanceof Error ? error.message : 'Please try again.';
-                          
-                          if (process.env.NODE_ENV === 'development') {
-                            // Google Pay error
-                          }
-                          
-                          toast.error(`Google Pay payment failed: ${errorMessage}`);
-                        } finally {
-                          setLoading(false);
-                        }
-                      }}
-                      onError={(error) => {
-                        if (process.env.NODE_ENV === 'development') {
-                          // Google Pay error
-                        }
-                        toast.error('Google Pay payment failed. Please try another payment method.');
-                      }}
-                      onCancel={() => {
-                     
-                         toast('Google Pay payment cancelled.');
-                       }}
-                      buttonType="pay"
-                      buttonColor="black"
-                      buttonSizeMode="fill"
-                    />
-                  </div>
-                </div>
-              )}
             </div>
 
             {/* Billing Address */}
@@ -722,31 +1057,41 @@ const CheckoutPage: React.FC = () => {
               </div>
             </div>
 
-            {/* Create Account */}
+            {/* Account */}
             <div className="bg-white rounded-lg shadow-sm border p-6">
-              <h2 className="text-xl font-bold text-gray-900 mb-4">Create account</h2>
-              <div className="flex items-start space-x-3">
-                <input type="checkbox" id="create-account" className="mt-1" />
-                <div>
-                  <label htmlFor="create-account" className="text-sm text-gray-700">
-                    Save your payment info for faster reordering at Fetterman's Deli • Coffee • Ice Cream • Eatery and secure checkout with Square.
-                  </label>
-                  <p className="text-sm text-gray-500 mt-2">
-                    By selecting to create an account, you agree to the <span className="text-blue-600">Square buyer account terms</span> and <span className="text-blue-600">Privacy policy</span>. You may provide consent/revoke from Square.
+              {isSignedIn && profile ? (
+                <>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-gray-900">Your account</h2>
+                    <button type="button" onClick={() => signOut()} className="text-sm text-blue-600 hover:underline">
+                      Sign out
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-700 mb-3">
+                    Signed in as <span className="font-medium">{profile.email}</span>. This order will be added to your purchase history.
                   </p>
-                </div>
-              </div>
-              <div className="mt-4 flex items-center justify-end">
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-gray-600">Powered by</span>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-6 h-6 bg-black rounded flex items-center justify-center">
-                      <span className="text-white text-xs font-bold">□</span>
-                    </div>
-                    <span className="font-bold text-sm">Square Pay</span>
+                  <div className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      id="save-to-account"
+                      className="mt-1"
+                      checked={saveToAccount}
+                      onChange={(e) => setSaveToAccount(e.target.checked)}
+                    />
+                    <label htmlFor="save-to-account" className="text-sm text-gray-700">
+                      Save my name and phone number for next time
+                    </label>
                   </div>
-                </div>
-              </div>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-gray-900 mb-2">Sign in or create an account</h2>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Save your details for faster checkout at Fetterman's Deli • Coffee • Ice Cream • Eatery and keep track of your orders. No password needed - we'll email you a sign-in code.
+                  </p>
+                  <AccountSignIn defaultEmail={customerInfo.email} />
+                </>
+              )}
             </div>
           </div>
 
@@ -853,6 +1198,7 @@ const CheckoutPage: React.FC = () => {
                   }
                   
                   const itemPrice = basePrice + addOnTotal;
+                  const itemDiscount = calculateItemDiscount(item, items, appliedDiscounts);
                   
                   return (
                     <div key={item.id} className="border-b border-gray-200 pb-4 last:border-b-0">
@@ -945,6 +1291,9 @@ const CheckoutPage: React.FC = () => {
                           {item.quantity > 1 && (
                             <p className="text-sm text-gray-500">${itemPrice.toFixed(2)} each</p>
                           )}
+                          {itemDiscount > 0 && (
+                            <p className="text-sm text-green-600">-${itemDiscount.toFixed(2)} discount</p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -956,13 +1305,15 @@ const CheckoutPage: React.FC = () => {
               <div className="mb-6">
                 <DiscountCode 
                   appliedDiscounts={appliedDiscounts}
-                  onDiscountApplied={() => {}} // Handled by CartContext
-                  onDiscountRemoved={() => {}} // Handled by CartContext
-                  subtotal={subtotal}
-                  cartItems={items}
+                  onApplyCode={(code) => applyDiscount(code, { email: customerInfo.email, phone: customerInfo.phone })}
+                  onDiscountRemoved={removeDiscount}
                 />
               </div>
 
+              <div className="mb-6">
+                <LoyaltyRewards />
+              </div>
+
               {/* Order Totals */}
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-gray-600">
@@ -976,6 +1327,12 @@ const CheckoutPage: React.FC = () => {
                   </div>
                 )}
                 {/* Tax will be calculated and displayed by Square during checkout */}
+                {deliveryFee > 0 && (
+                  <div className="flex justify-between text-gray-600">
+                    <span>Delivery fee</span>
+                    <span>${deliveryFee.toFixed(2)}</span>
+                  </div>
+                )}
                 {finalTipAmount > 0 && (
                   <div className="flex justify-between text-gray-600">
                     <span>Tip</span>
@@ -1,40 +1,74 @@
-import React from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useSearchParams } from 'react-router-dom';
 import { CheckCircle, Clock } from 'lucide-react';
+import { squareService } from '../services/squareService';
+import { useCart } from '../contexts/CartContext';
+import { formatZonedDateTime, getZonedDateParts } from '../utils/timezone';
 
 interface OrderState {
   orderId: string;
   total: number;
+  tipAmount?: number;
+  giftCardAmount?: number; // Part of the total paid by gift card
   estimatedPickupTime: Date;
+  timeZone?: string; // The pickup location's, which pickup times are shown in
   transactionId?: string;
 }
 
 const CheckoutSuccess: React.FC = () => {
   const location = useLocation();
+  const [searchParams] = useSearchParams();
   const orderData = location.state as OrderState;
+  // Square hosted checkout redirects back with the order ID in the query string;
+  // catering deposits point back at the catering order rather than the deposit's own order
+  const orderId = orderData?.orderId || searchParams.get('cateringOrderId') || searchParams.get('orderId');
+  const [fetchedOrder, setFetchedOrder] = useState<OrderState | null>(null);
+  const { completeHostedCheckout } = useCart();
 
-  const formatDateTime = (date: Date) => {
-    const today = new Date();
+  // Back from a paid hosted checkout - the cart was kept in case the customer backed out instead
+  useEffect(() => {
+    const hostedOrderId = searchParams.get('orderId');
+    if (!orderData && hostedOrderId) {
+      completeHostedCheckout(hostedOrderId);
+    }
+  }, [orderData, searchParams, completeHostedCheckout]);
+
+  // After a hosted checkout there is no navigation state, so load the summary from Square
+  useEffect(() => {
+    if (orderData || !orderId) {
+      return;
+    }
+
+    squareService.getOrder(orderId)
+      .then(order => setFetchedOrder({
+        orderId: order.id,
+        total: order.total,
+        tipAmount: order.tip,
+        estimatedPickupTime: new Date(order.pickupTime || order.createdAt),
+        timeZone: order.pickupLocation?.timezone
+      }))
+      .catch(() => {
+        // The tracking link still works; the summary is optional
+      });
+  }, [orderData, orderId]);
+
+  const summary = orderData || fetchedOrder;
+
+  // Pickup times are on the store's clock, like the picker
+  const formatDateTime = (date: Date, timeZone?: string) => {
     const pickupDate = new Date(date);
-    const isToday = today.toDateString() === pickupDate.toDateString();
+    const isToday = getZonedDateParts(new Date(), timeZone).date === getZonedDateParts(pickupDate, timeZone).date;
     
     if (isToday) {
       // For today's orders, show "Today at [time]"
-      return `Today at ${new Intl.DateTimeFormat('en-US', {
+      return `Today at ${formatZonedDateTime(pickupDate, timeZone, {
         hour: 'numeric',
         minute: '2-digit',
         hour12: true
-      }).format(pickupDate)}`;
+      })}`;
     } else {
       // For future orders, show full date and time
-      return new Intl.DateTimeFormat('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      }).format(pickupDate);
+      return formatZonedDateTime(pickupDate, timeZone);
     }
   };
 
@@ -47,27 +81,47 @@ const CheckoutSuccess: React.FC = () => {
           Thank you for your purchase. Your order has been confirmed and is being prepared.
         </p>
         
-        {orderData && (
+        {summary && (
           <div className="bg-gray-50 rounded-lg p-4 mb-6 text-left">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-gray-600">Order ID:</span>
-              <span className="font-mono text-sm">{orderData.orderId}</span>
+              <span className="font-mono text-sm">{summary.orderId}</span>
             </div>
+            {(summary.tipAmount || 0) > 0 && (
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-gray-600">Tip:</span>
+                <span className="font-semibold">${(summary.tipAmount || 0).toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-gray-600">Total:</span>
-              <span className="font-semibold">${orderData.total.toFixed(2)}</span>
+              <span className="font-semibold">${summary.total.toFixed(2)}</span>
             </div>
+            {(summary.giftCardAmount || 0) > 0 && (
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-gray-600">Paid by gift card:</span>
+                <span className="font-semibold">${(summary.giftCardAmount || 0).toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-600 flex items-center">
                 <Clock className="w-4 h-4 mr-1" />
                 Estimated Pickup:
               </span>
-              <span className="font-semibold">{formatDateTime(new Date(orderData.estimatedPickupTime))}</span>
+              <span className="font-semibold">{formatDateTime(new Date(summary.estimatedPickupTime), summary.timeZone)}</span>
             </div>
           </div>
         )}
         
         <div className="space-y-3">
+          {orderId && (
+            <Link
+              to={`/orders/${orderId}`}
+              className="block w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Track Your Order
+            </Link>
+          )}
           <Link
             to="/products"
             className="block w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors"
@@ -131,7 +131,8 @@ const DeliMenuPage: React.FC = () => {
                 <strong className="text-gray-900">Custom Orders:</strong> Call ahead for large orders or special requests
               </p>
               <p>
-                <strong className="text-gray-900">Catering:</strong> Ask about our catering options for events
+                <strong className="text-gray-900">Catering:</strong> Party trays and platters can be pre-ordered for events through our{' '}
+                <Link to="/catering" className="text-green-700 hover:text-green-800 underline">catering order</Link> page
               </p>
               <p className="text-sm text-gray-500">
                 Prices and availability may vary by location. Seasonal menu items available while supplies last.
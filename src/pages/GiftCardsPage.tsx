@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Gift, CheckCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GiftCardBalance } from '../types';
+import { squareService } from '../services/squareService';
+import { useCart } from '../contexts/CartContext';
+import { Validator } from '../utils/validation';
+
+const PRESET_AMOUNTS = [25, 50, 100];
+// Same limits the server enforces
+const MIN_AMOUNT = 10;
+const MAX_AMOUNT = 500;
+
+// Digital gift cards: bought through Square Checkout and emailed to the recipient once paid
+const GiftCardsPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { selectedLocation } = useCart();
+  const [amount, setAmount] = useState(String(PRESET_AMOUNTS[1]));
+  const [purchase, setPurchase] = useState({ recipientName: '', recipientEmail: '', senderName: '', message: '' });
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [balanceGan, setBalanceGan] = useState('');
+  const [balance, setBalance] = useState<GiftCardBalance | null>(null);
+  const [isCheckingBalance, setIsCheckingBalance] = useState(false);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+
+  const isPurchased = searchParams.get('purchased') === 'true';
+
+  const handlePurchase = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value < MIN_AMOUNT || value > MAX_AMOUNT) {
+      toast.error(`Gift cards can be from $${MIN_AMOUNT} to $${MAX_AMOUNT}`);
+      return;
+    }
+    const emailValidation = Validator.create(purchase.recipientEmail)
+      .required("Please enter the recipient's email address")
+      .email("Please enter a valid email address for the recipient")
+      .validate();
+    if (!emailValidation.isValid) {
+      toast.error(emailValidation.errors[0]);
+      return;
+    }
+
+    setIsPurchasing(true);
+    try {
+      const result = await squareService.createGiftCardCheckout({
+        amount: value,
+        ...purchase,
+        locationId: selectedLocation?.id
+      });
+      window.location.href = result.checkoutUrl;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to start the gift card purchase');
+      setIsPurchasing(false);
+    }
+  };
+
+  const handleCheckBalance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCheckingBalance(true);
+    setBalanceError(null);
+    try {
+      setBalance(await squareService.checkGiftCardBalance(balanceGan));
+    } catch (error) {
+      setBalance(null);
+      setBalanceError(error instanceof Error ? error.message : 'Unable to check the gift card balance');
+    } finally {
+      setIsCheckingBalance(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Gift className="w-8 h-8 text-green-600" aria-hidden="true" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Gift cards</h1>
+        </div>
+
+        {isPurchased && (
+          <div className="flex items-start gap-3 bg-green-50 border border-green-200 rounded-lg p-4" role="status">
+            <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" aria-hidden="true" />
+            <p className="text-sm text-green-800">
+              Thank you! The gift card will be emailed to the recipient as soon as your payment goes through.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handlePurchase} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Send a digital gift card</h2>
+            <p className="text-sm text-gray-600 mt-1">Good for anything on our menu, online or in the shop.</p>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Amount</legend>
+            <div className="flex flex-wrap gap-2">
+              {PRESET_AMOUNTS.map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => setAmount(String(preset))}
+                  aria-pressed={amount === String(preset)}
+                  className={`px-4 py-2 rounded-lg border-2 font-medium transition-colors ${
+                    amount === String(preset)
+                      ? 'border-green-600 bg-green-600 text-white'
+                      : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  ${preset}
+                </button>
+              ))}
+              <div className="flex items-center">
+                <span className="mr-1 text-gray-600">$</span>
+                <input
+                  type="number"
+                  min={MIN_AMOUNT}
+                  max={MAX_AMOUNT}
+                  step="1"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  aria-label="Custom amount"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </fieldset>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <input
+              type="text"
+              placeholder="Recipient's name"
+              value={purchase.recipientName}
+              onChange={(e) => setPurchase({ ...purchase, recipientName: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="email"
+              required
+              placeholder="Recipient's email"
+              value={purchase.recipientEmail}
+              onChange={(e) => setPurchase({ ...purchase, recipientEmail: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              placeholder="Your name"
+              value={purchase.senderName}
+              onChange={(e) => setPurchase({ ...purchase, senderName: e.target.value })}
+              className={`${inputClassName} sm:col-span-2`}
+            />
+            <textarea
+              placeholder="Add a message (optional)"
+              maxLength={200}
+              rows={3}
+              value={purchase.message}
+              onChange={(e) => setPurchase({ ...purchase, message: e.target.value })}
+              className={`${inputClassName} sm:col-span-2`}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isPurchasing}
+            className="flex items-center justify-center w-full px-4 py-3 bg-green-700 text-white rounded-lg font-medium hover:bg-green-800 transition-colors disabled:opacity-50"
+          >
+            {isPurchasing && <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />}
+            {isPurchasing ? 'Redirecting to Square...' : 'Continue to payment'}
+          </button>
+        </form>
+
+        <form onSubmit={handleCheckBalance} className="bg-white rounded-lg shadow-sm border p-6 space-y-3">
+          <h2 className="text-lg font-bold text-gray-900">Check a balance</h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="Gift card number"
+              aria-label="Gift card number"
+              value={balanceGan}
+              onChange={(e) => setBalanceGan(e.target.value)}
+              className={`${inputClassName} flex-1 min-w-0`}
+            />
+            <button
+              type="submit"
+              disabled={isCheckingBalance || !balanceGan.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Check
+            </button>
+          </div>
+          {balanceError && (
+            <p className="text-sm text-red-600" role="alert">{balanceError}</p>
+          )}
+          {balance && (
+            <p className="text-sm text-gray-700" role="status">
+              Gift card ending {balance.last4}: <span className="font-semibold">${balance.balance.toFixed(2)}</span>
+              {balance.state !== 'ACTIVE' && ' (not active)'}
+            </p>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GiftCardsPage;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { MapPin, Clock, Star, ArrowRight, Phone, Coffee, IceCream, Sandwich, Zap, Mail } from 'lucide-react';
+import { MapPin, Clock, Star, ArrowRight, Phone, Coffee, IceCream, Sandwich, Zap, Mail, CalendarX } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
 import { useStoreStatus } from '../contexts/StoreStatusContext';
 import LocationSelector from '../components/common/LocationSelector';
@@ -9,6 +9,7 @@ import StoreStatusModal from '../components/common/StoreStatusModal';
 import { Category, StoreLocation } from '../types';
 import { squareService } from '../services/squareService';
 import { AriaLabels, ScreenReaderUtils, KeyboardUtils, useAnnouncement } from '../utils/accessibility';
+import { getTodayClosure, getUpcomingSpecialHours } from '../utils/storeHours';
 
 const HomePage: React.FC = () => {
   const { selectedLocation, setPickupLocation } = useCart();
@@ -65,6 +66,11 @@ const HomePage: React.FC = () => {
 
   const activeCategories = categories.filter(cat => cat.isActive).slice(0, 4);
 
+  // Locations closed today for a holiday or other closure
+  const closedToday = storeLocations
+    .map(location => ({ location, closure: getTodayClosure(location) }))
+    .filter(({ closure }) => closure);
+
   const handleLocationSelect = (location: StoreLocation) => {
     setPickupLocation(location);
     announce(`Selected ${location.name} as pickup location`);
@@ -197,6 +203,23 @@ const HomePage: React.FC = () => {
         </div>
       </section>
 
+      {/* Closure Banner */}
+      {closedToday.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200" role="status">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-start gap-3 text-amber-900">
+            <CalendarX className="w-6 h-6 flex-shrink-0 mt-0.5" aria-hidden="true" />
+            <p className="font-medium">
+              {closedToday.length === storeLocations.length
+                ? `We're closed today${closedToday[0].closure?.reason ? ` for ${closedToday[0].closure.reason}` : ''}.`
+                : closedToday.map(({ location, closure }) =>
+                    `${location.name} is closed today${closure?.reason ? ` for ${closure.reason}` : ''}.`
+                  ).join(' ')}
+              {' '}You can still order ahead for another day.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main id="main-content" ref={mainContentRef} tabIndex={-1}>
         {/* What We Offer Section */}
@@ -519,6 +542,19 @@ const HomePage: React.FC = () => {
                                 <span key={idx}>{hourStr}</span>
                               ))}
                             </div>
+                            {getUpcomingSpecialHours(location).length > 0 && (
+                              <div className="grid grid-cols-1 gap-1 text-sm mt-3 pt-3 border-t border-emerald-500/30">
+                                {getUpcomingSpecialHours(location).map(special => {
+                                  const [year, month, day] = special.date.split('-').map(Number);
+                                  const label = new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+                                  return (
+                                    <span key={special.date} className="text-amber-200">
+                                      {label}{special.reason ? ` (${special.reason})` : ''}: {special.closed ? 'Closed' : `${formatTime(special.open || '')} - ${formatTime(special.close || '')}`}
+                                    </span>
+                                  );
+                                })}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
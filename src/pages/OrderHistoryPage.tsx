@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { History, RotateCcw, AlertTriangle, Search, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Order, ReorderResult } from '../types';
+import { squareService } from '../services/squareService';
+import { useAccount } from '../contexts/AccountContext';
+import { useCart } from '../contexts/CartContext';
+import AccountSignIn from '../components/common/AccountSignIn';
+import { buildReorder } from '../utils/reorder';
+import { formatPrice } from '../utils/priceCalculations';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '../config/constants';
+
+// Past orders for a signed-in customer (or a phone + email lookup) with one-tap reorder
+const OrderHistoryPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isSignedIn, isLoadingAccount, profile } = useAccount();
+  const { storeLocations, selectedLocation, setPickupLocation, addReorderItems } = useCart();
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lookup, setLookup] = useState({ phone: '', email: '' });
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [pendingReorder, setPendingReorder] = useState<{ order: Order; result: ReorderResult } | null>(null);
+
+  const loadAccountOrders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setOrders(await squareService.getOrderHistory());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load your orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn) {
+      loadAccountOrders();
+    } else {
+      setOrders(null);
+    }
+  }, [isSignedIn, loadAccountOrders]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lookup.phone.trim() || !lookup.email.trim()) {
+      setError('Enter the phone number and email used for your orders');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setOrders(await squareService.lookupOrders(lookup.phone.trim(), lookup.email.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to look up your orders');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const applyReorder = (order: Order, result: ReorderResult) => {
+    // Pick up where the original order was collected if no store is chosen yet
+    if (!selectedLocation) {
+      const orderLocation = storeLocations.find(location => location.id === order.pickupLocation.id);
+      if (orderLocation) {
+        setPickupLocation(orderLocation);
+      }
+    }
+
+    addReorderItems(result.items);
+    setPendingReorder(null);
+    navigate('/cart');
+  };
+
+  const handleReorder = async (order: Order) => {
+    setReorderingId(order.id);
+    try {
+      const products = await squareService.getProducts(false, selectedLocation?.id || order.pickupLocation.id);
+      const result = buildReorder(order, products);
+
+      if (result.items.length === 0) {
+        toast.error('None of the items from this order are on the menu right now');
+      } else if (result.warnings.length > 0) {
+        // Let the customer see what changed before it goes in the cart
+        setPendingReorder({ order, result });
+      } else {
+        applyReorder(order, result);
+      }
+    } catch (err) {
+      toast.error('Unable to load the menu. Please try again.');
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
+  const formatOrderDate = (createdAt: string) =>
+    new Date(createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const describeItem = (item: Order['items'][number]) => {
+    const options = (item.modifiers || []).map(modifier => modifier.name).filter(Boolean);
+    return `${item.quantity}× ${item.productName}${options.length > 0 ? ` (${options.join(', ')})` : ''}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <History className="w-8 h-8 text-green-600" aria-hidden="true" />
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Your orders</h1>
+            {isSignedIn && profile && (
+              <p className="text-sm text-gray-500 mt-1">Signed in as {profile.email}</p>
+            )}
+          </div>
+        </div>
+
+        {!isSignedIn && !isLoadingAccount && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-2">Sign in</h2>
+              <p className="text-sm text-gray-600 mb-4">We'll email you a code - no password needed.</p>
+              <AccountSignIn />
+            </div>
+            <form onSubmit={handleLookup} className="bg-white rounded-lg shadow-sm border p-6 space-y-3">
+              <h2 className="text-lg font-bold text-gray-900">Find orders without an account</h2>
+              <p className="text-sm text-gray-600">Use the phone number and email you ordered with.</p>
+              <input
+                type="tel"
+                placeholder="Phone number"
+                value={lookup.phone}
+                onChange={(e) => setLookup({ ...lookup, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="email"
+                placeholder="Email address"
+                value={lookup.email}
+                onChange={(e) => setLookup({ ...lookup, email: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex items-center justify-center w-full px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                <Search className="w-4 h-4 mr-2" aria-hidden="true" />
+                Find my orders
+              </button>
+            </form>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {isLoading || isLoadingAccount ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+          </div>
+        ) : orders && orders.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-600">
+            No past orders found.{' '}
+            <Link to="/products" className="text-green-700 font-medium hover:underline">Start an order</Link>
+          </div>
+        ) : orders && (
+          <ul className="space-y-4">
+            {orders.map(order => (
+              <li key={order.id} className="bg-white rounded-lg shadow-sm border p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-3">
+                      <span className="font-bold text-gray-900">Order #{order.orderNumber}</span>
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-bold ${ORDER_STATUS_COLORS[order.status]}`}>
+                        {ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {formatOrderDate(order.createdAt)} · {order.pickupLocation.name} · {formatPrice(order.total)}
+                    </p>
+                    <ul className="mt-3 text-sm text-gray-700 space-y-1">
+                      {order.items.map(item => (
+                        <li key={item.id}>{describeItem(item)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex sm:flex-col gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleReorder(order)}
+                      disabled={reorderingId !== null}
+                      className="flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {reorderingId === order.id
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
+                        : <RotateCcw className="w-4 h-4 mr-2" aria-hidden="true" />}
+                      Reorder
+                    </button>
+                    <Link
+                      to={`/orders/${order.id}`}
+                      className="flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                    >
+                      View
+                    </Link>
+                  </div>
+                </div>
+
+                {pendingReorder?.order.id === order.id && (
+                  <div className="mt-4 border border-amber-200 bg-amber-50 rounded-lg p-4" role="alert">
+                    <div className="flex items-center font-medium text-amber-900 mb-2">
+                      <AlertTriangle className="w-4 h-4 mr-2" aria-hidden="true" />
+                      Some things have changed since this order
+                    </div>
+                    <ul className="list-disc pl-6 text-sm text-amber-900 space-y-1">
+                      {pendingReorder.result.warnings.map(warning => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2 mt-4">
+                      <button
+                        type="button"
+                        onClick={() => applyReorder(pendingReorder.order, pendingReorder.result)}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition-colors"
+                      >
+                        Add {pendingReorder.result.items.length} item{pendingReorder.result.items.length === 1 ? '' : 's'} to cart
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPendingReorder(null)}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderHistoryPage;
@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle, Clock, MapPin, Package, ChefHat, ShoppingBag, XCircle, RefreshCw, Car, Truck, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { OrderStatus, TrackedOrder } from '../types';
+import { squareService } from '../services/squareService';
+import { useAccount } from '../contexts/AccountContext';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS, ORDER_TRACKING_POLL_INTERVAL } from '../config/constants';
+import { formatZonedDateTime } from '../utils/timezone';
+
+const STATUS_STEPS: Array<{ status: OrderStatus; label: string; icon: React.ElementType }> = [
+  { status: 'confirmed', label: 'Order received', icon: CheckCircle },
+  { status: 'preparing', label: 'Preparing', icon: ChefHat },
+  { status: 'ready', label: 'Ready for pickup', icon: ShoppingBag },
+  { status: 'picked-up', label: 'Picked up', icon: Package }
+];
+
+// Statuses that will not change again, so polling can stop
+const FINAL_STATUSES: OrderStatus[] = ['picked-up', 'cancelled', 'refunded'];
+
+const OrderTrackingPage: React.FC = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [guestContact, setGuestContact] = useState({ phone: '', email: '' });
+  const { isSignedIn, profile } = useAccount();
+
+  const fetchOrder = useCallback(async () => {
+    if (!orderId) {
+      return;
+    }
+
+    try {
+      const fetchedOrder = await squareService.getOrder(orderId);
+      setOrder(fetchedOrder);
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load this order');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId]);
+
+  // Initial load
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  // Poll for status changes until the order reaches a final state
+  useEffect(() => {
+    if (order && FINAL_STATUSES.includes(order.status)) {
+      return;
+    }
+
+    const interval = setInterval(fetchOrder, ORDER_TRACKING_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchOrder, order]);
+
+  // Signed-in customers are recognised by their account; guests confirm the details they ordered with
+  const getOrderContact = () => {
+    if (isSignedIn && profile) {
+      return { phone: profile.phone, email: profile.email };
+    }
+
+    const contact = { phone: guestContact.phone.trim(), email: guestContact.email.trim() };
+    if (!contact.phone || !contact.email) {
+      toast.error('Enter the phone number and email used for this order');
+      return null;
+    }
+    return contact;
+  };
+
+  // Curbside check-in - lets the store know to bring the order out
+  const handleArrived = async () => {
+    const contact = getOrderContact();
+    if (!orderId || !contact) {
+      return;
+    }
+
+    setIsCheckingIn(true);
+    try {
+      const updatedOrder = await squareService.markArrived(orderId, contact);
+      setOrder(updatedOrder);
+      setLastUpdated(new Date());
+      toast.success('Thanks! We\'ll bring your order out shortly.');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to check in. Please call the store.');
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  // Self-service cancellation, offered until the store's cutoff before pickup
+  const handleCancel = async () => {
+    const contact = getOrderContact();
+    if (!orderId || !contact) {
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      const cancelledOrder = await squareService.cancelOrder(orderId, contact);
+      setOrder(cancelledOrder);
+      setLastUpdated(new Date());
+      toast.success(cancelledOrder.paymentStatus === 'refunded'
+        ? 'Your order has been cancelled and refunded to your original payment.'
+        : 'Your order has been cancelled.');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Unable to cancel this order. Please call the store.');
+      fetchOrder();
+    } finally {
+      setIsCancelling(false);
+      setIsConfirmingCancel(false);
+    }
+  };
+
+  // Guests confirm the order is theirs before checking in or cancelling
+  const renderGuestContactFields = (prompt: string) => (
+    <div className="space-y-3 mt-4">
+      <p className="text-sm text-gray-600">{prompt}</p>
+      <input
+        type="tel"
+        placeholder="Phone number"
+        value={guestContact.phone}
+        onChange={(e) => setGuestContact({ ...guestContact, phone: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <input
+        type="email"
+        placeholder="Email address"
+        value={guestContact.email}
+        onChange={(e) => setGuestContact({ ...guestContact, email: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </div>
+  );
+
+  const formatPickupTime = (pickupTime?: string) => {
+    if (!pickupTime) {
+      return 'Not scheduled';
+    }
+
+    // Shown on the store's clock, like the pickup time picker
+    return formatZonedDateTime(pickupTime, order?.pickupLocation?.timezone);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Order not found</h1>
+          <p className="text-gray-600 mb-6">
+            {error || 'We couldn\'t find this order. Please check the link from your confirmation.'}
+          </p>
+          <Link
+            to="/"
+            className="block w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isCancelled = order.status === 'cancelled' || order.status === 'refunded';
+  const currentStepIndex = STATUS_STEPS.findIndex(step => step.status === order.status);
+  const isDelivery = order.fulfillmentType === 'delivery';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Order #{order.orderNumber}</h1>
+            {lastUpdated && (
+              <p className="text-sm text-gray-500 mt-1">
+                Last updated {lastUpdated.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <span className={`inline-flex px-3 py-1 rounded-full text-sm font-bold ${ORDER_STATUS_COLORS[order.status]}`}>
+              {ORDER_STATUS_LABELS[order.status]}
+            </span>
+            <button
+              onClick={fetchOrder}
+              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              aria-label="Refresh order status"
+            >
+              <RefreshCw className="w-5 h-5 text-gray-600" aria-hidden="true" />
+            </button>
+          </div>
+        </div>
+
+        {/* Progress */}
+        {!isCancelled && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <ol className="grid grid-cols-4 gap-2">
+              {STATUS_STEPS.map((step, index) => {
+                const Icon = step.icon;
+                const isComplete = currentStepIndex >= index;
+
+                return (
+                  <li key={step.status} className="flex flex-col items-center text-center">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center mb-2 ${
+                      isComplete ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-500'
+                    }`}>
+                      <Icon className="w-5 h-5" aria-hidden="true" />
+                    </div>
+                    <span className={`text-xs sm:text-sm font-medium ${isComplete ? 'text-green-800' : 'text-gray-500'}`}>
+                      {step.label}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {/* Pickup Details */}
+        <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+          <div className="flex items-start">
+            <Clock className="w-5 h-5 text-gray-400 mr-3 mt-1" />
+            <div>
+              <p className="text-sm text-gray-600">{isDelivery ? 'Delivery time' : 'Pickup time'}</p>
+              <p className="font-medium text-gray-900">{formatPickupTime(order.pickupTime)}</p>
+            </div>
+          </div>
+          {isDelivery && (
+            <div className="flex items-start">
+              <Truck className="w-5 h-5 text-gray-400 mr-3 mt-1" />
+              <div>
+                <p className="text-sm text-gray-600">Local delivery</p>
+                <p className="font-medium text-gray-900">To the address you gave at checkout</p>
+              </div>
+            </div>
+          )}
+          <div className="flex items-start">
+            <MapPin className="w-5 h-5 text-gray-400 mr-3 mt-1" />
+            <div>
+              <p className="text-sm text-gray-600">{isDelivery ? 'From' : 'Pickup location'}</p>
+              <p className="font-medium text-gray-900">{order.pickupLocation.name}</p>
+              {order.pickupLocation.address && (
+                <p className="text-sm text-gray-600">
+                  {order.pickupLocation.address}, {order.pickupLocation.city}, {order.pickupLocation.state} {order.pickupLocation.zipCode}
+                </p>
+              )}
+              {order.pickupLocation.phone && (
+                <p className="text-sm text-gray-600">{order.pickupLocation.phone}</p>
+              )}
+            </div>
+          </div>
+          {order.isCatering && (
+            <div className="flex items-start">
+              <Users className="w-5 h-5 text-gray-400 mr-3 mt-1" />
+              <div>
+                <p className="text-sm text-gray-600">Catering order</p>
+                {order.headCount && (
+                  <p className="font-medium text-gray-900">{order.headCount} guests</p>
+                )}
+                {(order.depositPercent || 0) > 0 && (
+                  <p className="text-sm text-gray-600">
+                    {order.depositPercent}% deposit paid online - the balance is due at {isDelivery ? 'delivery' : 'pickup'}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+          {order.isCurbside && (
+            <div className="flex items-start">
+              <Car className="w-5 h-5 text-gray-400 mr-3 mt-1" />
+              <div className="flex-1">
+                <p className="text-sm text-gray-600">Curbside pickup</p>
+                {order.arrivedAt ? (
+                  <p className="text-sm text-green-700 mt-2">
+                    You checked in at {new Date(order.arrivedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} - we'll bring your order out to you.
+                  </p>
+                ) : !FINAL_STATUSES.includes(order.status) && (
+                  <>
+                    {!isSignedIn && renderGuestContactFields('Enter the phone number and email you ordered with to check in.')}
+                    <button
+                      onClick={handleArrived}
+                      disabled={isCheckingIn}
+                      className="mt-3 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {isCheckingIn ? 'Checking in...' : 'I\'ve arrived'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Cancellation */}
+        {order.cancellableUntil && !isCancelled && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-bold text-gray-900">Need to cancel?</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              You can cancel online until {formatPickupTime(order.cancellableUntil)}. Anything you paid is refunded to your original payment.
+            </p>
+            {isConfirmingCancel ? (
+              <>
+                {!isSignedIn && renderGuestContactFields('Enter the phone number and email you ordered with.')}
+                <div className="flex flex-wrap gap-3 mt-4">
+                  <button
+                    onClick={handleCancel}
+                    disabled={isCancelling}
+                    className="bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    {isCancelling ? 'Cancelling...' : 'Yes, cancel my order'}
+                  </button>
+                  <button
+                    onClick={() => setIsConfirmingCancel(false)}
+                    disabled={isCancelling}
+                    className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                  >
+                    Keep my order
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={() => setIsConfirmingCancel(true)}
+                className="mt-4 border border-red-600 text-red-700 py-2 px-4 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Cancel order
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Items */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">Items</h2>
+          <div className="space-y-3">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex justify-between border-b border-gray-200 pb-3 last:border-b-0">
+                <p className="font-medium text-gray-900">{item.quantity} × {item.productName}</p>
+                <p className="font-medium text-gray-900">${item.totalPrice.toFixed(2)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t pt-4 mt-4 space-y-2">
+            {(order.discount || 0) > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discount</span>
+                <span>-${(order.discount || 0).toFixed(2)}</span>
+              </div>
+            )}
+            {(order.deliveryFee || 0) > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Delivery fee</span>
+                <span>${(order.deliveryFee || 0).toFixed(2)}</span>
+              </div>
+            )}
+            {(order.tip || 0) > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Tip</span>
+                <span>${(order.tip || 0).toFixed(2)}</span>
+              </div>
+            )}
+            {order.tax > 0 && (
+              <div className="flex justify-between text-gray-600">
+                <span>Tax</span>
+                <span>${order.tax.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-bold text-gray-900">
+              <span>Total</span>
+              <span>${order.total.toFixed(2)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="text-center">
+          <Link
+            to="/products"
+            className="inline-block bg-green-600 text-white py-2 px-6 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Order More
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTrackingPage;
@@ -3,6 +3,7 @@ import { Search, MapPin, X, ChevronLeft, ChevronRight, Clock, Info } from 'lucid
 import SimpleProductItem from '../components/products/SimpleProductItem';
 import LocationSelector from '../components/common/LocationSelector';
 import ProductDetailModal from '../components/products/ProductDetailModal';
+import FavoritesSection from '../components/products/FavoritesSection';
 import ScrollToTop from '../components/common/ScrollToTop';
 import SkeletonLoader from '../components/SkeletonLoader';
 
@@ -509,6 +510,9 @@ const ProductsPage: React.FC = () => {
           </div>
         </header>
 
+        {/* Saved favorites */}
+        <FavoritesSection products={products} />
+
         {/* Category Navigation Modal */}
         {showCategoryModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 z-50">
@@ -1,4 +1,4 @@
-import { CartItem, StoreLocation, Product, Category, CategoryAvailabilityPeriod, ProductVariant, ProductVariantOption, OrderStatus, Discount, AppliedDiscount, DiscountValidationResult, DiscountType, SquareMeasurementUnit, MeasurementUnit } from '../types';
+import { CartItem, StoreLocation, Product, Category, CategoryAvailabilityPeriod, ProductVariant, ProductVariantOption, Order, OrderItem, OrderStatus, TrackedOrder, PaymentStatus, Discount, AppliedDiscount, DiscountValidationResult, DiscountCustomer, CurbsideDetails, DeliveryAddress, DeliverySettings, LeadTimeSettings, CateringSettings, SlotAvailability, SpecialHours, AsapQuote, CustomerProfile, Favorite, LoyaltyProgram, LoyaltyAccount, GiftCardBalance, HostedCheckout, DiscountType, SquareMeasurementUnit, MeasurementUnit } from '../types';
 import { apiCache, createCacheKey } from '../utils/cache';
 import { trackApiCall, trackError } from '../utils/performance';
 
@@ -13,11 +13,52 @@ export interface SquareCheckoutData {
   appliedDiscounts?: AppliedDiscount[];
   pickupDate?: string;
   pickupTime?: string;
+  tipAmount?: number; // In cents, like processPayment's; added to the order by the server
+  curbsideDetails?: CurbsideDetails;
+  orderType?: 'pickup' | 'delivery';
+  deliveryAddress?: DeliveryAddress; // Required when orderType is 'delivery'
+  asapQuoteId?: string; // ASAP pickup in place of pickupDate/pickupTime
+  loyalty?: CheckoutLoyalty;
+  idempotencyKey?: string; // One per checkout attempt, so repeats return the original order or checkout link
+}
+
+// Phone number that earns points for the order, and the reward it redeems (checked against the balance by the server)
+export interface CheckoutLoyalty {
+  phone: string;
+  rewardTierId?: string;
+}
+
+export interface GiftCardPurchaseData {
+  amount: number; // Dollars
+  recipientEmail: string;
+  recipientName?: string;
+  senderName?: string;
+  message?: string;
+  locationId?: string; // Store the sale is recorded at
+}
+
+export interface CateringCheckoutData {
+  items: CartItem[];
+  pickupLocation: StoreLocation;
+  customerInfo: {
+    name: string;
+    phone: string;
+    email: string;
+  };
+  pickupDate: string;
+  pickupTime: string;
+  headCount: number;
+  orderType: 'pickup' | 'delivery';
+  deliveryAddress?: DeliveryAddress;
+  notes?: string;
 }
 
 // Square Web Payments SDK types
 interface SquarePayments {
   card: (options?: any) => Promise<SquareCard>;
+  paymentRequest: (options: SquarePaymentRequestOptions) => SquarePaymentRequest;
+  applePay: (paymentRequest: SquarePaymentRequest) => Promise<SquareWallet>;
+  googlePay: (paymentRequest: SquarePaymentRequest) => Promise<SquareWallet>;
 }
 
 interface SquareCard {
@@ -25,6 +66,33 @@ interface SquareCard {
   tokenize: () => Promise<TokenResult>;
 }
 
+interface SquarePaymentRequestTotal {
+  amount: string; // Dollars, e.g. '12.50'
+  label: string;
+  pending?: boolean;
+}
+
+interface SquarePaymentRequestOptions {
+  countryCode: string;
+  currencyCode: string;
+  total: SquarePaymentRequestTotal;
+}
+
+interface SquarePaymentRequest {
+  update: (options: { total: SquarePaymentRequestTotal }) => boolean;
+}
+
+// Apple Pay tokenizes from our own button; Google Pay attaches its button to a container
+interface SquareWallet {
+  attach?: (selector: string, options?: Record<string, unknown>) => Promise<void>;
+  tokenize: () => Promise<TokenResult>;
+  destroy: () => Promise<boolean>;
+}
+
+export type WalletType = 'applePay' | 'googlePay';
+
+export type WalletAvailability = Record<WalletType, boolean>;
+
 interface TokenResult {
   status: 'OK' | 'INVALID_CARD' | 'VALIDATION_ERROR' | 'UNSUPPORTED_CARD_BRAND' | 'GENERIC_DECLINE';
   token?: string;
@@ -45,11 +113,15 @@ declare global {
 export class SquareService {
   private payments: SquarePayments | null = null;
   public card: SquareCard | null = null;
+  private paymentRequest: SquarePaymentRequest | null = null;
+  private wallets: Partial<Record<WalletType, SquareWallet>> = {};
+  private walletTotal = 0; // Dollars shown in the wallet payment sheet
   private accessToken: string;
   private applicationId: string;
   private locationId: string;
   private environment: string;
   private baseUrl: string;
+  private accountToken: string | null = null; // Session token of the signed-in customer, if any
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY_BASE = 1000; // 1 second base delay
   
@@ -73,6 +145,18 @@ export class SquareService {
     this.baseUrl = backendUrl.includes('/api/square') ? backendUrl : `${backendUrl}/api/square`;
   }
 
+  // Signed-in requests carry the session token so the server can attach the customer's Square profile
+  setAccountToken(token: string | null) {
+    this.accountToken = token;
+  }
+
+  private getJsonHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.accountToken && { Authorization: `Bearer ${this.accountToken}` })
+    };
+  }
+
   // Enhanced API call with retry mechanism and response validation
   private async retryApiCall<T>(
     apiCall: () => Promise<Response>,
@@ -221,6 +305,8 @@ export class SquareService {
             phone: location.phone_number || '',
             email: location.email || '',
             hours: this.mapSquareBusinessHours(location.business_hours),
+            specialHours: (location.special_hours || []) as SpecialHours[],
+            timezone: location.timezone || undefined,
             coordinates: location.coordinates ? {
               lat: location.coordinates.latitude,
               lng: location.coordinates.longitude
@@ -322,6 +408,91 @@ export class SquareService {
     return this.card;
   }
 
+  private toPaymentRequestTotal(total: number): SquarePaymentRequestTotal {
+    return { amount: total.toFixed(2), label: 'Total' };
+  }
+
+  // Sets the amount in the Apple Pay / Google Pay sheet (dollars). This is the server's quote for the order,
+  // tax and tip included, so the sheet shows exactly what will be charged
+  setWalletTotal(total: number) {
+    this.walletTotal = total;
+    this.paymentRequest?.update({ total: this.toPaymentRequestTotal(total) });
+  }
+
+  // Sets up Apple Pay and Google Pay where the browser and device support them. The SDK rejects
+  // wallets that aren't available, so each one is tried separately and left out if it fails.
+  async initializeWallets(googlePayContainerId: string): Promise<WalletAvailability> {
+    if (!this.payments) {
+      await this.initializeSquare();
+    }
+
+    if (!this.payments) {
+      throw new Error('Failed to initialize Square payments');
+    }
+
+    await this.destroyWallets();
+    this.paymentRequest = this.payments.paymentRequest({
+      countryCode: 'US',
+      currencyCode: 'USD',
+      total: this.toPaymentRequestTotal(this.walletTotal)
+    });
+
+    const [applePay, googlePay] = await Promise.all([
+      this.payments.applePay(this.paymentRequest).catch(() => null),
+      this.payments.googlePay(this.paymentRequest)
+        .then(async wallet => {
+          await wallet.attach?.(`#${googlePayContainerId}`, { buttonColor: 'black', buttonSizeMode: 'fill' });
+          return wallet;
+        })
+        .catch(() => null)
+    ]);
+
+    if (applePay) this.wallets.applePay = applePay;
+    if (googlePay) this.wallets.googlePay = googlePay;
+
+    return { applePay: !!applePay, googlePay: !!googlePay };
+  }
+
+  // Opens the wallet's payment sheet; Apple Pay needs this called straight from the button click
+  async tokenizeWallet(walletType: WalletType): Promise<string> {
+    const wallet = this.wallets[walletType];
+    if (!wallet) {
+      throw new Error(`${walletType === 'applePay' ? 'Apple Pay' : 'Google Pay'} is not available`);
+    }
+
+    const tokenResult = await wallet.tokenize();
+    if (tokenResult.status === 'OK' && tokenResult.token) {
+      return tokenResult.token;
+    }
+    throw new Error(tokenResult.errors?.[0]?.message || 'Payment was not completed');
+  }
+
+  async destroyWallets() {
+    const wallets = Object.values(this.wallets);
+    this.wallets = {};
+    this.paymentRequest = null;
+    await Promise.all(wallets.map(wallet => wallet.destroy().catch(() => false)));
+  }
+
+  // Prices the cart on the server, tax included, without creating an order. totalCents leaves out the tip,
+  // which is charged on top of the order
+  async quoteOrder(data: SquareCheckoutData): Promise<{ totalCents: number; tipCents: number }> {
+    const response = await fetch(`${this.baseUrl}/orders/calculate`, {
+      method: 'POST',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify(data)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || response.statusText);
+    }
+
+    return response.json();
+  }
+
+  // Creates the Square order for an in-page payment. The server builds it from catalog IDs, the same way it
+  // prices Square Checkout orders, and holds the pickup slot until the payment goes through
   async createCheckoutSession(data: SquareCheckoutData) {
     try {
       // Validate input data
@@ -329,153 +500,10 @@ export class SquareService {
         throw new Error('Invalid checkout data: missing required fields');
       }
 
-      // Calculate subtotal (Square will handle tax calculation automatically)
-      const subtotal = data.items.reduce((sum, item) => {
-        let itemPrice = item.product.price;
-        
-        // Add variant price modifiers
-        if (item.selectedVariants && item.product.variants) {
-          Object.entries(item.selectedVariants).forEach(([variantId, selectedValue]) => {
-            const variant = item.product.variants?.find(v => v.id === variantId);
-            if (variant) {
-              if (Array.isArray(selectedValue)) {
-                selectedValue.forEach(value => {
-                  const option = variant.options.find(opt => opt.name === value);
-                  if (option && option.price !== undefined) {
-                    itemPrice += option.price;
-                  }
-                });
-              } else {
-                const option = variant.options.find(opt => opt.name === selectedValue);
-                if (option && option.price !== undefined) {
-                  itemPrice += option.price;
-                }
-              }
-            }
-          });
-        }
-        
-        return sum + (itemPrice * item.quantity);
-      }, 0);
-      
-      // Create pickup information note
-      const pickupInfo = data.pickupDate && data.pickupTime 
-        ? `\n\n📅 PICKUP SCHEDULED:\n🗓️ Date: ${new Date(data.pickupDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}\n🕐 Time: ${this.formatTime(data.pickupTime)}\n📍 Location: ${data.pickupLocation.name}`
-        : '';
-
-      // Ensure we have a valid location ID
-      const locationId = this.locationId || await this.getMainLocationId();
-      
-      // Create Square order first
-      let orderRequest = {
-        location_id: locationId,
-        order: {
-          location_id: locationId,
-          pricing_options: {
-            auto_apply_taxes: true
-          },
-          line_items: data.items.map(item => {
-            // Build modifiers array for Square API using catalog object IDs
-            const modifiers: any[] = [];
-            
-            if (item.selectedVariants && item.product.variants) {
-              Object.entries(item.selectedVariants).forEach(([variantId, selectedValue]) => {
-                const variant = item.product.variants?.find(v => v.id === variantId);
-                if (variant) {
-                  if (Array.isArray(selectedValue)) {
-                    selectedValue.forEach(value => {
-                      const option = variant.options.find(opt => opt.name === value);
-                      if (option && option.price !== undefined && option.price > 0) {
-
-                        
-                        // Always include base_price_money to ensure proper pricing
-                        // According to Square API: base_price_money overrides catalog price when both are set
-                        const modifier: any = {
-                          base_price_money: {
-                            amount: Math.round(option.price * 100),
-                            currency: 'USD'
-                          },
-                          quantity: '1'
-                        };
-                        
-                        // Add catalog_object_id if available for better integration
-                        if (option.id) {
-                          modifier.catalog_object_id = option.id;
-
-                        } else {
-                          modifier.name = option.name;
-
-                        }
-                        
-                        modifiers.push(modifier);
-                      }
-                    });
-                  } else {
-                    const option = variant.options.find(opt => opt.name === selectedValue);
-                    if (option && option.price !== undefined && option.price > 0) {
-                      // Always include base_price_money to ensure proper pricing
-                      const modifier: any = {
-                        base_price_money: {
-                          amount: Math.round(option.price * 100),
-                          currency: 'USD'
-                        },
-                        quantity: '1'
-                      };
-                      
-                      // Add catalog_object_id if available for better integration
-                      if (option.id) {
-                        modifier.catalog_object_id = option.id;
-
-                      } else {
-                        modifier.name = option.name;
-
-                      }
-                      
-                      modifiers.push(modifier);
-                    }
-                  }
-                }
-              });
-            }
-            
-            const lineItem: any = {
-              name: item.product.name,
-              quantity: item.quantity.toString(),
-              base_price_money: {
-                amount: Math.round(item.product.price * 100), // Base price only, no modifiers
-                currency: 'USD'
-              },
-              variation_name: item.selectedVariants ? 
-                Object.entries(item.selectedVariants).map(([_, value]) => 
-                  Array.isArray(value) ? value.join(', ') : value
-                ).join(', ') : undefined,
-              note: item.specialInstructions ? `${item.specialInstructions}${pickupInfo}` : pickupInfo || undefined
-            };
-            
-            // Add modifiers array if there are any modifiers
-            if (modifiers.length > 0) {
-              lineItem.modifiers = modifiers;
-            }
-            
-            return lineItem;
-          })
-        }
-      };
-
-      // Apply discounts to the order if any
-      if (data.appliedDiscounts && data.appliedDiscounts.length > 0) {
-        orderRequest = this.applyDiscountsToOrder(orderRequest, data.appliedDiscounts);
-      }
-
-
-
-      // Create order in Square
       const orderResponse = await fetch(`${this.baseUrl}/orders`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(orderRequest)
+        headers: this.getJsonHeaders(),
+        body: JSON.stringify(data)
       });
 
       if (!orderResponse.ok) {
@@ -486,17 +514,15 @@ export class SquareService {
           throw new Error('🚫 Online ordering is currently unavailable. Please try again later or contact us directly for assistance.');
         }
         
-        throw new Error(`Square Order API error: ${errorData.errors?.[0]?.detail || orderResponse.statusText}`);
+        throw new Error(errorData.error || orderResponse.statusText);
       }
 
       const orderData = await orderResponse.json();
-      const orderId = orderData.order?.id;
-      const total = orderData.order?.total_money?.amount || Math.round(subtotal * 100);
       const discountTotal = data.appliedDiscounts ? this.calculateTotalDiscount(data.appliedDiscounts) : 0;
 
       return { 
-        orderId, 
-        total, 
+        orderId: orderData.order?.id as string,
+        total: (orderData.order?.total_money?.amount || 0) as number, // Cents, including tax
         orderData: orderData.order,
         appliedDiscounts: data.appliedDiscounts || [],
         discountAmount: discountTotal
@@ -510,7 +536,11 @@ export class SquareService {
   }
 
   // Method for processing actual payment with Square Web Payments SDK
-  async processPayment(token: string, amount: number, orderId?: string) {
+  // amount and tipAmount are in cents; the tip is charged on top of the order total. The server charges the order's
+  // own total and refuses the payment if that isn't the amount the customer was shown
+  // With a gift card number the gift card pays first and the card token (not needed if the gift card covers it all) pays the rest
+  // Repeating a payment with the same idempotency key returns the original payment instead of charging again
+  async processPayment(token: string | undefined, amount: number, orderId?: string, tipAmount: number = 0, giftCardGan?: string, idempotencyKey?: string) {
     try {
       const response = await fetch(`${this.baseUrl}/payment`, {
         method: 'POST',
@@ -518,9 +548,12 @@ export class SquareService {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          token,
+          ...(token && { token }),
           amount,
-          orderId
+          orderId,
+          ...(tipAmount > 0 && { tipAmount }),
+          ...(giftCardGan && { giftCardGan }),
+          ...(idempotencyKey && { idempotencyKey })
         })
       });
 
@@ -549,9 +582,7 @@ export class SquareService {
     try {
       const response = await fetch(`${this.baseUrl}/create-checkout`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
+        headers: this.getJsonHeaders(),
         body: JSON.stringify(checkoutData)
       });
 
@@ -583,7 +614,556 @@ export class SquareService {
   // Note: Order history is now managed through Square Dashboard
   // No need for getUserOrders since we're not storing orders locally
 
-  // Map internal order statuses to Square order statuses
+  // Fetch a single order from Square for the order tracking page (never cached)
+  async getOrder(orderId: string): Promise<TrackedOrder> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/orders/${encodeURIComponent(orderId)}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getOrder',
+        ['order']
+      );
+
+      const locations = await this.getSquareLocations().catch(() => [] as StoreLocation[]);
+      return this.mapTrackedOrder(data.order, locations);
+    }, 'getOrder');
+  }
+
+  // The hosted checkout a checkout attempt started, so a customer who backed out of it can resume payment
+  async getHostedCheckout(attemptKey: string): Promise<HostedCheckout | null> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/checkout/${encodeURIComponent(attemptKey)}`, {
+        headers: this.getJsonHeaders()
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to look up your checkout');
+      }
+      return data as HostedCheckout;
+    }, 'getHostedCheckout');
+  }
+
+  // Cancels the unpaid order behind an abandoned hosted checkout, so its payment link can no longer be used
+  async voidHostedCheckout(attemptKey: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/checkout/${encodeURIComponent(attemptKey)}/void`, {
+      method: 'POST',
+      headers: this.getJsonHeaders()
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const data = await response.json();
+      throw new Error(data.error || 'Unable to void the checkout');
+    }
+  }
+
+  // Customer cancellation from the tracking page; anything paid is refunded to the original payment
+  // The server checks the order is theirs: the signed-in account's, or placed with this phone number and email
+  async cancelOrder(orderId: string, contact?: { phone: string; email: string }): Promise<TrackedOrder> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/orders/${encodeURIComponent(orderId)}/cancel`, {
+        method: 'POST',
+        headers: this.getJsonHeaders(),
+        body: JSON.stringify(contact || {})
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to cancel this order');
+      }
+
+      const locations = await this.getSquareLocations().catch(() => [] as StoreLocation[]);
+      return this.mapTrackedOrder(data.order, locations);
+    }, 'cancelOrder');
+  }
+
+  // Preparation lead times by category and item (cached like locations)
+  async getLeadTimes(): Promise<LeadTimeSettings> {
+    const cacheKey = createCacheKey('lead_times');
+    const cached = apiCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<LeadTimeSettings>(
+        () => fetch(`${this.baseUrl}/lead-times`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getLeadTimes',
+        ['defaultMinutes']
+      );
+
+      apiCache.set(cacheKey, data, this.CACHE_TTL.locations);
+      return data;
+    }, 'getLeadTimes');
+  }
+
+  async getCateringSettings(): Promise<CateringSettings> {
+    return trackApiCall(async () => {
+      return this.retryApiCall<CateringSettings>(
+        () => fetch(`${this.baseUrl}/catering/settings`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getCateringSettings',
+        ['enabled']
+      );
+    }, 'getCateringSettings');
+  }
+
+  // Creates the catering order and returns the Square payment link for its deposit (amounts in dollars)
+  async createCateringCheckout(data: CateringCheckoutData): Promise<{
+    checkoutUrl?: string;
+    orderId: string;
+    depositAmount: number;
+    orderTotal: number;
+  }> {
+    const response = await fetch(`${this.baseUrl}/catering/checkout`, {
+      method: 'POST',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify(data)
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      if (response.status === 503 && result.storeOffline) {
+        throw new Error('🚫 Online ordering is currently unavailable. Please try again later or contact us directly for assistance.');
+      }
+      throw new Error(result.error || 'Failed to create catering order');
+    }
+
+    return result;
+  }
+
+  // Gift card balance by card number (never cached - it changes with every purchase)
+  async checkGiftCardBalance(gan: string): Promise<GiftCardBalance> {
+    const response = await fetch(`${this.baseUrl}/gift-cards/balance`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ gan })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Unable to check the gift card balance');
+    }
+
+    return data.giftCard;
+  }
+
+  // Digital gift card purchase through Square Checkout; the card is emailed to the recipient once paid
+  async createGiftCardCheckout(data: GiftCardPurchaseData): Promise<{ checkoutUrl: string; orderId?: string }> {
+    const response = await fetch(`${this.baseUrl}/gift-cards/checkout`, {
+      method: 'POST',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify(data)
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Unable to start the gift card purchase');
+    }
+
+    return result;
+  }
+
+  // Delivery area, fee and minimum for a location; the server enforces the same settings at checkout
+  async getDeliverySettings(locationId: string): Promise<DeliverySettings> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/locations/${encodeURIComponent(locationId)}/delivery`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getDeliverySettings',
+        ['enabled']
+      );
+
+      return {
+        enabled: Boolean(data.enabled),
+        zipCodes: data.zipCodes || [],
+        radiusMiles: data.radiusMiles || 0,
+        deliveryFee: (data.deliveryFee || 0) / 100,
+        minimumOrder: (data.minimumOrder || 0) / 100
+      };
+    }, 'getDeliverySettings');
+  }
+
+  // Remaining pickup capacity per slot; not cached since it changes with every checkout
+  async getSlotAvailability(locationId: string, date: string): Promise<SlotAvailability> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/locations/${encodeURIComponent(locationId)}/slots?date=${encodeURIComponent(date)}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getSlotAvailability',
+        ['remaining']
+      );
+
+      return {
+        date: data.date,
+        ordersPerSlot: data.ordersPerSlot || 0,
+        remaining: data.remaining || {}
+      };
+    }, 'getSlotAvailability');
+  }
+
+  // ASAP ready-time quote from the cart's prep time and the location's current queue
+  async getAsapQuote(locationId: string, items: CartItem[]): Promise<AsapQuote> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/locations/${encodeURIComponent(locationId)}/asap-quote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ items })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to estimate an ASAP pickup time');
+      }
+
+      return data as AsapQuote;
+    }, 'getAsapQuote');
+  }
+
+  // Curbside check-in: tells the store the customer is waiting outside
+  // Checked like cancelling: the signed-in account's order, or placed with this phone number and email
+  async markArrived(orderId: string, contact?: { phone: string; email: string }): Promise<TrackedOrder> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/orders/${encodeURIComponent(orderId)}/arrived`, {
+        method: 'POST',
+        headers: this.getJsonHeaders(),
+        body: JSON.stringify(contact || {})
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check in for curbside pickup');
+      }
+
+      const locations = await this.getSquareLocations().catch(() => [] as StoreLocation[]);
+      return this.mapTrackedOrder(data.order, locations);
+    }, 'markArrived');
+  }
+
+  // Sign-in step 1: emails a one-time code to the address
+  async requestSignInCode(email: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/account/request-code`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ email })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send a sign-in code');
+    }
+  }
+
+  // Sign-in step 2: exchanges the emailed code for a session token and the saved profile
+  async verifySignInCode(email: string, code: string): Promise<{ token: string; profile: CustomerProfile }> {
+    const response = await fetch(`${this.baseUrl}/account/verify-code`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ email, code })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to verify the sign-in code');
+    }
+
+    return data;
+  }
+
+  // Saved profile for the current session; null when the session has expired (never cached)
+  async getAccount(): Promise<CustomerProfile | null> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/account`, {
+        method: 'GET',
+        headers: this.getJsonHeaders()
+      });
+
+      const data = await response.json();
+      if (response.status === 401) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load your account');
+      }
+
+      return data.profile as CustomerProfile;
+    }, 'getAccount');
+  }
+
+  async updateAccount(changes: Partial<Omit<CustomerProfile, 'email'>>): Promise<CustomerProfile> {
+    const response = await fetch(`${this.baseUrl}/account`, {
+      method: 'PUT',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify(changes)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save your details');
+    }
+
+    return data.profile;
+  }
+
+  // Past orders on the signed-in customer's Square profile, newest first (never cached)
+  async getOrderHistory(): Promise<Order[]> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/account/orders`, {
+          method: 'GET',
+          headers: this.getJsonHeaders()
+        }),
+        'getOrderHistory',
+        ['orders']
+      );
+
+      const locations = await this.getSquareLocations().catch(() => [] as StoreLocation[]);
+      return data.orders.map((order: any) => this.mapSquareOrder(order, locations));
+    }, 'getOrderHistory');
+  }
+
+  async getFavorites(): Promise<Favorite[]> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/account/favorites`, {
+          method: 'GET',
+          headers: this.getJsonHeaders()
+        }),
+        'getFavorites',
+        ['favorites']
+      );
+      return data.favorites;
+    }, 'getFavorites');
+  }
+
+  // Replaces the account's saved favorites with this list
+  async saveFavorites(favorites: Favorite[]): Promise<Favorite[]> {
+    const response = await fetch(`${this.baseUrl}/account/favorites`, {
+      method: 'PUT',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify({ favorites })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save your favorites');
+    }
+
+    return data.favorites;
+  }
+
+  // Past orders for guests, matched on the phone number and email they ordered with
+  async lookupOrders(phone: string, email: string): Promise<Order[]> {
+    return trackApiCall(async () => {
+      const response = await fetch(`${this.baseUrl}/orders/lookup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ phone, email })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to look up your orders');
+      }
+
+      const locations = await this.getSquareLocations().catch(() => [] as StoreLocation[]);
+      return (data.orders || []).map((order: any) => this.mapSquareOrder(order, locations));
+    }, 'lookupOrders');
+  }
+
+  async signOut(): Promise<void> {
+    await fetch(`${this.baseUrl}/account/sign-out`, {
+      method: 'POST',
+      headers: this.getJsonHeaders()
+    });
+  }
+
+  // Helper method to map a Square order to our Order interface
+  private mapSquareOrder(squareOrder: any, locations: StoreLocation[]): Order {
+    const fulfillment = squareOrder.fulfillments?.[0];
+    const isDelivery = fulfillment?.type === 'DELIVERY';
+    const pickupDetails = fulfillment?.pickup_details || {};
+    const deliveryDetails = fulfillment?.delivery_details || {};
+    const recipient = (isDelivery ? deliveryDetails.recipient : pickupDetails.recipient) || {};
+    const toDollars = (money: any) => (money?.amount || 0) / 100;
+
+    const items: OrderItem[] = (squareOrder.line_items || []).map((lineItem: any): OrderItem => ({
+      id: lineItem.uid || lineItem.catalog_object_id || lineItem.name,
+      productId: lineItem.catalog_object_id || '',
+      productName: lineItem.name || 'Item',
+      productImage: '',
+      quantity: parseFloat(lineItem.quantity) || 1,
+      basePrice: toDollars(lineItem.base_price_money),
+      specialInstructions: lineItem.note,
+      totalPrice: toDollars(lineItem.total_money),
+      modifiers: (lineItem.modifiers || []).map((modifier: any) => ({
+        id: modifier.catalog_object_id || '',
+        name: modifier.name || '',
+        price: toDollars(modifier.base_price_money)
+      }))
+    }));
+
+    // Square reports fulfillment progress separately from the order state;
+    // a cancelled order may still carry a stale fulfillment state
+    const squareState = squareOrder.state === 'CANCELED'
+      ? 'canceled'
+      : (fulfillment?.state || squareOrder.state || 'pending').toLowerCase();
+
+    const isPaid = (squareOrder.tenders || []).length > 0 ||
+      (squareOrder.net_amount_due_money && squareOrder.net_amount_due_money.amount === 0);
+    const isRefunded = (squareOrder.refunds || []).length > 0;
+    const paymentStatus: PaymentStatus = isRefunded ? 'refunded' : isPaid ? 'paid' : 'pending';
+
+    const pickupLocation = this.findOrderLocation(squareOrder.location_id, locations, squareOrder.created_at);
+
+    const subtotal = (squareOrder.line_items || []).reduce(
+      (sum: number, lineItem: any) => sum + toDollars(lineItem.gross_sales_money), 0
+    );
+
+    // Redirect checkouts carry the tip as a service charge (already in total_money);
+    // card payments record it as tip_money on the payment, outside the order total
+    const tipServiceCharge = (squareOrder.service_charges || []).reduce(
+      (sum: number, charge: any) => sum + (charge.name === 'Tip' ? toDollars(charge.total_money || charge.amount_money) : 0), 0
+    );
+    const paymentTip = toDollars(squareOrder.total_tip_money);
+    const deliveryFee = (squareOrder.service_charges || []).reduce(
+      (sum: number, charge: any) => sum + (charge.name === 'Delivery fee' ? toDollars(charge.total_money || charge.amount_money) : 0), 0
+    );
+    const recipientAddress = recipient.address;
+
+    return {
+      id: squareOrder.id,
+      orderNumber: squareOrder.reference_id || squareOrder.id.slice(-6).toUpperCase(),
+      items,
+      subtotal,
+      tax: toDollars(squareOrder.total_tax_money),
+      discount: toDollars(squareOrder.total_discount_money),
+      tip: tipServiceCharge + paymentTip,
+      total: toDollars(squareOrder.total_money) + paymentTip,
+      status: this.mapToSquareStatus(squareState),
+      paymentStatus,
+      pickupLocation,
+      paymentMethod: squareOrder.tenders?.[0]?.type || 'CARD',
+      customerInfo: {
+        name: recipient.display_name || '',
+        phone: recipient.phone_number || '',
+        email: recipient.email_address || ''
+      },
+      specialInstructions: isDelivery ? deliveryDetails.note : pickupDetails.note,
+      pickupTime: isDelivery ? deliveryDetails.deliver_at : pickupDetails.pickup_at,
+      fulfillmentType: isDelivery ? 'delivery' : 'pickup',
+      deliveryAddress: isDelivery && recipientAddress ? {
+        street: [recipientAddress.address_line_1, recipientAddress.address_line_2].filter(Boolean).join(', '),
+        city: recipientAddress.locality || '',
+        state: recipientAddress.administrative_district_level_1 || '',
+        zipCode: recipientAddress.postal_code || ''
+      } : undefined,
+      deliveryFee: deliveryFee || undefined,
+      isCurbside: Boolean(pickupDetails.is_curbside_pickup),
+      isCatering: squareOrder.metadata?.catering === 'true',
+      headCount: squareOrder.metadata?.head_count ? parseInt(squareOrder.metadata.head_count, 10) : undefined,
+      depositPercent: squareOrder.metadata?.deposit_percent ? parseFloat(squareOrder.metadata.deposit_percent) : undefined,
+      curbsideDetails: pickupDetails.curbside_pickup_details?.curbside_details,
+      arrivedAt: pickupDetails.curbside_pickup_details?.buyer_arrived_at,
+      estimatedReadyTime: pickupDetails.pickup_at,
+      actualReadyTime: pickupDetails.ready_at,
+      createdAt: squareOrder.created_at,
+      updatedAt: squareOrder.updated_at
+    };
+  }
+
+  // The order's store from the locations list, or a placeholder when it isn't there
+  private findOrderLocation(locationId: string, locations: StoreLocation[], createdAt: string): StoreLocation {
+    return locations.find(loc => loc.id === locationId) || {
+      id: locationId,
+      name: 'Fetterman\'s',
+      address: '',
+      city: '',
+      state: '',
+      zipCode: '',
+      phone: '',
+      hours: {},
+      features: [],
+      estimatedWaitTime: 15,
+      isActive: true,
+      createdAt,
+      updatedAt: createdAt
+    };
+  }
+
+  // Map the server's tracking view of an order (amounts in cents) to the tracking page's shape
+  private mapTrackedOrder(trackedOrder: any, locations: StoreLocation[]): TrackedOrder {
+    const toDollars = (cents?: number) => (cents || 0) / 100;
+
+    return {
+      id: trackedOrder.id,
+      orderNumber: trackedOrder.orderNumber,
+      items: (trackedOrder.lineItems || []).map((lineItem: any): OrderItem => ({
+        id: lineItem.uid || lineItem.name,
+        productId: '',
+        productName: lineItem.name || 'Item',
+        productImage: '',
+        quantity: parseFloat(lineItem.quantity) || 1,
+        basePrice: toDollars(lineItem.basePriceCents),
+        totalPrice: toDollars(lineItem.totalCents)
+      })),
+      subtotal: toDollars(trackedOrder.subtotalCents),
+      tax: toDollars(trackedOrder.taxCents),
+      discount: toDollars(trackedOrder.discountCents),
+      tip: toDollars(trackedOrder.tipCents),
+      total: toDollars(trackedOrder.totalCents),
+      status: this.mapToSquareStatus(String(trackedOrder.status || 'pending').toLowerCase()),
+      paymentStatus: trackedOrder.paymentStatus,
+      pickupLocation: this.findOrderLocation(trackedOrder.locationId, locations, trackedOrder.createdAt),
+      pickupTime: trackedOrder.pickupAt,
+      fulfillmentType: trackedOrder.fulfillmentType,
+      deliveryFee: toDollars(trackedOrder.deliveryFeeCents) || undefined,
+      isCurbside: trackedOrder.isCurbside,
+      arrivedAt: trackedOrder.arrivedAt,
+      isCatering: trackedOrder.isCatering,
+      headCount: trackedOrder.headCount,
+      depositPercent: trackedOrder.depositPercent,
+      cancellableUntil: trackedOrder.cancellableUntil,
+      createdAt: trackedOrder.createdAt
+    };
+  }
+
+  // Map internal and Square fulfillment statuses to our order statuses
   private mapToSquareStatus(status: string): OrderStatus {
     const statusMap: { [key: string]: OrderStatus } = {
       'pending': 'pending',
@@ -591,20 +1171,17 @@ export class SquareService {
       'ready': 'ready',
       'completed': 'picked-up',
       'cancelled': 'cancelled',
-      'failed': 'cancelled'
+      'failed': 'cancelled',
+      // Square fulfillment states (lowercased)
+      'proposed': 'confirmed',
+      'reserved': 'preparing',
+      'prepared': 'ready',
+      'canceled': 'cancelled'
     };
     
     return statusMap[status] || 'pending';
   }
 
-  // Helper method to format time for display
-  private formatTime(timeString: string): string {
-    const [hour, minute] = timeString.split(':').map(Number);
-    const period = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
-  }
-
   // Cache methods now use the enhanced caching utility
 
   // Discount Management Methods
@@ -747,74 +1324,61 @@ export class SquareService {
     ];
   }
 
+  // The server re-evaluates discounts from their code or ID, so nothing else is sent
+  // Loyalty rewards aren't codes; checkout sends them separately to be checked against the points balance
+  private toDiscountReferences(appliedDiscounts: AppliedDiscount[]): Array<Pick<AppliedDiscount, 'discountId' | 'code'>> {
+    return appliedDiscounts
+      .filter(discount => discount.type !== 'loyalty_points')
+      .map(({ discountId, code }) => ({ discountId, code }));
+  }
+
   /**
-   * Validate discount code with real Square integration
+   * Validate discount code on the server against the catalog-priced cart
    * @param code - Discount code to validate
    * @param cartItems - Current cart items
-   * @param subtotal - Order subtotal
+   * @param appliedDiscounts - Discounts already on the cart, checked against stacking rules
+   * @param customer - Email/phone for per-customer usage limits, when known
+   * @param locationId - Store whose clock day and time restrictions are read on, once one is chosen
    * @returns Discount validation result
    */
-  async validateDiscount(code: string, cartItems: CartItem[], subtotal: number): Promise<DiscountValidationResult> {
+  async validateDiscount(
+    code: string,
+    cartItems: CartItem[],
+    appliedDiscounts: AppliedDiscount[] = [],
+    customer?: DiscountCustomer,
+    locationId?: string
+  ): Promise<DiscountValidationResult> {
     try {
-      // First try to get discounts from Square Catalog API
-      const availableDiscounts = await this.getDiscounts();
-      
-      const discount = availableDiscounts.find(d => 
-        d.code?.toLowerCase() === code.toLowerCase() && d.isActive
-      );
-
-      if (!discount) {
-        return {
-          isValid: false,
-          error: 'Invalid discount code'
-        };
-      }
+      const response = await fetch(`${this.baseUrl}/discounts/validate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          code,
+          items: cartItems,
+          appliedDiscounts: this.toDiscountReferences(appliedDiscounts),
+          customer,
+          locationId
+        })
+      });
 
-      // Check if discount is currently valid
-      const now = new Date();
-      const validFrom = new Date(discount.validFrom);
-      const validUntil = new Date(discount.validUntil);
-      
-      if (now < validFrom || now > validUntil) {
-        return {
-          isValid: false,
-          error: 'Discount code has expired'
-        };
-      }
+      const result = await response.json();
 
-      // Check minimum order amount
-      const subtotalInCents = Math.round(subtotal * 100);
-      if (discount.minOrderAmount && subtotalInCents < discount.minOrderAmount) {
-        const minAmount = (discount.minOrderAmount / 100).toFixed(2);
+      if (!response.ok || !result.isValid) {
         return {
           isValid: false,
-          error: `Minimum order amount of $${minAmount} required`
+          error: result.error || 'Invalid discount code'
         };
       }
 
-      // Check advanced conditions if present
-      if (discount.conditions) {
-        const conditionCheck = this.validateDiscountConditions(discount.conditions, cartItems, subtotal);
-        if (!conditionCheck.isValid) {
-          return conditionCheck;
-        }
-      }
-
-      // Calculate discount amount
-      let appliedAmount = 0;
-      if (discount.type === 'percentage') {
-        appliedAmount = Math.round(subtotalInCents * (discount.value / 100));
-        if (discount.maxDiscountAmount && appliedAmount > discount.maxDiscountAmount) {
-          appliedAmount = discount.maxDiscountAmount;
-        }
-      } else if (discount.type === 'fixed_amount') {
-        appliedAmount = Math.min(discount.value, subtotalInCents);
-      }
-
       return {
         isValid: true,
-        discount,
-        appliedAmount: appliedAmount / 100 // Convert back to dollars
+        discount: result.discount,
+        appliedAmount: result.appliedAmount,
+        itemIds: result.itemIds,
+        replacedDiscountIds: result.replacedDiscountIds,
+        replacedReason: result.replacedReason
       };
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
@@ -827,144 +1391,104 @@ export class SquareService {
     }
   }
 
+   /**
+    * Best combination of automatic discounts (BOGO, tiers, etc.) as chosen by the server's discount engine
+    * @param cartItems - Current cart items
+    * @param appliedDiscounts - Discounts on the cart; entered codes limit which automatic ones can stack
+    * @param locationId - Store whose clock day and time restrictions are read on, once one is chosen
+    * @returns Array of automatically applied discounts
+    */
+   async getAutomaticDiscounts(cartItems: CartItem[], appliedDiscounts: AppliedDiscount[] = [], locationId?: string): Promise<AppliedDiscount[]> {
+     const response = await fetch(`${this.baseUrl}/discounts/automatic`, {
+       method: 'POST',
+       headers: {
+         'Content-Type': 'application/json'
+       },
+       body: JSON.stringify({
+         items: cartItems,
+         appliedDiscounts: this.toDiscountReferences(appliedDiscounts),
+         locationId
+       })
+     });
+
+     if (!response.ok) {
+       throw new Error(`Failed to check automatic discounts: ${response.status}`);
+     }
+
+     const result: { discounts: Array<Required<Pick<DiscountValidationResult, 'discount' | 'appliedAmount' | 'itemIds'>>> } =
+       await response.json();
+
+     return result.discounts.map(({ discount, appliedAmount, itemIds }) => ({
+       discountId: discount.id,
+       code: discount.code,
+       name: discount.name,
+       type: discount.type,
+       value: discount.value,
+       appliedAmount,
+       appliedTo: discount.scope === 'LINE_ITEM' ? 'item' : 'order',
+       itemIds,
+       discount
+     }));
+   }
+
   /**
-   * Validate advanced discount conditions
-   * @param conditions - Discount conditions to check
-   * @param cartItems - Current cart items
-   * @param subtotal - Order subtotal
-   * @returns Validation result
+   * Square Loyalty program with the rewards that can be redeemed online
+   * @returns The program, or null when the store doesn't run one
    */
-  private validateDiscountConditions(
-    conditions: NonNullable<Discount['conditions']>, 
-    cartItems: CartItem[], 
-    subtotal: number
-  ): { isValid: boolean; error?: string } {
-    // Check minimum quantity
-    if (conditions.minimumQuantity) {
-      const totalQuantity = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-      if (totalQuantity < conditions.minimumQuantity) {
-        return {
-          isValid: false,
-          error: `Minimum ${conditions.minimumQuantity} items required`
-        };
-      }
-    }
-
-    // Check applicable items
-    if (conditions.applicableItemIds && conditions.applicableItemIds.length > 0) {
-      const hasApplicableItems = cartItems.some(item => 
-        conditions.applicableItemIds!.includes(item.product.id)
+  async getLoyaltyProgram(): Promise<LoyaltyProgram | null> {
+    return trackApiCall(async () => {
+      const data = await this.retryApiCall<any>(
+        () => fetch(`${this.baseUrl}/loyalty/program`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        }),
+        'getLoyaltyProgram'
       );
-      if (!hasApplicableItems) {
-        return {
-          isValid: false,
-          error: 'No eligible items in cart for this discount'
-        };
-      }
-    }
+      return data.program || null;
+    }, 'getLoyaltyProgram');
+  }
 
-    // Check applicable categories
-    if (conditions.applicableCategoryIds && conditions.applicableCategoryIds.length > 0) {
-      const hasApplicableCategories = cartItems.some(item => 
-        item.product.categoryIds?.some(catId => 
-          conditions.applicableCategoryIds!.includes(catId)
-        ) || conditions.applicableCategoryIds!.includes(item.product.categoryId || '')
-      );
-      if (!hasApplicableCategories) {
-        return {
-          isValid: false,
-          error: 'No eligible categories in cart for this discount'
-        };
-      }
-    }
+  /**
+   * Points balance for a phone number
+   * @returns The loyalty account, or null if the number hasn't earned points yet
+   */
+  async getLoyaltyAccount(phone: string): Promise<LoyaltyAccount | null> {
+    const response = await fetch(`${this.baseUrl}/loyalty/account`, {
+      method: 'POST',
+      headers: this.getJsonHeaders(),
+      body: JSON.stringify({ phone })
+    });
 
-    // Check time restrictions
-    if (conditions.timeRestrictions) {
-      const now = new Date();
-      const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const currentTime = now.getHours() * 100 + now.getMinutes(); // HHMM format
-      
-      if (conditions.timeRestrictions.dayOfWeek && 
-          !conditions.timeRestrictions.dayOfWeek.includes(currentDay)) {
-        return {
-          isValid: false,
-          error: 'Discount not available on this day'
-        };
-      }
-      
-      if (conditions.timeRestrictions.startTime && conditions.timeRestrictions.endTime) {
-        const startTime = parseInt(conditions.timeRestrictions.startTime.replace(':', ''));
-        const endTime = parseInt(conditions.timeRestrictions.endTime.replace(':', ''));
-        
-        if (currentTime < startTime || currentTime > endTime) {
-          return {
-            isValid: false,
-            error: 'Discount not available at this time'
-          };
-        }
-      }
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Unable to look up your points');
     }
 
-    return { isValid: true };
-   }
+    return data.account;
+  }
 
-   /**
-    * Automatically apply eligible discounts based on Square's business rules
-    * @param cartItems - Current cart items
-    * @param subtotal - Order subtotal
-    * @returns Array of automatically applied discounts
-    */
-   async getAutomaticDiscounts(cartItems: CartItem[], subtotal: number): Promise<AppliedDiscount[]> {
-     try {
-       const availableDiscounts = await this.getDiscounts();
-       const automaticDiscounts = availableDiscounts.filter(d => 
-         d.type === 'automatic' && d.isActive
-       );
-       
-       const appliedDiscounts: AppliedDiscount[] = [];
-       
-       for (const discount of automaticDiscounts) {
-         // Check if discount conditions are met
-         const validation = await this.validateDiscount(discount.code || discount.id, cartItems, subtotal);
-         
-         if (validation.isValid && validation.discount && validation.appliedAmount) {
-           appliedDiscounts.push({
-             discountId: validation.discount.id,
-             code: validation.discount.code,
-             name: validation.discount.name,
-             type: validation.discount.type,
-             value: validation.discount.value,
-             appliedAmount: validation.appliedAmount,
-             appliedTo: 'order',
-             discount: validation.discount
-           });
-         }
-       }
-       
-       // Sort by highest discount amount first
-       appliedDiscounts.sort((a, b) => b.appliedAmount - a.appliedAmount);
-       
-       return appliedDiscounts;
-     } catch (error) {
-      if (process.env.NODE_ENV === 'development') {
-        // Error applying automatic discounts
-      }
-      return [];
+  /**
+   * Points the cart would earn once paid
+   * @param discountAmount - Cart discounts in dollars; points are earned on what is paid
+   */
+  async estimateLoyaltyPoints(cartItems: CartItem[], discountAmount: number): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/loyalty/estimate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ items: cartItems, discountAmount })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Unable to estimate points');
     }
-   }
 
-   /**
-    * Get loyalty-based discounts for a customer
-    * @param customerId - Customer ID
-    * @param cartItems - Current cart items
-    * @param subtotal - Order subtotal
-    * @returns Array of applicable loyalty discounts
-    */
-   async getLoyaltyDiscounts(customerId: string, cartItems: CartItem[], subtotal: number): Promise<AppliedDiscount[]> {
-     // This would integrate with Square's Loyalty API
-     // For now, return empty array as placeholder
-     return [];
-   }
+    return data.points;
+  }
 
    /**
     * Calculate total discount amount from applied discounts
@@ -975,33 +1499,6 @@ export class SquareService {
     return appliedDiscounts.reduce((total, discount) => total + discount.appliedAmount, 0);
   }
 
-  /**
-   * Apply discounts to Square order line items
-   * @param orderRequest - Square order request object
-   * @param appliedDiscounts - Discounts to apply
-   * @returns Modified order request with discounts
-   */
-  private applyDiscountsToOrder(orderRequest: any, appliedDiscounts: AppliedDiscount[]): any {
-    if (!appliedDiscounts || appliedDiscounts.length === 0) {
-      return orderRequest;
-    }
-
-    // Add order-level discounts
-    const orderDiscounts = appliedDiscounts.filter(d => d.appliedTo === 'order');
-    if (orderDiscounts.length > 0) {
-      orderRequest.order.discounts = orderDiscounts.map(discount => ({
-        name: discount.name,
-        percentage: discount.type === 'percentage' ? discount.value.toString() : undefined,
-        amount_money: discount.type === 'fixed_amount' ? {
-          amount: Math.round(discount.appliedAmount * 100), // Convert to cents
-          currency: 'USD'
-        } : undefined,
-        scope: 'ORDER'
-      }));
-    }
-
-    return orderRequest;
-  }
 
 
 
@@ -202,11 +202,90 @@ export interface OrderItem {
   };
   specialInstructions?: string;
   totalPrice: number;
+  modifiers?: OrderItemModifier[]; // Square modifiers on the line, for reordering
+}
+
+// A configured product saved under the customer's own name, e.g. "Dad's Reuben"
+// Stored in the browser and synced to the account when signed in
+export interface Favorite {
+  id: string;
+  name: string;
+  productId: string;
+  productName: string; // As it was when saved, for favorites whose product is gone
+  quantity: number;
+  selectedVariants?: { [variantId: string]: string | string[] };
+  specialInstructions?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Square Loyalty reward that can be redeemed online (order-wide discounts only)
+export interface LoyaltyRewardTier {
+  id: string; // Square reward tier ID
+  name: string;
+  points: number; // Points it costs
+  discountType: 'percentage' | 'fixed_amount';
+  value: number; // Percent off, or cents off
+  maxDiscountCents?: number;
+}
+
+export interface LoyaltyProgram {
+  id: string;
+  pointsName: { one: string; other: string }; // The seller's own wording, e.g. "Star" / "Stars"
+  rewardTiers: LoyaltyRewardTier[];
+}
+
+// Points held by a phone number
+export interface LoyaltyAccount {
+  id: string;
+  balance: number;
+  lifetimePoints: number;
+}
+
+// Square gift card as shown to the customer (only the last digits of the number come back)
+export interface GiftCardBalance {
+  last4: string;
+  balance: number; // Dollars
+  state: 'ACTIVE' | 'DEACTIVATED' | 'BLOCKED' | 'PENDING';
+}
+
+// Modifier recorded on a past order line (price per unit, in dollars)
+export interface OrderItemModifier {
+  id: string; // Square CatalogModifier ID
+  name: string;
+  price: number;
+}
+
+// Past order lines matched back to the current menu, ready to add to the cart
+export interface ReorderResult {
+  items: Array<{
+    product: Product;
+    quantity: number;
+    selectedVariants?: { [variantId: string]: string | string[] };
+    specialInstructions?: string;
+  }>;
+  warnings: string[]; // Items, options or prices that changed since the original order
 }
 
 // DashboardStats interface removed as requested
 
 // Location Selection
+// One day's hours; the same shape Square weekly business hours are mapped to
+export interface DayHours {
+  open: string;
+  close: string;
+  closed?: boolean;
+}
+
+// Holiday closure or special hours for one date, overriding the weekly hours
+export interface SpecialHours {
+  date: string; // YYYY-MM-DD
+  closed: boolean;
+  open?: string;
+  close?: string;
+  reason?: string;
+}
+
 export interface StoreLocation {
   id: string;
   name: string;
@@ -219,6 +298,8 @@ export interface StoreLocation {
   hours: {
     [key: string]: { open: string; close: string; closed?: boolean };
   };
+  specialHours?: SpecialHours[];
+  timezone?: string; // IANA zone from Square; hours and pickup times are in this zone
   coordinates?: {
     lat: number;
     lng: number;
@@ -246,6 +327,7 @@ export interface Discount {
   validUntil: string;
   usageLimit?: number; // Total usage limit
   usageCount: number; // Current usage count
+  perCustomerLimit?: number; // Redemptions allowed per email/phone
   isActive: boolean;
   applicableCategories?: string[]; // Category IDs where discount applies
   applicableProducts?: string[]; // Product IDs where discount applies
@@ -255,9 +337,17 @@ export interface Discount {
   squareDiscountType?: 'FIXED_PERCENTAGE' | 'FIXED_AMOUNT' | 'VARIABLE_PERCENTAGE' | 'VARIABLE_AMOUNT';
   scope?: 'ORDER' | 'LINE_ITEM'; // Square discount scope
   rewardTier?: {
+    id?: string; // Square loyalty reward tier ID
     points?: number;
     name?: string;
   }; // For loyalty program integration
+  reward?: DiscountReward; // For buy_x_get_y and tiered discounts
+  isAutomatic?: boolean; // Applied by the discount engine without a code
+  stacking?: {
+    exclusive?: boolean; // Can't be combined with any other discount
+    group?: string; // Only one discount per group can apply
+    priority?: number; // Higher priority wins when codes conflict
+  };
   
   // Advanced discount rules
   conditions?: {
@@ -276,10 +366,24 @@ export interface Discount {
   updatedAt: string;
 }
 
+// Reward rules evaluated by the server discount engine
+export interface DiscountReward {
+  buyQuantity?: number; // buy_x_get_y: units that must be bought per application
+  getQuantity?: number; // buy_x_get_y: units discounted per application
+  discountPercent?: number; // buy_x_get_y: discount on the "get" units (100 = free)
+  maxApplications?: number;
+  tiers?: Array<{
+    minSubtotal: number; // Eligible subtotal in cents
+    type: 'percentage' | 'fixed_amount';
+    value: number;
+  }>;
+}
+
 export type DiscountType = 
   | 'percentage' // Percentage off (e.g., 10% off)
   | 'fixed_amount' // Fixed amount off (e.g., $5 off)
   | 'buy_x_get_y' // Buy X get Y free/discounted
+  | 'tiered' // Spend-threshold tiers
   | 'free_shipping' // Free delivery (if applicable)
   | 'loyalty_points' // Loyalty program discount
   | 'automatic'; // Automatic catalog-based discount
@@ -304,6 +408,7 @@ export interface Order {
   subtotal: number;
   tax: number;
   discount?: number;
+  tip?: number;
   appliedDiscounts?: AppliedDiscount[]; // Track multiple discounts
   total: number; // Ensure this exists
   status: OrderStatus;
@@ -319,10 +424,125 @@ export interface Order {
   estimatedReadyTime?: string;
   actualReadyTime?: string;
   pickupTime?: string;
+  fulfillmentType?: 'pickup' | 'delivery';
+  deliveryAddress?: DeliveryAddress;
+  deliveryFee?: number;
+  isCurbside?: boolean;
+  curbsideDetails?: string; // e.g. "Blue Honda, parking spot 3"
+  arrivedAt?: string; // When the customer checked in at the curb
+  isCatering?: boolean;
+  headCount?: number;
+  depositPercent?: number; // Share of the total paid up front on catering orders
+  cancellableUntil?: string; // Set while the customer can still cancel online
   createdAt: string;
   updatedAt: string;
 }
 
+// An order as the tracking page sees it - anyone with the link can open it, so there are no contact details
+export type TrackedOrder = Pick<Order,
+  | 'id'
+  | 'orderNumber'
+  | 'items'
+  | 'subtotal'
+  | 'tax'
+  | 'discount'
+  | 'tip'
+  | 'total'
+  | 'status'
+  | 'paymentStatus'
+  | 'pickupLocation'
+  | 'pickupTime'
+  | 'fulfillmentType'
+  | 'deliveryFee'
+  | 'isCurbside'
+  | 'arrivedAt'
+  | 'isCatering'
+  | 'headCount'
+  | 'depositPercent'
+  | 'cancellableUntil'
+  | 'createdAt'
+>;
+
+// A Square hosted checkout page started from the cart, looked up when the customer backs out of it
+export interface HostedCheckout {
+  checkoutUrl: string;
+  orderId: string;
+  status: 'pending' | 'paid' | 'cancelled';
+}
+
+// Address for local delivery orders
+export interface DeliveryAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+// Per-location delivery settings (amounts in dollars)
+export interface DeliverySettings {
+  enabled: boolean;
+  zipCodes: string[];
+  radiusMiles: number;
+  deliveryFee: number;
+  minimumOrder: number;
+}
+
+// How the customer wants their pickup timed: a chosen slot, or as soon as the kitchen can make it
+export type PickupMode = 'scheduled' | 'asap';
+
+// Ready-time quote for an ASAP pickup; checkout with quoteId keeps readyAt until expiresAt
+export interface AsapQuote {
+  quoteId: string;
+  readyAt: string;
+  minutes: number;
+  queueDepth: number;
+  expiresAt: string;
+}
+
+// Remaining orders the kitchen can take per pickup slot on one day
+// Slots missing from `remaining` still have the full ordersPerSlot; 0 ordersPerSlot means no limit
+export interface SlotAvailability {
+  date: string;
+  ordersPerSlot: number;
+  remaining: { [time: string]: number };
+}
+
+// Preparation lead times in minutes, keyed by Square category and item ID
+export interface LeadTimeSettings {
+  defaultMinutes: number;
+  categories: { [categoryId: string]: number };
+  products: { [productId: string]: number };
+}
+
+// Longest lead time in the cart and the item that sets it
+export interface CartLeadTime {
+  minutes: number;
+  itemName?: string;
+}
+
+export interface CateringSettings {
+  enabled: boolean;
+  minHeadCount: number;
+  maxHeadCount: number;
+  leadTimeMinutes: number;
+  depositPercent: number;
+}
+
+// Vehicle details collected for curbside pickup
+export interface CurbsideDetails {
+  vehicleMake: string;
+  vehicleColor: string;
+  parkingSpot?: string;
+}
+
+// Saved details for a signed-in customer, kept on their Square customer profile
+export interface CustomerProfile {
+  email: string; // Sign-in email; not editable
+  firstName: string;
+  lastName: string;
+  phone: string;
+}
+
 
 
 export type OrderStatus = 
@@ -348,6 +568,7 @@ export interface CartContextType {
   appliedDiscounts: AppliedDiscount[];
   selectedPickupDate: string | null;
   selectedPickupTime: string | null;
+  leadTime: CartLeadTime; // How far ahead the current cart has to be ordered
   addToCart: (
     product: Product, 
     quantity: number, 
@@ -364,8 +585,22 @@ export interface CartContextType {
   updateSpecialInstructions: (itemId: string, instructions: string) => void;
   setPickupLocation: (location: StoreLocation) => void;
   setPickupDateTime: (date: string, time: string) => void;
-  applyDiscount: (code: string) => Promise<boolean>;
+  addReorderItems: (items: ReorderResult['items']) => void;
+  pickupMode: PickupMode;
+  asapQuote: AsapQuote | null;
+  asapError: string | null;
+  isQuotingAsap: boolean;
+  setPickupMode: (mode: PickupMode) => void;
+  refreshAsapQuote: () => Promise<AsapQuote | null>;
+  applyDiscount: (code: string, customer?: DiscountCustomer) => Promise<DiscountValidationResult>;
+  applyLoyaltyReward: (tier: LoyaltyRewardTier) => void; // Replaces any reward already on the cart
   removeDiscount: (discountId: string) => void;
+  getCheckoutAttemptKey: (checkoutData: object) => string; // Same key until the checkout changes, completes or is renewed
+  renewCheckoutAttemptKey: (failure: unknown) => void; // After a failed attempt, unless the request may still have gone through
+  openHostedCheckout: (checkout: { checkoutUrl: string; orderId?: string }) => void; // Redirects to Square's checkout page
+  getHostedCheckoutKey: () => string | null; // Attempt key of a hosted checkout the customer hasn't finished
+  abandonHostedCheckout: () => void; // Voids that checkout's unpaid order and ends the attempt
+  completeHostedCheckout: (orderId: string) => void; // Empties the cart once its hosted checkout is paid
   clearCart: () => void;
   getTotalItems: () => number;
   getTotalPrice: () => number;
@@ -425,9 +660,18 @@ export interface SortOptions {
 }
 
 // Discount validation result
+// Who is redeeming a discount, for per-customer usage limits
+export interface DiscountCustomer {
+  email?: string;
+  phone?: string;
+}
+
 export interface DiscountValidationResult {
   isValid: boolean;
   discount?: Discount;
   error?: string;
   appliedAmount?: number;
+  itemIds?: string[]; // Cart items a LINE_ITEM discount qualified
+  replacedDiscountIds?: string[]; // Applied codes this one takes priority over
+  replacedReason?: string;
 }
\ No newline at end of file
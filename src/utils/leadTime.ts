@@ -0,0 +1,45 @@
+import { CartItem, CartLeadTime, LeadTimeSettings } from '../types';
+import { zonedTimeToEpoch } from './timezone';
+
+// Same rule the server applies at checkout: the longest lead time of any item wins
+export const DEFAULT_LEAD_TIME_MINUTES = 15;
+
+export const getCartLeadTime = (items: CartItem[], settings: LeadTimeSettings | null): CartLeadTime => {
+  const defaultMinutes = settings?.defaultMinutes ?? DEFAULT_LEAD_TIME_MINUTES;
+  let longest: CartLeadTime = { minutes: defaultMinutes };
+
+  if (!settings) {
+    return longest;
+  }
+
+  items.forEach(item => {
+    const { product } = item;
+    const categoryIds = [...(product.categoryIds || []), ...(product.categoryId ? [product.categoryId] : [])];
+    const minutes = Math.max(
+      settings.products[product.squareItemId || product.id] || 0,
+      ...categoryIds.map(categoryId => settings.categories[categoryId] || 0)
+    );
+
+    if (minutes > longest.minutes) {
+      longest = { minutes, itemName: product.name };
+    }
+  });
+
+  return longest;
+};
+
+// "45 minutes", "24 hours", "2 days"
+export const formatLeadTime = (minutes: number): string => {
+  if (minutes >= 2880 && minutes % 1440 === 0) return `${minutes / 1440} days`;
+  if (minutes >= 120 && minutes % 60 === 0) return `${minutes / 60} hours`;
+  return `${minutes} minutes`;
+};
+
+// Whether a pickup slot ("YYYY-MM-DD", "HH:MM" in the store's time zone) is too soon for the lead time
+export const isTooSoon = (
+  date: string,
+  time: string,
+  leadTimeMinutes: number,
+  timeZone?: string,
+  now: Date = new Date()
+): boolean => zonedTimeToEpoch(date, time, timeZone) - now.getTime() < leadTimeMinutes * 60 * 1000;
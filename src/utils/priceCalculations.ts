@@ -1,4 +1,4 @@
-import { CartItem, ProductVariant } from '../types';
+import { AppliedDiscount, CartItem, Discount, ProductVariant } from '../types';
 
 // Note: Tax calculations are handled by Square based on location configuration
 // These utilities are for display purposes only - actual tax is calculated by Square
@@ -96,4 +96,37 @@ export const calculateTotalWithDiscount = (
     tax,
     total
   };
-};
\ No newline at end of file
+};
+
+// Share of line-item discounts that falls on a single cart line (for display)
+// The validated total is split across the qualifying lines in proportion to their price
+export const calculateItemDiscount = (
+  item: CartItem,
+  items: CartItem[],
+  appliedDiscounts: AppliedDiscount[]
+): number => {
+  return appliedDiscounts
+    .filter(discount => discount.appliedTo === 'item' && discount.itemIds?.includes(item.id))
+    .reduce((total, discount) => {
+      const qualifyingTotal = items
+        .filter(cartItem => discount.itemIds?.includes(cartItem.id))
+        .reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
+
+      if (qualifyingTotal <= 0) {
+        return total;
+      }
+
+      return total + discount.appliedAmount * (item.totalPrice / qualifyingTotal);
+    }, 0);
+};
+
+// What a loyalty reward takes off, in dollars - the same figure the server charges at checkout
+// remaining is the subtotal after the cart's other discounts; a reward never takes off more than that
+export const calculateLoyaltyRewardAmount = (discount: Discount, remaining: number): number => {
+  const remainingCents = Math.max(0, Math.round(remaining * 100));
+  const amountCents = discount.squareDiscountType === 'FIXED_PERCENTAGE'
+    ? Math.round(remainingCents * discount.value / 100)
+    : discount.value;
+  const cappedCents = discount.maxDiscountAmount ? Math.min(amountCents, discount.maxDiscountAmount) : amountCents;
+  return Math.min(cappedCents, remainingCents) / 100;
+};
@@ -0,0 +1,75 @@
+import { Order, Product, ReorderResult } from '../types';
+import { calculateItemPrice, formatPrice } from './priceCalculations';
+
+// Product sold as this Square item variation - its primary variation or one of its sizes
+const findProductForVariation = (products: Product[], variationId: string): Product | undefined =>
+  products.find(product =>
+    product.squareVariationId === variationId ||
+    product.variants?.some(variant => variant.options.some(option => option.squareVariationId === variationId))
+  );
+
+/**
+ * Match a past order's lines back to the current menu
+ * selectedVariants is rebuilt the way the product modal sets it (option names keyed by variant ID).
+ * Lines whose item is gone are skipped; options that are gone are dropped. Both, and any price
+ * that differs from what was paid, are reported in warnings.
+ */
+export const buildReorder = (order: Order, products: Product[]): ReorderResult => {
+  const result: ReorderResult = { items: [], warnings: [] };
+
+  order.items.forEach(line => {
+    const product = line.productId ? findProductForVariation(products, line.productId) : undefined;
+    if (!product || product.sellable === false) {
+      result.warnings.push(`${line.productName} is no longer on the menu`);
+      return;
+    }
+
+    const selectedVariants: { [variantId: string]: string | string[] } = {};
+
+    const sizeVariant = product.variants?.find(variant =>
+      variant.options.some(option => option.squareVariationId === line.productId)
+    );
+    const size = sizeVariant?.options.find(option => option.squareVariationId === line.productId);
+    if (sizeVariant && size) {
+      selectedVariants[sizeVariant.id] = size.name;
+    }
+
+    let allOptionsFound = true;
+    (line.modifiers || []).forEach(modifier => {
+      const variant = product.variants?.find(candidate =>
+        candidate.options.some(option => option.id === modifier.id && !option.squareVariationId)
+      );
+      const option = variant?.options.find(candidate => candidate.id === modifier.id);
+      if (!variant || !option) {
+        allOptionsFound = false;
+        result.warnings.push(`${modifier.name} is no longer offered on ${product.name}`);
+        return;
+      }
+
+      if (variant.type === 'checklist') {
+        const selected = selectedVariants[variant.id];
+        selectedVariants[variant.id] = [...(Array.isArray(selected) ? selected : []), option.name];
+      } else {
+        selectedVariants[variant.id] = option.name;
+      }
+    });
+
+    // Only comparable when every option carried over; a dropped one already has its own warning
+    if (allOptionsFound) {
+      const originalPrice = line.basePrice + (line.modifiers || []).reduce((sum, modifier) => sum + modifier.price, 0);
+      const currentPrice = calculateItemPrice(product.price, { selectedVariants, productVariants: product.variants });
+      if (Math.abs(currentPrice - originalPrice) >= 0.01) {
+        result.warnings.push(`${product.name} is now ${formatPrice(currentPrice)} (was ${formatPrice(originalPrice)})`);
+      }
+    }
+
+    result.items.push({
+      product,
+      quantity: Math.max(1, Math.round(line.quantity)),
+      selectedVariants: Object.keys(selectedVariants).length > 0 ? selectedVariants : undefined,
+      specialInstructions: line.specialInstructions || undefined
+    });
+  });
+
+  return result;
+};
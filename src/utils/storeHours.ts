@@ -0,0 +1,53 @@
+import { DayHours, SpecialHours, StoreLocation } from '../types';
+import { addDays, getZonedToday } from './timezone';
+
+type WeeklyHours = { [day: string]: DayHours };
+
+// Day hours with the special-hours entry that replaced them, if any
+export interface EffectiveHours extends DayHours {
+  special?: SpecialHours;
+}
+
+export const getSpecialHoursForDate = (specialHours: SpecialHours[] | undefined, date: string): SpecialHours | undefined =>
+  specialHours?.find(entry => entry.date === date);
+
+/**
+ * Hours for a calendar date: a holiday closure or special hours win over the weekly schedule
+ * @param date - YYYY-MM-DD
+ */
+export const getHoursForDate = (
+  weeklyHours: WeeklyHours | null | undefined,
+  specialHours: SpecialHours[] | undefined,
+  date: string
+): EffectiveHours | undefined => {
+  const special = getSpecialHoursForDate(specialHours, date);
+  if (special) {
+    return {
+      open: special.open || '',
+      close: special.close || '',
+      closed: special.closed,
+      special
+    };
+  }
+
+  const [year, month, day] = date.split('-').map(Number);
+  const dayName = new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+  return weeklyHours?.[dayName];
+};
+
+// Today's hours for a location (today where the location is), special hours included
+export const getTodayHours = (location: StoreLocation, now: Date = new Date()): EffectiveHours | undefined =>
+  getHoursForDate(location.hours, location.specialHours, getZonedToday(location.timezone, now));
+
+// Today's closure for a location, if it has one
+export const getTodayClosure = (location: StoreLocation, now: Date = new Date()): SpecialHours | undefined => {
+  const special = getSpecialHoursForDate(location.specialHours, getZonedToday(location.timezone, now));
+  return special?.closed ? special : undefined;
+};
+
+// Special hours in the next few days, for listing alongside the weekly schedule
+export const getUpcomingSpecialHours = (location: StoreLocation, days: number = 14, now: Date = new Date()): SpecialHours[] => {
+  const today = getZonedToday(location.timezone, now);
+  const last = addDays(today, days);
+  return (location.specialHours || []).filter(entry => entry.date >= today && entry.date <= last);
+};
@@ -0,0 +1,54 @@
+import { zonedTimeToEpoch } from './timezone';
+
+describe('zonedTimeToEpoch', () => {
+  it('uses the offset in effect on the day', () => {
+    expect(zonedTimeToEpoch('2026-07-04', '11:30', 'America/Chicago')).toBe(Date.parse('2026-07-04T16:30:00Z'));
+    expect(zonedTimeToEpoch('2026-01-15', '11:30', 'America/Chicago')).toBe(Date.parse('2026-01-15T17:30:00Z'));
+  });
+
+  it('falls back to the browser clock without a time zone', () => {
+    expect(zonedTimeToEpoch('2026-07-04', '11:30')).toBe(new Date(2026, 6, 4, 11, 30).getTime());
+  });
+
+  describe('America/Chicago', () => {
+    // Clocks go from 2:00 CST to 3:00 CDT on March 8, 2026 and back from 2:00 CDT to 1:00 CST on November 1
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      expect(zonedTimeToEpoch('2026-03-08', '02:30', 'America/Chicago')).toBe(Date.parse('2026-03-08T08:30:00Z'));
+    });
+
+    it('uses daylight time from the moment clocks spring forward', () => {
+      expect(zonedTimeToEpoch('2026-03-08', '01:59', 'America/Chicago')).toBe(Date.parse('2026-03-08T07:59:00Z'));
+      expect(zonedTimeToEpoch('2026-03-08', '03:00', 'America/Chicago')).toBe(Date.parse('2026-03-08T08:00:00Z'));
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(zonedTimeToEpoch('2026-11-01', '01:30', 'America/Chicago')).toBe(Date.parse('2026-11-01T06:30:00Z'));
+    });
+
+    it('uses standard time once the repeated hour is over', () => {
+      expect(zonedTimeToEpoch('2026-11-01', '02:00', 'America/Chicago')).toBe(Date.parse('2026-11-01T08:00:00Z'));
+    });
+  });
+
+  describe('Europe/Berlin', () => {
+    // Clocks change at 1:00 UTC: 2:00 CET to 3:00 CEST on March 29, 2026 and 3:00 CEST to 2:00 CET on October 25
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      expect(zonedTimeToEpoch('2026-03-29', '02:30', 'Europe/Berlin')).toBe(Date.parse('2026-03-29T01:30:00Z'));
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(zonedTimeToEpoch('2026-10-25', '02:30', 'Europe/Berlin')).toBe(Date.parse('2026-10-25T00:30:00Z'));
+    });
+  });
+
+  describe('Australia/Sydney', () => {
+    // Southern hemisphere: 3:00 AEDT to 2:00 AEST on April 5, 2026 and 2:00 AEST to 3:00 AEDT on October 4
+    it('moves a time skipped by spring-forward ahead by the gap', () => {
+      expect(zonedTimeToEpoch('2026-10-04', '02:30', 'Australia/Sydney')).toBe(Date.parse('2026-10-03T16:30:00Z'));
+    });
+
+    it('reads a time repeated by fall-back as the first of the two', () => {
+      expect(zonedTimeToEpoch('2026-04-05', '02:30', 'Australia/Sydney')).toBe(Date.parse('2026-04-04T15:30:00Z'));
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// Wall-clock helpers for a store location's time zone
+// Pickup dates and times are always the store's local time; these keep "today", "now" and
+// slot timestamps in that zone even when the customer's browser is somewhere else.
+// Without a time zone everything falls back to the browser's local clock.
+
+export interface ZonedDateParts {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number; // since midnight
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Calendar date, weekday and minutes since midnight for an instant in a time zone
+export const getZonedDateParts = (now: Date = new Date(), timeZone?: string): ZonedDateParts => {
+  if (!timeZone) {
+    return {
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      dayOfWeek: now.getDay(),
+      minutes: now.getHours() * 60 + now.getMinutes()
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10)
+  };
+};
+
+// Today's date ("YYYY-MM-DD") in a time zone
+export const getZonedToday = (timeZone?: string, now: Date = new Date()): string =>
+  getZonedDateParts(now, timeZone).date;
+
+// Calendar arithmetic on "YYYY-MM-DD" strings, independent of any time zone
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+// UTC offset in minutes of a time zone at an instant, e.g. -300 for Central Daylight Time
+const getTimeZoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const timeZoneName = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    timeZoneName: 'longOffset'
+  }).formatToParts(instant).find(part => part.type === 'timeZoneName')?.value || 'GMT';
+
+  const match = timeZoneName.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+  if (!match) return 0;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3] || '0', 10);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+/**
+ * The instant a store wall-clock date and time happen, in milliseconds since the epoch
+ * Mirrors the server's toZonedTimestamp so the picker and checkout agree across DST changes.
+ */
+export const zonedTimeToEpoch = (date: string, time: string, timeZone?: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute).getTime();
+  }
+
+  const wallClockUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // The offsets a day either side are the candidates around a DST change. A time repeated when clocks fall back
+  // is the earlier of its two instants, and a time skipped when they spring forward moves forward by the gap.
+  const before = getTimeZoneOffsetMinutes(new Date(wallClockUtc - DAY_MS), timeZone);
+  const after = getTimeZoneOffsetMinutes(new Date(wallClockUtc + DAY_MS), timeZone);
+  const valid = [before, after].filter(offset =>
+    getTimeZoneOffsetMinutes(new Date(wallClockUtc - offset * 60000), timeZone) === offset
+  );
+  const offset = valid.length > 0 ? Math.max(...valid) : before;
+  return wallClockUtc - offset * 60000;
+};
+
+// Whether a time zone differs from the browser's right now, so times need a zone label
+export const isForeignTimeZone = (timeZone?: string, now: Date = new Date()): boolean => {
+  if (!timeZone) return false;
+  return getTimeZoneOffsetMinutes(now, timeZone) !== -now.getTimezoneOffset();
+};
+
+// An instant on the store's clock, e.g. "Sat, Jul 4, 11:30 AM", with the zone added when the browser is elsewhere
+export const formatZonedDateTime = (
+  instant: Date | string,
+  timeZone?: string,
+  options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true }
+): string => {
+  const date = new Date(instant);
+  return new Intl.DateTimeFormat('en-US', {
+    ...options,
+    ...(timeZone && { timeZone }),
+    ...(isForeignTimeZone(timeZone, date) && { timeZoneName: 'short' })
+  }).format(date);
+};
+
+// Short zone name for labels, e.g. "CST" or "CDT"
+export const getTimeZoneAbbreviation = (timeZone?: string, now: Date = new Date()): string => {
+  if (!timeZone) return '';
+  return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(now)
+    .find(part => part.type === 'timeZoneName')?.value || timeZone;
+};